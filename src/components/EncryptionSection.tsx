@@ -1,32 +1,128 @@
-import { useState } from "react";
-import { Upload, Download } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { Upload, Download, KeyRound } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
 import FileUpload from "./FileUpload";
-import ProgressDisplay from "./ProgressDisplay";
+import ProgressDisplay, { ProgressStep } from "./ProgressDisplay";
 import FilePreview from "./FilePreview";
 import { toast } from "sonner";
 import { BiometricEncryptionService, EncryptionResult } from "@/lib/biometric";
+import { documentFromFile, encryptionResultBlob, fileBytes } from "@/lib/browser-adapters";
+import { encryptInWorker, isAbortError } from "@/lib/pipeline-client";
+import { PipelineProgress } from "@/lib/pipeline-progress";
+import { EncryptionMode } from "@/lib/payload-sealing";
+import { PATTERN_CLASS_LABELS } from "@/lib/fingerprint-singularities";
+import { TEMPLATE_FORMAT_LABELS } from "@/lib/minutiae-template";
+import {
+  exportSigningIdentity,
+  generateSigningIdentity,
+  importSigningIdentity,
+  SigningIdentity,
+} from "@/lib/document-signing";
 import { validateFiles } from "@/lib/validation";
 
+const SIGNING_KEY_STORAGE = "biomark.signingKey";
+
 const EncryptionSection = () => {
   const [fingerprintFile, setFingerprintFile] = useState<File | null>(null);
   const [documentFile, setDocumentFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentStep, setCurrentStep] = useState(0);
+  const [progress, setProgress] = useState<PipelineProgress | null>(null);
   const [isComplete, setIsComplete] = useState(false);
   const [encryptionResult, setEncryptionResult] = useState<EncryptionResult | null>(null);
+  const [encryptionMode, setEncryptionMode] = useState<EncryptionMode>("watermark");
+  const [signingEnabled, setSigningEnabled] = useState(false);
+  const [signingIdentity, setSigningIdentity] = useState<SigningIdentity | null>(null);
+  const keyInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the page stops a running encryption
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
   
+  // Text helpers only: encryption itself runs in the pipeline worker
   const encryptionService = new BiometricEncryptionService();
 
-  const encryptionSteps = [
-    { icon: "fingerprint", text: "Fingerprint received" },
-    { icon: "scan", text: "Extracting minutiae features..." },
-    { icon: "key", text: "Generating secure key via Fuzzy Vault..." },
-    { icon: "shield", text: "Embedding watermark in text document..." },
+  const encryptionSteps: ProgressStep[] = [
+    { stage: "decode", icon: "fingerprint", text: "Decoding fingerprint..." },
+    { stage: "enhance", icon: "scan", text: "Enhancing ridges..." },
+    { stage: "binarize", icon: "scan", text: "Binarizing ridges..." },
+    { stage: "thin", icon: "scan", text: "Thinning ridges to a skeleton..." },
+    { stage: "extract", icon: "scan", text: "Extracting minutiae features..." },
+    { stage: "vault", icon: "key", text: "Generating secure key via Fuzzy Vault..." },
+    { stage: "hash", icon: "shield", text: "Hashing document content..." },
+    { stage: "embed", icon: "shield", text: "Embedding watermark in text document..." },
+    { stage: "package", icon: "shield", text: "Packaging encrypted document..." },
     { icon: "check", text: "Encryption complete — download your secured document." },
   ];
 
+  const encryptionModes: { value: EncryptionMode; label: string; description: string }[] = [
+    { value: "watermark", label: "Watermark only", description: "Document and payload stay readable" },
+    { value: "sealed-payload", label: "Seal payload", description: "Hashes encrypted with the fingerprint key" },
+    { value: "sealed-document", label: "Seal payload and document", description: "Only the enrolled finger can read the text" },
+  ];
+
+  const storeSigningIdentity = async (identity: SigningIdentity) => {
+    localStorage.setItem(SIGNING_KEY_STORAGE, JSON.stringify(await exportSigningIdentity(identity)));
+    setSigningIdentity(identity);
+  };
+
+  const handleSigningToggle = async (enabled: boolean) => {
+    setSigningEnabled(enabled);
+    if (!enabled || signingIdentity) {
+      return;
+    }
+
+    try {
+      const stored = localStorage.getItem(SIGNING_KEY_STORAGE);
+      if (stored) {
+        setSigningIdentity(await importSigningIdentity(JSON.parse(stored)));
+      } else {
+        await storeSigningIdentity(await generateSigningIdentity());
+        toast.success("Generated a new signing key");
+      }
+    } catch (error) {
+      console.error("Failed to load signing key:", error);
+      toast.error("Could not load the signing key");
+      setSigningEnabled(false);
+    }
+  };
+
+  const handleImportKey = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+
+    try {
+      await storeSigningIdentity(await importSigningIdentity(JSON.parse(await file.text())));
+      setSigningEnabled(true);
+      toast.success("Signing key imported");
+    } catch (error) {
+      console.error("Failed to import signing key:", error);
+      toast.error("Not a valid P-256 private key (JWK)");
+    }
+  };
+
+  const handleExportKey = async () => {
+    if (!signingIdentity) {
+      return;
+    }
+
+    const jwk = await exportSigningIdentity(signingIdentity);
+    const url = URL.createObjectURL(new Blob([JSON.stringify(jwk, null, 2)], { type: "application/json" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `signing-key-${signingIdentity.keyId}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleEncrypt = async () => {
     if (!fingerprintFile || !documentFile) {
       toast.error("Please upload both fingerprint and document files");
@@ -41,54 +137,53 @@ const EncryptionSection = () => {
     }
 
     setIsProcessing(true);
-    setCurrentStep(0);
+    setProgress(null);
     setIsComplete(false);
     setEncryptionResult(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
-      // Step 1: Fingerprint received
-      setCurrentStep(1);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Step 2: Extract minutiae features
-      setCurrentStep(2);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Step 3: Generate secure key via Fuzzy Vault
-      setCurrentStep(3);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Step 4: Embed watermark in text document
-      setCurrentStep(4);
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Perform actual encryption
-      const result = await encryptionService.encryptDocument(fingerprintFile, documentFile);
+      // The pipeline runs in a worker and reports each stage as it starts
+      const result = await encryptInWorker(await fileBytes(fingerprintFile), await documentFromFile(documentFile), {
+        mode: encryptionMode,
+        signingIdentity: signingEnabled && signingIdentity ? signingIdentity : undefined,
+        onProgress: setProgress,
+        signal: abortController.signal,
+      });
       
       // Debug: Log the results
       const userVisibleText = encryptionService.getUserVisibleText(result.encryptedDocument);
       console.log("Original document length:", result.encryptedDocument.length);
       console.log("User visible length:", userVisibleText.length);
       console.log("Hidden watermark chars:", result.encryptedDocument.length - userVisibleText.length);
-      console.log("Watermark data:", result.watermarkData);
       console.log("User visible text:", userVisibleText);
       console.log("First 100 chars of user visible:", userVisibleText.substring(0, 100));
       
       setEncryptionResult(result);
 
-      // Step 5: Encryption complete
-      setCurrentStep(5);
       setIsComplete(true);
       setIsProcessing(false);
       toast.success("Document encrypted successfully!");
     } catch (error) {
-      console.error("Encryption failed:", error);
-      toast.error("Encryption failed. Please try again.");
+      if (isAbortError(error)) {
+        toast.info("Encryption cancelled");
+      } else {
+        console.error("Encryption failed:", error);
+        toast.error("Encryption failed. Please try again.");
+      }
       setIsProcessing(false);
-      setCurrentStep(0);
+      setProgress(null);
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  const handleCancel = () => {
+    // The worker is terminated at once; no result, and so no download, is kept
+    abortControllerRef.current?.abort();
+  };
+
   const handleDownload = () => {
     if (!encryptionResult) {
       toast.error("No encrypted document to download");
@@ -96,7 +191,7 @@ const EncryptionSection = () => {
     }
 
     // Create and download the encrypted document
-    const url = URL.createObjectURL(encryptionResult.downloadBlob);
+    const url = URL.createObjectURL(encryptionResultBlob(encryptionResult));
     const a = document.createElement('a');
     a.href = url;
     a.download = encryptionResult.downloadName;
@@ -111,7 +206,7 @@ const EncryptionSection = () => {
   const handleReset = () => {
     setFingerprintFile(null);
     setDocumentFile(null);
-    setCurrentStep(0);
+    setProgress(null);
     setIsComplete(false);
     setIsProcessing(false);
     setEncryptionResult(null);
@@ -129,8 +224,8 @@ const EncryptionSection = () => {
 
           <div className="space-y-4">
             <FileUpload
-              label="Upload Fingerprint Image"
-              accept=".png,.jpg,.jpeg"
+              label="Upload Fingerprint Image or Template"
+              accept=".png,.jpg,.jpeg,.bmp,.tif,.tiff,.pgm,.wsq,.fmr,.ist"
               icon="fingerprint"
               file={fingerprintFile}
               onFileChange={setFingerprintFile}
@@ -154,6 +249,58 @@ const EncryptionSection = () => {
               <FilePreview file={documentFile} type="document" />
             )}
 
+            <RadioGroup
+              value={encryptionMode}
+              onValueChange={(value) => setEncryptionMode(value as EncryptionMode)}
+              disabled={isProcessing}
+              className="gap-3"
+            >
+              {encryptionModes.map((mode) => (
+                <div key={mode.value} className="flex items-start gap-3">
+                  <RadioGroupItem value={mode.value} id={`mode-${mode.value}`} className="mt-0.5" />
+                  <Label htmlFor={`mode-${mode.value}`} className="font-mono text-sm cursor-pointer">
+                    {mode.label}
+                    <span className="block text-xs text-muted-foreground font-normal">{mode.description}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <Switch
+                  id="sign-document"
+                  checked={signingEnabled}
+                  onCheckedChange={handleSigningToggle}
+                  disabled={isProcessing}
+                />
+                <Label htmlFor="sign-document" className="font-mono text-sm cursor-pointer">
+                  Sign with ECDSA P-256 key
+                </Label>
+              </div>
+              {signingEnabled && signingIdentity && (
+                <div className="flex items-center gap-2 pl-12">
+                  <KeyRound className="w-4 h-4 text-primary flex-shrink-0" />
+                  <span className="font-mono text-xs text-muted-foreground truncate">
+                    Key {signingIdentity.keyId}
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={handleExportKey} disabled={isProcessing} className="font-mono text-xs">
+                    Export
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => keyInputRef.current?.click()}
+                    disabled={isProcessing}
+                    className="font-mono text-xs"
+                  >
+                    Import
+                  </Button>
+                  <input ref={keyInputRef} type="file" accept=".json" className="hidden" onChange={handleImportKey} />
+                </div>
+              )}
+            </div>
+
             <div className="flex gap-3 pt-4">
               <Button
                 onClick={handleEncrypt}
@@ -163,15 +310,24 @@ const EncryptionSection = () => {
                 {isProcessing ? "Processing..." : "Encrypt Document"}
               </Button>
 
-              {(fingerprintFile || documentFile) && (
+              {isProcessing ? (
                 <Button
-                  onClick={handleReset}
+                  onClick={handleCancel}
                   variant="outline"
-                  disabled={isProcessing}
-                  className="font-orbitron border-primary/30 hover:border-primary/50 hover:bg-primary/10"
+                  className="font-orbitron border-destructive/40 hover:border-destructive/60 hover:bg-destructive/10"
                 >
-                  Reset
+                  Cancel
                 </Button>
+              ) : (
+                (fingerprintFile || documentFile) && (
+                  <Button
+                    onClick={handleReset}
+                    variant="outline"
+                    className="font-orbitron border-primary/30 hover:border-primary/50 hover:bg-primary/10"
+                  >
+                    Reset
+                  </Button>
+                )
               )}
             </div>
           </div>
@@ -182,8 +338,9 @@ const EncryptionSection = () => {
       <Card className="bg-card/30 backdrop-blur-md border-primary/20 p-6">
         <ProgressDisplay
           steps={encryptionSteps}
-          currentStep={currentStep}
+          progress={progress}
           isProcessing={isProcessing}
+          isComplete={isComplete}
         />
 
         {isComplete && encryptionResult && (
@@ -199,6 +356,19 @@ const EncryptionSection = () => {
                   {encryptionService.getUserVisibleText(encryptionResult.encryptedDocument).length > 200 ? "..." : ""}
                 </pre>
               </div>
+              <p className="font-mono text-xs text-muted-foreground mt-2">
+                Mode: {encryptionModes.find((mode) => mode.value === encryptionResult.mode)?.label}
+                {encryptionResult.watermarkData.signature && signingIdentity && ` · signed by key ${signingIdentity.keyId}`}
+              </p>
+              <p className="font-mono text-xs text-muted-foreground mt-2">
+                Fingerprint:{" "}
+                {encryptionResult.fingerprint.source !== "image" &&
+                  `${TEMPLATE_FORMAT_LABELS[encryptionResult.fingerprint.source]} template · `}
+                {PATTERN_CLASS_LABELS[encryptionResult.fingerprint.patternClass]}
+                {` · ${encryptionResult.fingerprint.cores} ${encryptionResult.fingerprint.cores === 1 ? "core" : "cores"}`}
+                {`, ${encryptionResult.fingerprint.deltas} ${encryptionResult.fingerprint.deltas === 1 ? "delta" : "deltas"}`}
+                {` · ${encryptionResult.fingerprint.minutiaeCount} minutiae`}
+              </p>
               <p className="font-mono text-xs text-muted-foreground mt-2">
                 Visible length: {encryptionService.getUserVisibleText(encryptionResult.encryptedDocument).length} characters
                 <span className="ml-2 text-primary">
@@ -3,7 +3,15 @@ import { Eye, EyeOff, FileText, Image } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { cn } from "@/lib/utils";
+import { documentFromFile } from "@/lib/browser-adapters";
 import { readDocumentAsPlainText } from "@/lib/docx-handler";
+import { decodeFingerprintImage, grayscaleToRgba } from "@/lib/image-decoders";
+import {
+  decodeMinutiaeTemplate,
+  isMinutiaeTemplate,
+  MinutiaeTemplate,
+  TEMPLATE_FORMAT_LABELS,
+} from "@/lib/minutiae-template";
 
 interface FilePreviewProps {
   file: File | null;
@@ -11,20 +19,62 @@ interface FilePreviewProps {
   className?: string;
 }
 
+const describeTemplate = ({ format, width, height, resolution, views }: MinutiaeTemplate) =>
+  [
+    `${TEMPLATE_FORMAT_LABELS[format]} minutiae template`,
+    `${width}x${height}px at ${Math.round(resolution)} ppi`,
+    ...views.map(
+      (view, index) =>
+        `View ${index + 1}: finger ${view.fingerPosition}, quality ${view.quality}, ` +
+        `${view.minutiae.length} minutiae, ${view.cores.length} cores, ${view.deltas.length} deltas`
+    ),
+  ].join("\n");
+
+// WSQ, BMP, TIFF and PGM are decoded here (most browsers show none but BMP): the <img> gets a PNG data URL
+const decodedImageUrl = (bytes: Uint8Array): string | null => {
+  const decoded = decodeFingerprintImage(bytes);
+  if (!decoded) return null;
+
+  const { width, height, data } = grayscaleToRgba(decoded);
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")?.putImageData(new ImageData(data, width, height), 0, 0);
+  return canvas.toDataURL("image/png");
+};
+
 const FilePreview = ({ file, type, className }: FilePreviewProps) => {
   const [showPreview, setShowPreview] = useState(false);
   const [previewContent, setPreviewContent] = useState<string>("");
+  // Templates and unreadable images are previewed as text, like documents
+  const [textLabel, setTextLabel] = useState<string | null>(null);
 
   const handlePreview = async () => {
     if (!file) return;
 
-    if (type === "fingerprint") {
+    const bytes = type === "fingerprint" ? new Uint8Array(await file.arrayBuffer()) : null;
+    setTextLabel(type === "document" ? "Document Content" : null);
+    if (bytes && isMinutiaeTemplate(bytes)) {
+      // Templates have no image: describe what they hold instead
+      setTextLabel("Minutiae Template");
+      try {
+        setPreviewContent(describeTemplate(decodeMinutiaeTemplate(bytes)));
+      } catch (error) {
+        console.error("Failed to read minutiae template", error);
+        setPreviewContent("Unable to read this minutiae template.");
+      }
+    } else if (bytes) {
       // For images, create a preview URL
-      const url = URL.createObjectURL(file);
-      setPreviewContent(url);
+      try {
+        setPreviewContent(decodedImageUrl(bytes) ?? URL.createObjectURL(file));
+      } catch (error) {
+        console.error("Failed to decode fingerprint image", error);
+        setTextLabel("Fingerprint Image");
+        setPreviewContent("Unable to decode this fingerprint image.");
+      }
     } else {
       try {
-        const { text } = await readDocumentAsPlainText(file);
+        const { text } = await readDocumentAsPlainText(await documentFromFile(file));
         setPreviewContent(text);
       } catch (error) {
         console.error("Failed to preview document", error);
@@ -36,7 +86,7 @@ const FilePreview = ({ file, type, className }: FilePreviewProps) => {
 
   const handleClosePreview = () => {
     setShowPreview(false);
-    if (type === "fingerprint" && previewContent) {
+    if (previewContent.startsWith("blob:")) {
       URL.revokeObjectURL(previewContent);
     }
     setPreviewContent("");
@@ -72,7 +122,7 @@ const FilePreview = ({ file, type, className }: FilePreviewProps) => {
 
       {showPreview && (
         <Card className="bg-card/50 backdrop-blur-md border-primary/20 p-4">
-          {type === "fingerprint" ? (
+          {textLabel === null ? (
             <div className="space-y-2">
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <Image className="w-4 h-4" />
@@ -90,7 +140,7 @@ const FilePreview = ({ file, type, className }: FilePreviewProps) => {
             <div className="space-y-2">
               <div className="flex items-center gap-2 text-sm text-muted-foreground">
                 <FileText className="w-4 h-4" />
-                <span>Document Content</span>
+                <span>{textLabel}</span>
               </div>
               <div className="max-h-48 overflow-y-auto">
                 <pre className="font-mono text-xs text-foreground whitespace-pre-wrap break-words">
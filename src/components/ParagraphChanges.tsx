@@ -0,0 +1,66 @@
+import { Fragment } from "react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { ParagraphChangeKind, ParagraphIntegrity } from "@/lib/paragraph-integrity";
+
+interface ParagraphChangesProps {
+  integrity: ParagraphIntegrity;
+}
+
+const kindStyles: Record<Exclude<ParagraphChangeKind, "removed">, string> = {
+  modified: "bg-destructive/10 border-l-2 border-destructive",
+  added: "bg-yellow-500/10 border-l-2 border-yellow-500",
+};
+
+const ParagraphChanges = ({ integrity }: ParagraphChangesProps) => {
+  const currentKinds = new Map<number, ParagraphChangeKind>();
+  const removedBefore = new Map<number, number>();
+
+  for (const change of integrity.changes) {
+    if (change.currentIndex !== null) {
+      currentKinds.set(change.currentIndex, change.kind);
+    } else {
+      removedBefore.set(change.anchorIndex, (removedBefore.get(change.anchorIndex) ?? 0) + 1);
+    }
+  }
+
+  const removedMarker = (count: number | undefined) =>
+    count ? (
+      <p className="font-mono text-xs text-destructive italic px-2">
+        {count} paragraph{count === 1 ? "" : "s"} removed here
+      </p>
+    ) : null;
+
+  return (
+    <div className="bg-muted/20 border border-muted rounded-lg p-4 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-mono text-sm font-medium text-foreground">Changed Paragraphs</h4>
+        <Badge variant="outline" className="text-xs">
+          {integrity.changes.length} of {integrity.originalCount} changed
+        </Badge>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto space-y-1">
+        {integrity.paragraphs.map((paragraph, index) => {
+          const kind = currentKinds.get(index);
+          return (
+            <Fragment key={index}>
+              {removedMarker(removedBefore.get(index))}
+              <p
+                className={cn(
+                  "font-mono text-xs leading-relaxed px-2 py-1 rounded-sm",
+                  kind && kind !== "removed" ? kindStyles[kind] : "text-muted-foreground"
+                )}
+              >
+                {paragraph}
+              </p>
+            </Fragment>
+          );
+        })}
+        {removedMarker(removedBefore.get(integrity.paragraphs.length))}
+      </div>
+    </div>
+  );
+};
+
+export default ParagraphChanges;
@@ -1,15 +1,19 @@
 import { Fingerprint, ScanLine, Key, Shield, CheckCircle2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { PipelineProgress, PipelineStage } from "@/lib/pipeline-progress";
 import { cn } from "@/lib/utils";
 
-interface ProgressStep {
+export interface ProgressStep {
+  stage?: PipelineStage; // Pipeline stage the row tracks; the row without one is lit on completion
   icon: string;
   text: string;
 }
 
 interface ProgressDisplayProps {
   steps: ProgressStep[];
-  currentStep: number;
+  progress: PipelineProgress | null; // Latest event from the pipeline worker
   isProcessing: boolean;
+  isComplete: boolean;
 }
 
 const iconMap = {
@@ -20,7 +24,15 @@ const iconMap = {
   check: CheckCircle2,
 };
 
-const ProgressDisplay = ({ steps, currentStep, isProcessing }: ProgressDisplayProps) => {
+const ProgressDisplay = ({ steps, progress, isProcessing, isComplete }: ProgressDisplayProps) => {
+  // Rows up to and including the running stage are lit; stages a run skips (a minutiae
+  // template has no image to enhance) are passed over
+  const currentStep = isComplete
+    ? steps.length
+    : progress
+      ? steps.findIndex((step) => step.stage === progress.stage) + 1
+      : 0;
+
   return (
     <div className="space-y-4">
       <h3 className="font-orbitron text-lg font-semibold text-foreground mb-4">
@@ -77,6 +89,13 @@ const ProgressDisplay = ({ steps, currentStep, isProcessing }: ProgressDisplayPr
         })}
       </div>
 
+      {isProcessing && progress && (
+        <div className="space-y-1">
+          <Progress value={progress.percent} className="h-2" />
+          <p className="font-mono text-xs text-muted-foreground text-right">{progress.percent}%</p>
+        </div>
+      )}
+
       {!isProcessing && currentStep === 0 && (
         <div className="text-center py-8">
           <p className="font-mono text-sm text-muted-foreground">
@@ -0,0 +1,170 @@
+import { CheckCircle2, XCircle, MinusCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  LEGACY_HASH_ALGORITHM,
+  VerificationCheckStatus,
+  VerificationFailureCode,
+  VerificationReport,
+} from "@/lib/biometric";
+import { PATTERN_CLASS_LABELS } from "@/lib/fingerprint-singularities";
+import { MatchTransform } from "@/lib/fingerprint-matcher";
+
+interface VerificationReportDetailsProps {
+  report: VerificationReport;
+}
+
+const failureMessages: Record<VerificationFailureCode, string> = {
+  NO_WATERMARK: "No watermark found in this document",
+  PAYLOAD_CORRUPT: "Watermark present but damaged beyond recovery",
+  CONTENT_TAMPERED: "Document content changed after encryption",
+  FINGERPRINT_MISMATCH: "Fingerprint does not unlock the document vault",
+  LOW_QUALITY_SAMPLE: "Fingerprint sample quality too low to compare",
+  SIGNATURE_INVALID: "Watermark signature does not match its signing key",
+};
+
+// First 8 bytes in colon-separated pairs, enough to compare against a known key
+const formatKeyFingerprint = (fingerprint: string) => fingerprint.slice(0, 16).match(/../g)!.join(":");
+
+const formatTransform = ({ rotation, dx, dy }: MatchTransform) =>
+  `rotated ${rotation.toFixed(0)}°, shifted ${dx.toFixed(0)},${dy.toFixed(0)} px`;
+
+const statusIcon = {
+  passed: CheckCircle2,
+  failed: XCircle,
+  skipped: MinusCircle,
+};
+
+const CheckRow = ({ label, status, detail }: { label: string; status: VerificationCheckStatus; detail?: string }) => {
+  const Icon = statusIcon[status];
+
+  return (
+    <div className="flex items-center gap-3 py-1">
+      <Icon
+        className={cn(
+          "w-4 h-4 flex-shrink-0",
+          status === "passed" && "text-primary",
+          status === "failed" && "text-destructive",
+          status === "skipped" && "text-muted-foreground"
+        )}
+      />
+      <span className="font-mono text-sm text-foreground">{label}</span>
+      {detail && <span className="ml-auto font-mono text-xs text-muted-foreground">{detail}</span>}
+    </div>
+  );
+};
+
+const VerificationReportDetails = ({ report }: VerificationReportDetailsProps) => {
+  const watermarkStatus: VerificationCheckStatus = report.watermarkFound
+    ? report.failureCode === "PAYLOAD_CORRUPT"
+      ? "failed"
+      : "passed"
+    : "failed";
+  const fingerprintStatus: VerificationCheckStatus =
+    report.templateHash !== "skipped"
+      ? report.templateHash
+      : report.fingerprintMatchScore === null
+        ? report.failureCode === "LOW_QUALITY_SAMPLE"
+          ? "failed"
+          : "skipped"
+        : report.vaultUnlock;
+
+  return (
+    <div className="bg-muted/20 border border-muted rounded-lg p-4 space-y-1">
+      <h4 className="font-mono text-sm font-medium text-foreground mb-2">Verification Report</h4>
+
+      <CheckRow
+        label="Watermark found"
+        status={watermarkStatus}
+        detail={
+          report.payloadVersion !== null
+            ? [
+                `payload v${report.payloadVersion}`,
+                report.copiesFound !== null && `${report.copiesFound} ${report.copiesFound === 1 ? "copy" : "copies"} found`,
+                report.correctedSymbols ? `${report.correctedSymbols} symbols repaired` : null,
+              ]
+                .filter(Boolean)
+                .join(" · ")
+            : undefined
+        }
+      />
+      <CheckRow
+        label="Content integrity"
+        status={report.contentIntegrity}
+        detail={
+          report.hashAlgorithm
+            ? report.hashAlgorithm === LEGACY_HASH_ALGORITHM
+              ? `${report.hashAlgorithm} (re-encrypt to upgrade)`
+              : report.hashAlgorithm
+            : undefined
+        }
+      />
+      {report.paragraphIntegrity && (
+        <CheckRow
+          label="Paragraphs"
+          status={report.paragraphIntegrity.rootMatches ? "passed" : "failed"}
+          detail={
+            report.paragraphIntegrity.rootMatches
+              ? `${report.paragraphIntegrity.originalCount} unchanged`
+              : `${report.paragraphIntegrity.changes.length} changed`
+          }
+        />
+      )}
+      <CheckRow
+        label="Fingerprint match"
+        status={fingerprintStatus}
+        detail={
+          [
+            report.fingerprintMatchScore !== null && `score ${(report.fingerprintMatchScore * 100).toFixed(0)}%`,
+            report.fingerprintPattern && PATTERN_CLASS_LABELS[report.fingerprintPattern].toLowerCase(),
+          ]
+            .filter(Boolean)
+            .join(" · ") || undefined
+        }
+      />
+      {report.templateHash !== "skipped" && (
+        <CheckRow label="Template hash" status={report.templateHash} detail={`${LEGACY_HASH_ALGORITHM} (re-encrypt to upgrade)`} />
+      )}
+      <CheckRow label="Vault unlock" status={report.vaultUnlock} />
+      {report.minutiaeMatch !== "skipped" && (
+        <CheckRow
+          label="Minutiae matcher"
+          status={report.minutiaeMatch}
+          detail={[
+            report.minutiaeMatchScore !== null && `score ${(report.minutiaeMatchScore * 100).toFixed(0)}%`,
+            report.matchTransform && formatTransform(report.matchTransform),
+          ]
+            .filter(Boolean)
+            .join(" · ")}
+        />
+      )}
+      {(report.signature !== "skipped" || report.signerKeyFingerprint) && (
+        <CheckRow
+          label="Signature"
+          status={report.signature}
+          detail={report.signerKeyFingerprint ? `key ${formatKeyFingerprint(report.signerKeyFingerprint)}` : undefined}
+        />
+      )}
+
+      {report.encryptionMode && report.encryptionMode !== "watermark" && (
+        <p className="font-mono text-xs text-muted-foreground pt-2">
+          {report.encryptionMode === "sealed-document" ? "Payload and document sealed" : "Payload sealed"} (AES-GCM)
+          {report.vaultUnlock !== "passed" && " · unlock with the enrolled fingerprint to check content"}
+        </p>
+      )}
+
+      {report.embeddedAt !== null && (
+        <p className="font-mono text-xs text-muted-foreground pt-2">
+          Embedded {new Date(report.embeddedAt).toLocaleString()}
+        </p>
+      )}
+
+      {report.failureCode && (
+        <p className="font-mono text-xs text-destructive pt-1">
+          {report.failureCode}: {failureMessages[report.failureCode]}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default VerificationReportDetails;
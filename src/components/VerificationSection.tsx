@@ -1,28 +1,40 @@
-import { useState } from "react";
-import { CheckCircle2, XCircle } from "lucide-react";
+import { useEffect, useRef, useState } from "react";
+import { CheckCircle2, Download, XCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import FileUpload from "./FileUpload";
-import ProgressDisplay from "./ProgressDisplay";
+import ProgressDisplay, { ProgressStep } from "./ProgressDisplay";
 import FilePreview from "./FilePreview";
+import VerificationReportDetails from "./VerificationReportDetails";
+import ParagraphChanges from "./ParagraphChanges";
 import { toast } from "sonner";
-import { BiometricEncryptionService } from "@/lib/biometric";
+import { VerificationReport } from "@/lib/biometric";
+import { documentFromFile, fileBytes } from "@/lib/browser-adapters";
+import { isAbortError, verifyInWorker } from "@/lib/pipeline-client";
+import { PipelineProgress } from "@/lib/pipeline-progress";
 import { validateFiles } from "@/lib/validation";
 
 const VerificationSection = () => {
   const [fingerprintFile, setFingerprintFile] = useState<File | null>(null);
   const [documentFile, setDocumentFile] = useState<File | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [currentStep, setCurrentStep] = useState(0);
-  const [verificationResult, setVerificationResult] = useState<boolean | null>(null);
-  
-  const encryptionService = new BiometricEncryptionService();
-
-  const verificationSteps = [
-    { icon: "fingerprint", text: "Fingerprint received" },
-    { icon: "scan", text: "Extracting minutiae features..." },
-    { icon: "shield", text: "Checking watermark integrity..." },
-    { icon: "key", text: "Comparing ownership keys..." },
+  const [progress, setProgress] = useState<PipelineProgress | null>(null);
+  const [verificationReport, setVerificationReport] = useState<VerificationReport | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Leaving the page stops a running verification
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const verificationSteps: ProgressStep[] = [
+    { stage: "package", icon: "shield", text: "Reading document..." },
+    { stage: "embed", icon: "shield", text: "Extracting watermark..." },
+    { stage: "hash", icon: "shield", text: "Checking watermark integrity..." },
+    { stage: "decode", icon: "fingerprint", text: "Decoding fingerprint..." },
+    { stage: "enhance", icon: "scan", text: "Enhancing ridges..." },
+    { stage: "binarize", icon: "scan", text: "Binarizing ridges..." },
+    { stage: "thin", icon: "scan", text: "Thinning ridges to a skeleton..." },
+    { stage: "extract", icon: "scan", text: "Extracting minutiae features..." },
+    { stage: "vault", icon: "key", text: "Comparing ownership keys..." },
     { icon: "check", text: "Verification complete" },
   ];
 
@@ -40,51 +52,65 @@ const VerificationSection = () => {
     }
 
     setIsProcessing(true);
-    setCurrentStep(0);
-    setVerificationResult(null);
+    setProgress(null);
+    setVerificationReport(null);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
-      // Step 1: Fingerprint received
-      setCurrentStep(1);
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-
-      // Step 2: Extract minutiae features
-      setCurrentStep(2);
-      await new Promise((resolve) => setTimeout(resolve, 2000));
-
-      // Step 3: Check watermark integrity
-      setCurrentStep(3);
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Step 4: Compare ownership keys
-      setCurrentStep(4);
-      await new Promise((resolve) => setTimeout(resolve, 1500));
-
-      // Perform actual verification directly with the uploaded file
-      const isVerified = await encryptionService.verifyDocument(fingerprintFile, documentFile);
+      // The pipeline runs in a worker and reports each stage as it starts
+      const report = await verifyInWorker(await fileBytes(fingerprintFile), await documentFromFile(documentFile), {
+        onProgress: setProgress,
+        signal: abortController.signal,
+      });
       
-      setVerificationResult(isVerified);
+      setVerificationReport(report);
       setIsProcessing(false);
 
-      if (isVerified) {
+      if (report.verified) {
         toast.success("Document verified successfully!");
       } else {
         toast.error("Document verification failed");
       }
     } catch (error) {
-      console.error("Verification failed:", error);
-      toast.error("Verification failed. Please try again.");
+      if (isAbortError(error)) {
+        toast.info("Verification cancelled");
+      } else {
+        console.error("Verification failed:", error);
+        toast.error("Verification failed. Please try again.");
+      }
       setIsProcessing(false);
-      setCurrentStep(0);
-      setVerificationResult(false);
+      setProgress(null);
+      setVerificationReport(null);
+    } finally {
+      abortControllerRef.current = null;
     }
   };
 
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleDownloadDecrypted = () => {
+    if (!verificationReport?.decryptedDocument || !documentFile) {
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([verificationReport.decryptedDocument], { type: "text/plain" }));
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${documentFile.name.replace(/\.[^.]+$/, "")}_decrypted.txt`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleReset = () => {
     setFingerprintFile(null);
     setDocumentFile(null);
-    setCurrentStep(0);
-    setVerificationResult(null);
+    setProgress(null);
+    setVerificationReport(null);
     setIsProcessing(false);
   };
 
@@ -100,8 +126,8 @@ const VerificationSection = () => {
 
           <div className="space-y-4">
             <FileUpload
-              label="Upload Fingerprint Image"
-              accept=".png,.jpg,.jpeg"
+              label="Upload Fingerprint Image or Template"
+              accept=".png,.jpg,.jpeg,.bmp,.tif,.tiff,.pgm,.wsq,.fmr,.ist"
               icon="fingerprint"
               file={fingerprintFile}
               onFileChange={setFingerprintFile}
@@ -134,15 +160,24 @@ const VerificationSection = () => {
                 {isProcessing ? "Verifying..." : "Verify Document"}
               </Button>
 
-              {(fingerprintFile || documentFile) && (
+              {isProcessing ? (
                 <Button
-                  onClick={handleReset}
+                  onClick={handleCancel}
                   variant="outline"
-                  disabled={isProcessing}
-                  className="font-orbitron border-primary/30 hover:border-primary/50 hover:bg-primary/10"
+                  className="font-orbitron border-destructive/40 hover:border-destructive/60 hover:bg-destructive/10"
                 >
-                  Reset
+                  Cancel
                 </Button>
+              ) : (
+                (fingerprintFile || documentFile) && (
+                  <Button
+                    onClick={handleReset}
+                    variant="outline"
+                    className="font-orbitron border-primary/30 hover:border-primary/50 hover:bg-primary/10"
+                  >
+                    Reset
+                  </Button>
+                )
               )}
             </div>
           </div>
@@ -153,13 +188,14 @@ const VerificationSection = () => {
       <Card className="bg-card/30 backdrop-blur-md border-primary/20 p-6">
         <ProgressDisplay
           steps={verificationSteps}
-          currentStep={currentStep}
+          progress={progress}
           isProcessing={isProcessing}
+          isComplete={verificationReport !== null}
         />
 
-        {verificationResult !== null && (
-          <div className="mt-6 animate-fade-in">
-            {verificationResult ? (
+        {verificationReport !== null && (
+          <div className="mt-6 animate-fade-in space-y-4">
+            {verificationReport.verified ? (
               <div className="bg-primary/10 border border-primary/30 rounded-lg p-4 flex items-center gap-3">
                 <CheckCircle2 className="w-8 h-8 text-primary flex-shrink-0" />
                 <div>
@@ -175,11 +211,27 @@ const VerificationSection = () => {
                 <div>
                   <p className="font-orbitron font-semibold text-destructive">Verification Failed ✗</p>
                   <p className="font-mono text-sm text-muted-foreground">
-                    Document corrupted or not verified
+                    See the failed checks below
                   </p>
                 </div>
               </div>
             )}
+
+            <VerificationReportDetails report={verificationReport} />
+
+            {verificationReport.paragraphIntegrity && verificationReport.paragraphIntegrity.changes.length > 0 && (
+              <ParagraphChanges integrity={verificationReport.paragraphIntegrity} />
+            )}
+
+            {verificationReport.decryptedDocument !== null && (
+              <Button
+                onClick={handleDownloadDecrypted}
+                className="w-full font-orbitron bg-accent hover:bg-accent/90 text-accent-foreground shadow-glow"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Download Decrypted Document
+              </Button>
+            )}
           </div>
         )}
       </Card>
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { BiometricEncryptionService, EncryptionResult } from "../biometric";
+import { createDocxFromText, DocumentInput } from "../docx-handler";
+import { GrayscaleImage } from "../fingerprint-enhancement";
+import { PipelineStage } from "../pipeline-progress";
+import { minutiaeTemplate } from "./fixtures";
+
+const text = 'Minutes of the March meeting.\nApproved unanimously.';
+const textDocument: DocumentInput = { name: 'minutes.txt', type: 'text/plain', data: new TextEncoder().encode(text) };
+
+/** Concentric ridges, 9 px apart, over a 256 px square at 500 ppi */
+function ridgeImage(): GrayscaleImage {
+  const size = 256;
+  const data = new Uint8ClampedArray(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const radius = Math.hypot(x - size / 2, y - size / 2);
+      data[y * size + x] = 128 + 100 * Math.cos((2 * Math.PI * radius) / 9);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+/**
+ * Encrypt with `abortAt` deciding, on every progress report, whether to abort; the run's
+ * result (if it gets that far) and the stages it reported are returned alongside its outcome
+ */
+async function encryptAndAbort(
+  fingerprint: Uint8Array | GrayscaleImage,
+  document: DocumentInput,
+  abortAt: (stage: PipelineStage, controller: AbortController) => void
+) {
+  const controller = new AbortController();
+  const stages: PipelineStage[] = [];
+  let result: EncryptionResult | null = null;
+  const run = new BiometricEncryptionService()
+    .encryptDocument(fingerprint, document, {
+      signal: controller.signal,
+      onProgress: ({ stage }) => {
+        stages.push(stage);
+        abortAt(stage, controller);
+      }
+    })
+    .then((value) => (result = value));
+  const outcome = await run.then(
+    () => null,
+    (error: unknown) => error
+  );
+  return { outcome, result, stages };
+}
+
+describe('encryptDocument cancellation', () => {
+  it('rejects an already aborted signal before any stage runs', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const stages: PipelineStage[] = [];
+
+    const run = new BiometricEncryptionService().encryptDocument(minutiaeTemplate(1), textDocument, {
+      signal: controller.signal,
+      onProgress: ({ stage }) => stages.push(stage)
+    });
+
+    await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+    expect(stages).toEqual([]);
+  });
+
+  it('sees an abort that arrives as an event between stages, as the worker receives it', async () => {
+    const { outcome, result, stages } = await encryptAndAbort(minutiaeTemplate(1), textDocument, (stage, controller) => {
+      if (stage === 'decode') {
+        setTimeout(() => controller.abort(), 0);
+      }
+    });
+
+    expect(outcome).toMatchObject({ name: 'AbortError' });
+    expect(result).toBeNull();
+    expect(stages).not.toContain('package');
+  });
+
+  it('stops an image before thinning when the abort arrives during enhancement', async () => {
+    const { outcome, result, stages } = await encryptAndAbort(ridgeImage(), textDocument, (stage, controller) => {
+      if (stage === 'enhance') {
+        setTimeout(() => controller.abort(new Error('cancelled by the operator')), 0);
+      }
+    });
+
+    expect(outcome).toEqual(new Error('cancelled by the operator'));
+    expect(result).toBeNull();
+    expect(stages).not.toContain('thin');
+  });
+
+  it('produces no DOCX when aborted while packaging', async () => {
+    const document: DocumentInput = { name: 'minutes.docx', type: '', data: await createDocxFromText(text) };
+
+    const { outcome, result, stages } = await encryptAndAbort(minutiaeTemplate(1), document, (stage, controller) => {
+      if (stage === 'package') {
+        controller.abort();
+      }
+    });
+
+    expect(outcome).toMatchObject({ name: 'AbortError' });
+    expect(result).toBeNull();
+    expect(stages.at(-1)).toBe('package');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { DocumentWatermarker, WatermarkData } from "../biometric";
+
+const watermarkData: WatermarkData = {
+  fingerprintHash: 'ab'.repeat(32),
+  vault: {
+    vault: Array.from({ length: 320 }, (_, i) => [(i * 7919) % 65537, (i * 104729) % 65537]),
+    secret: '',
+    polynomial: [],
+    encoding: 'aligned'
+  },
+  secretCheck: { salt: '00112233445566778899aabbccddeeff', digest: 'cd'.repeat(32) },
+  timestamp: 1700000000000,
+  contentHash: 'ef'.repeat(32),
+  hashAlgorithm: 'SHA-256',
+  payloadVersion: 5
+};
+
+const text = Array.from({ length: 60 }, (_, i) => `Sentence number ${i} of the watermarked text.`).join(' ');
+
+/** Flip one bit in the data section of every frame (after its 40 header bits), at a different offset each time */
+function flipOneBitPerFrame(watermarked: string): { text: string; flipped: number } {
+  const chars = Array.from(watermarked);
+  let frame = -1;
+  let bit = 0;
+  let flipped = 0;
+  for (let i = 0; i < chars.length; i++) {
+    if (chars[i] === '\u2060') {
+      frame++;
+      bit = 0;
+    } else if (chars[i] === '\u200B' || chars[i] === '\u200C') {
+      if (frame >= 0 && bit === 40 + ((frame * 37) % 256)) {
+        chars[i] = chars[i] === '\u200B' ? '\u200C' : '\u200B';
+        flipped++;
+      }
+      bit++;
+    }
+  }
+  return { text: chars.join(''), flipped };
+}
+
+describe('DocumentWatermarker', () => {
+  const watermarker = new DocumentWatermarker();
+
+  it('extracts an untouched watermark', () => {
+    const extraction = watermarker.extractWatermark(watermarker.embedWatermark(text, watermarkData).watermarkedText);
+
+    expect(extraction.status).toBe('found');
+  });
+
+  it('repairs a single flipped bit in every frame', () => {
+    const { watermarkedText } = watermarker.embedWatermark(text, watermarkData);
+    const damaged = flipOneBitPerFrame(watermarkedText);
+
+    const extraction = watermarker.extractWatermark(damaged.text);
+
+    expect(damaged.flipped).toBeGreaterThanOrEqual(40);
+    expect(extraction.status).toBe('found');
+    if (extraction.status === 'found') {
+      expect(extraction.correctedSymbols).toBeGreaterThanOrEqual(40);
+      expect(extraction.data.vault.vault).toEqual(watermarkData.vault.vault);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { BinarizationMethod, binarizeRidges } from "../fingerprint-binarization";
+import { GrayscaleImage } from "../fingerprint-enhancement";
+
+const WIDTH = 160;
+const HEIGHT = 64;
+const PERIOD = 8;
+
+/**
+ * Vertical ridges every 8 px (reflectance 0.2, valleys 1.0) under light that falls off
+ * from 250 on the right to 30 on the left, so most of the print is darker than mid-grey
+ */
+function unevenlyLitRidges(): GrayscaleImage {
+  const data = new Uint8ClampedArray(WIDTH * HEIGHT);
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const lighting = 30 + 220 * (x / (WIDTH - 1)) ** 2;
+      const reflectance = 0.6 - 0.4 * Math.cos((2 * Math.PI * x) / PERIOD);
+      data[y * WIDTH + x] = lighting * reflectance;
+    }
+  }
+  return { width: WIDTH, height: HEIGHT, data };
+}
+
+/** Share of ridge and valley centre pixels (inside the mask) labelled correctly */
+function centreAccuracy(binary: Uint8Array, mask: Uint8Array | null = null): number {
+  let correct = 0;
+  let total = 0;
+  for (let y = 0; y < HEIGHT; y++) {
+    for (let x = 0; x < WIDTH; x++) {
+      const i = y * WIDTH + x;
+      if (x % (PERIOD / 2) !== 0 || (mask && !mask[i])) {
+        continue;
+      }
+      const ridge = x % PERIOD === 0 ? 1 : 0;
+      correct += binary[i] === ridge ? 1 : 0;
+      total++;
+    }
+  }
+  return correct / total;
+}
+
+describe('binarizeRidges', () => {
+  const image = unevenlyLitRidges();
+
+  it.each<BinarizationMethod>(['sauvola', 'block-mean'])('recovers the ridges under a lighting gradient (%s)', method => {
+    expect(centreAccuracy(binarizeRidges(image, method))).toBeGreaterThan(0.95);
+  });
+
+  it('loses the ridges under a lighting gradient with a global threshold', () => {
+    expect(centreAccuracy(binarizeRidges(image, 'global'))).toBeLessThan(0.75);
+  });
+
+  it.each<BinarizationMethod>(['sauvola', 'block-mean', 'global'])('leaves pixels outside the mask at 0 (%s)', method => {
+    const mask = new Uint8Array(WIDTH * HEIGHT);
+    for (let y = 16; y < 48; y++) {
+      mask.fill(1, y * WIDTH + 24, y * WIDTH + 136);
+    }
+
+    const binary = binarizeRidges(image, method, {}, mask);
+
+    expect(binary.every((value, i) => mask[i] || value === 0)).toBe(true);
+    expect(binary.some(value => value === 1)).toBe(true);
+  });
+
+  it('still recovers the ridges inside a mask', () => {
+    const mask = new Uint8Array(WIDTH * HEIGHT);
+    for (let y = 16; y < 48; y++) {
+      mask.fill(1, y * WIDTH + 24, y * WIDTH + 136);
+    }
+
+    expect(centreAccuracy(binarizeRidges(image, 'sauvola', {}, mask), mask)).toBeGreaterThan(0.95);
+  });
+});
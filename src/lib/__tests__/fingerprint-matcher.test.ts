@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { matchMinutiae, MatchMinutia } from "../fingerprint-matcher";
+import { random, randomMinutiae } from "./fixtures";
+
+const MATCH_THRESHOLD = 0.1; // BiometricEncryptionService default
+
+/** Rotate (degrees, counter-clockwise with y up) about the image origin, then shift */
+function transform(minutiae: MatchMinutia[], rotation: number, dx: number, dy: number): MatchMinutia[] {
+  const radians = (rotation * Math.PI) / 180;
+  return minutiae.map(m => ({
+    ...m,
+    x: m.x * Math.cos(radians) + m.y * Math.sin(radians) + dx,
+    y: -m.x * Math.sin(radians) + m.y * Math.cos(radians) + dy,
+    angle: (((m.angle + rotation) % 360) + 360) % 360
+  }));
+}
+
+/**
+ * A plausible second capture: rotated up to 30° and shifted up to 40 px either way, positions
+ * jittered by 3 px and directions by 8°, a quarter of the minutiae lost and a quarter spurious
+ */
+function recapture(next: () => number, minutiae: MatchMinutia[]): MatchMinutia[] {
+  const kept = minutiae
+    .filter(() => next() > 0.25)
+    .map(m => ({ ...m, x: m.x + (next() - 0.5) * 6, y: m.y + (next() - 0.5) * 6, angle: (m.angle + (next() - 0.5) * 16 + 360) % 360 }));
+  const moved = transform(kept, (next() - 0.5) * 60, (next() - 0.5) * 80, (next() - 0.5) * 80);
+  return [...moved, ...randomMinutiae(next, Math.round(minutiae.length / 4))];
+}
+
+describe('matchMinutiae', () => {
+  it('scores a rotated and translated copy as a full match and recovers the transform', () => {
+    const reference = randomMinutiae(random(1), 40);
+
+    const match = matchMinutiae(reference, transform(reference, 20, 35, -25));
+
+    expect(match.score).toBeGreaterThan(0.95);
+    expect(match.transform?.rotation).toBeCloseTo(20, 0);
+    expect(match.transform?.dx).toBeCloseTo(35, -1);
+    expect(match.transform?.dy).toBeCloseTo(-25, -1);
+  });
+
+  it('scores an unrelated set low', () => {
+    const match = matchMinutiae(randomMinutiae(random(2), 40), randomMinutiae(random(3), 40));
+
+    expect(match.score).toBeLessThan(0.05);
+  });
+
+  it('separates genuine and impostor pairs around the default threshold', () => {
+    const next = random(4);
+    const genuine: number[] = [];
+    const impostor: number[] = [];
+    for (let trial = 0; trial < 50; trial++) {
+      const reference = randomMinutiae(next, 40);
+      genuine.push(matchMinutiae(reference, recapture(next, reference)).score);
+      impostor.push(matchMinutiae(reference, randomMinutiae(next, 40)).score);
+    }
+
+    // Both populations keep a wide margin to the threshold, not just fall on the right side
+    expect(Math.min(...genuine)).toBeGreaterThan(3 * MATCH_THRESHOLD);
+    expect(Math.max(...impostor)).toBeLessThan(MATCH_THRESHOLD / 3);
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it, vi } from "vitest";
+import { findSkeletonMinutiae, SkeletonMinutia, thinRidges } from "../fingerprint-thinning";
+
+/** A synthetic ridge pattern drawn at a known width, with the minutiae it must produce */
+interface MinutiaeFixture {
+  name: string;
+  width: number;
+  height: number;
+  ridges: Uint8Array; // Binary ridge map, 1 = ridge
+  expected: SkeletonMinutia[];
+  tolerance: number; // Pixels a detected minutia may lie from its expected position
+}
+
+const RIDGE_WIDTH = 5;
+
+interface RidgeCanvas {
+  line(x0: number, y0: number, x1: number, y1: number): void;
+  ring(cx: number, cy: number, radius: number): void;
+}
+
+function fixture(
+  name: string,
+  width: number,
+  height: number,
+  paint: (draw: RidgeCanvas) => void,
+  expected: SkeletonMinutia[]
+): MinutiaeFixture {
+  const ridges = new Uint8Array(width * height);
+  const stamp = (cx: number, cy: number) => {
+    const radius = RIDGE_WIDTH / 2;
+    for (let y = Math.floor(cy - radius); y <= Math.ceil(cy + radius); y++) {
+      for (let x = Math.floor(cx - radius); x <= Math.ceil(cx + radius); x++) {
+        if (x >= 0 && y >= 0 && x < width && y < height && Math.hypot(x - cx, y - cy) <= radius) {
+          ridges[y * width + x] = 1;
+        }
+      }
+    }
+  };
+
+  paint({
+    line(x0, y0, x1, y1) {
+      const steps = Math.ceil(Math.hypot(x1 - x0, y1 - y0) * 2);
+      for (let step = 0; step <= steps; step++) {
+        stamp(x0 + ((x1 - x0) * step) / steps, y0 + ((y1 - y0) * step) / steps);
+      }
+    },
+    ring(cx, cy, radius) {
+      const steps = Math.ceil(2 * Math.PI * radius * 2);
+      for (let step = 0; step < steps; step++) {
+        const angle = (2 * Math.PI * step) / steps;
+        stamp(cx + radius * Math.cos(angle), cy + radius * Math.sin(angle));
+      }
+    }
+  });
+
+  return { name, width, height, ridges, expected, tolerance: RIDGE_WIDTH + 1 };
+}
+
+/**
+ * A 2×2 block of skeleton pixels means the thinning left a ridge two pixels wide
+ */
+function widestCrossSection(skeleton: Uint8Array, width: number, height: number): number {
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      if (skeleton[i] && skeleton[i + 1] && skeleton[i + width] && skeleton[i + width + 1]) {
+        return 2;
+      }
+    }
+  }
+  return 1;
+}
+
+const fixtures: MinutiaeFixture[] = [
+  fixture('straight ridge', 200, 120, draw => draw.line(40, 60, 160, 60), [
+    { x: 40, y: 60, type: 'ending' },
+    { x: 160, y: 60, type: 'ending' }
+  ]),
+  fixture('diagonal ridge', 200, 200, draw => draw.line(40, 50, 160, 150), [
+    { x: 40, y: 50, type: 'ending' },
+    { x: 160, y: 150, type: 'ending' }
+  ]),
+  fixture(
+    'bifurcation',
+    200,
+    200,
+    draw => {
+      draw.line(30, 100, 100, 100);
+      draw.line(100, 100, 170, 50);
+      draw.line(100, 100, 170, 150);
+    },
+    [
+      { x: 100, y: 100, type: 'bifurcation' },
+      { x: 30, y: 100, type: 'ending' },
+      { x: 170, y: 50, type: 'ending' },
+      { x: 170, y: 150, type: 'ending' }
+    ]
+  ),
+  fixture('closed ring', 200, 200, draw => draw.ring(100, 100, 50), []),
+  fixture(
+    'ridge ending between parallels',
+    240,
+    160,
+    draw => {
+      draw.line(30, 50, 210, 50);
+      draw.line(30, 80, 120, 80);
+      draw.line(30, 110, 210, 110);
+    },
+    [
+      { x: 30, y: 50, type: 'ending' },
+      { x: 210, y: 50, type: 'ending' },
+      { x: 30, y: 80, type: 'ending' },
+      { x: 120, y: 80, type: 'ending' },
+      { x: 30, y: 110, type: 'ending' },
+      { x: 210, y: 110, type: 'ending' }
+    ]
+  )
+];
+
+describe.each(fixtures)('thinning and minutiae detection: $name', item => {
+  const skeleton = thinRidges(item.ridges, item.width, item.height);
+  const detected = findSkeletonMinutiae(skeleton, item.width, item.height);
+  const matches = (a: SkeletonMinutia, b: SkeletonMinutia) =>
+    a.type === b.type && Math.hypot(a.x - b.x, a.y - b.y) <= item.tolerance;
+
+  it('thins the ridges to one pixel', () => {
+    expect(widestCrossSection(skeleton, item.width, item.height)).toBe(1);
+  });
+
+  it('finds every expected minutia', () => {
+    expect(item.expected.filter(expected => !detected.some(found => matches(found, expected)))).toEqual([]);
+  });
+
+  it('finds no spurious minutiae', () => {
+    expect(detected.filter(found => !item.expected.some(expected => matches(found, expected)))).toEqual([]);
+  });
+});
+
+describe('thinning cancellation', () => {
+  const [item] = fixtures;
+
+  it('checks the signal before every pass', () => {
+    const controller = new AbortController();
+    const check = vi.spyOn(controller.signal, 'throwIfAborted');
+
+    thinRidges(item.ridges, item.width, item.height, controller.signal);
+
+    // A 5 px ridge needs at least two removing passes, then one that changes nothing
+    expect(check.mock.calls.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('stops with the reason of an abort that arrives between passes', () => {
+    const controller = new AbortController();
+    let passes = 0;
+    vi.spyOn(controller.signal, 'throwIfAborted').mockImplementation(() => {
+      if (++passes === 2) {
+        throw new Error('cancelled mid-thinning');
+      }
+    });
+
+    expect(() => thinRidges(item.ridges, item.width, item.height, controller.signal)).toThrow('cancelled mid-thinning');
+    expect(passes).toBe(2);
+  });
+});
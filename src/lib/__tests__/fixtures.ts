@@ -0,0 +1,91 @@
+// Shared by the tests: a seeded PRNG, minutiae fixtures and the attacker's side of the fuzzy vault
+
+import type { MinutiaePoint } from "../biometric";
+import { encodeMinutiaeTemplate } from "../minutiae-template";
+
+export const FIELD = 65537;
+
+/** Deterministic PRNG (mulberry32), so a failure can be replayed */
+export function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomMinutiae(next: () => number, count: number): MinutiaePoint[] {
+  return Array.from({ length: count }, () => ({
+    x: 40 + next() * 240,
+    y: 40 + next() * 220,
+    angle: next() * 360,
+    type: next() < 0.5 ? 'ending' : 'bifurcation',
+    reliability: next()
+  }));
+}
+
+export function sample<T>(next: () => number, items: T[], count: number): T[] {
+  const pool = [...items];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(next() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, count);
+}
+
+function power(base: number, exponent: number): number {
+  let result = 1;
+  for (base %= FIELD; exponent > 0; exponent >>= 1) {
+    if (exponent & 1) result = (result * base) % FIELD;
+    base = (base * base) % FIELD;
+  }
+  return result;
+}
+
+/** The attacker's side: interpolate a subset of vault points over GF(65537) */
+export function interpolate(points: number[][]): number[] {
+  const coefficients = new Array<number>(points.length).fill(0);
+  points.forEach(([xi, yi], i) => {
+    let term = [1];
+    let denominator = 1;
+    points.forEach(([xj], j) => {
+      if (i === j) return;
+      term = [...term.map(c => (FIELD - ((c * xj) % FIELD)) % FIELD), 0].map((c, k) => (c + (term[k - 1] ?? 0)) % FIELD);
+      denominator = (denominator * ((xi - xj + FIELD) % FIELD)) % FIELD;
+    });
+    const scale = (yi * power(denominator, FIELD - 2)) % FIELD;
+    term.forEach((c, k) => (coefficients[k] = (coefficients[k] + c * scale) % FIELD));
+  });
+  return coefficients;
+}
+
+export function evaluate(coefficients: number[], x: number): number {
+  return coefficients.reduceRight((result, c) => (result * x + c) % FIELD, 0);
+}
+
+/** A secret in the vault's hex format (4 digits per coefficient) */
+export function polynomialToSecret(coefficients: number[]): string {
+  return coefficients.map(c => c.toString(16).padStart(4, '0')).join('');
+}
+
+/** An ISO 19794-2 template of 30 minutiae at 500 ppi; other seeds give unrelated fingers */
+export function minutiaeTemplate(seed: number): Uint8Array {
+  return encodeMinutiaeTemplate({
+    format: 'iso-19794-2',
+    width: 400,
+    height: 400,
+    resolution: 500,
+    views: [
+      {
+        fingerPosition: 1,
+        viewNumber: 0,
+        impressionType: 0,
+        quality: 80,
+        minutiae: randomMinutiae(random(seed), 30).map(m => ({ ...m, reliability: 0.8 })),
+        cores: [],
+        deltas: []
+      }
+    ]
+  });
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from "vitest";
+import { FuzzyVaultGenerator, MinutiaePoint } from "../biometric";
+import { describePair, pairFrame, ReferencePair, toPolar } from "../minutia-alignment";
+import { evaluate, interpolate, random, randomMinutiae, sample } from "./fixtures";
+
+type Cell = [number, number, number, MinutiaePoint['type']];
+
+const THETA_BINS = 36; // Default 10° bearing buckets
+const ANGLE_BINS = 12; // Default 30° angle bins
+
+/** The field element the vault hashes a cell to (FNV-1a, as FuzzyVaultGenerator.encodeCell) */
+function fieldElement([radius, theta, angle, type]: Cell): number {
+  let hash = 0x811c9dc5;
+  for (const value of [radius, theta, angle, type === 'bifurcation' ? 1 : 0]) {
+    hash = Math.imul(hash ^ value, 0x01000193) >>> 0;
+  }
+  return 1 + (hash % 65536);
+}
+
+/**
+ * What anyone can build without a fingerprint: every polar cell up to `maxRadiusCell`, keyed by
+ * its field element
+ */
+function cellsByFieldElement(maxRadiusCell: number): Map<number, Cell[]> {
+  const cells = new Map<number, Cell[]>();
+  for (let radius = 0; radius <= maxRadiusCell; radius++) {
+    for (let theta = 0; theta < THETA_BINS; theta++) {
+      for (let angle = 0; angle < ANGLE_BINS; angle++) {
+        for (const type of ['ending', 'bifurcation'] as const) {
+          const x = fieldElement([radius, theta, angle, type]);
+          cells.set(x, [...(cells.get(x) ?? []), [radius, theta, angle, type]]);
+        }
+      }
+    }
+  }
+  return cells;
+}
+
+function samePair(a: ReferencePair, b: ReferencePair): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function cellDistance(a: Cell, b: Cell): number {
+  if (a[3] !== b[3]) {
+    return Infinity;
+  }
+  const wrapped = (delta: number, bins: number) => Math.min(Math.abs(delta), bins - Math.abs(delta));
+  return Math.max(Math.abs(a[0] - b[0]), wrapped(a[1] - b[1], THETA_BINS), wrapped(a[2] - b[2], ANGLE_BINS));
+}
+
+/**
+ * Re-capture with ±3 px and ±8° jitter: a `missing` share of minutiae lost, a `spurious` share
+ * added at random, and optionally the whole print rotated by up to ±30° and shifted by up to ±40 px
+ */
+function recapture(next: () => number, minutiae: MinutiaePoint[], missing: number, spurious: number, moved: boolean): MinutiaePoint[] {
+  const rotation = moved ? (next() - 0.5) * 60 : 0;
+  const [dx, dy] = moved ? [(next() - 0.5) * 80, (next() - 0.5) * 80] : [0, 0];
+  const radians = (rotation * Math.PI) / 180;
+  const kept = minutiae
+    .filter(() => next() >= missing)
+    .map(m => {
+      const x = m.x + (next() - 0.5) * 6 - 160;
+      const y = 150 - (m.y + (next() - 0.5) * 6); // y up, around the middle of the fixture area
+      return {
+        ...m,
+        x: 160 + x * Math.cos(radians) - y * Math.sin(radians) + dx,
+        y: 150 - (x * Math.sin(radians) + y * Math.cos(radians)) + dy,
+        angle: (m.angle + rotation + (next() - 0.5) * 16 + 360) % 360
+      };
+    });
+  return [...kept, ...randomMinutiae(next, Math.round(minutiae.length * spurious))];
+}
+
+describe('FuzzyVaultGenerator', () => {
+  const generator = new FuzzyVaultGenerator();
+
+  it('embeds at most 24 genuine points among several hundred chaff points', () => {
+    const vault = generator.generateVault(randomMinutiae(random(1), 60));
+    const onPolynomial = vault.vault.filter(([x, y]) => evaluate(vault.polynomial, x) === y);
+
+    expect(vault.coefficients).toBe(FuzzyVaultGenerator.SECRET_COEFFICIENTS);
+    expect(vault.polynomial).toHaveLength(10);
+    expect(onPolynomial.length).toBeLessThanOrEqual(24);
+    expect(vault.vault.length - onPolynomial.length).toBeGreaterThanOrEqual(300);
+    expect(interpolate(onPolynomial.slice(0, 10))).toEqual(vault.polynomial);
+  });
+
+  it('spaces genuine points as far apart as chaff, so close pairs do not reveal them', () => {
+    const next = random(7);
+    const minutiae = randomMinutiae(next, 30);
+    // Minutiae a few pixels from a more reliable one fall into the same or a neighbouring cell
+    const twins = minutiae.slice(0, 15).map(m => ({ ...m, x: m.x + 4, angle: m.angle + 6, reliability: (m.reliability ?? 1) * 0.99 }));
+    const vault = generator.generateVault([...minutiae, ...twins]);
+    const cells = cellsByFieldElement(30);
+    // Field elements with a single preimage give their cell away
+    const located = vault.vault.flatMap(([x]) => (cells.get(x)?.length === 1 ? cells.get(x)! : []));
+    const closePairs = located.flatMap((a, i) => located.slice(i + 1).filter(b => cellDistance(a, b) < 2));
+
+    expect(located.length).toBeGreaterThan(vault.vault.length / 2);
+    expect(closePairs).toEqual([]);
+  });
+
+  it('unlocks with a shifted re-capture of the enrolled minutiae', () => {
+    const next = random(2);
+    const minutiae = randomMinutiae(next, 40);
+    const vault = generator.generateVault(minutiae);
+    const recapture = minutiae.map(m => ({
+      ...m,
+      x: m.x + 5 + (next() - 0.5) * 3,
+      y: m.y - 3 + (next() - 0.5) * 3,
+      angle: m.angle + (next() - 0.5) * 6
+    }));
+
+    expect(generator.unlockVault({ ...vault, secret: '', polynomial: [] }, recapture)).toBe(vault.secret);
+  });
+
+  it.each([
+    ['a quarter of the minutiae missing', 0.25, 0, false],
+    ['a quarter more minutiae, all spurious', 0, 0.25, false],
+    ['missing and spurious minutiae in a rotated, shifted print', 0.25, 0.25, true]
+  ])('unlocks a print without a core from %s', (_, missing, spurious, moved) => {
+    const next = random(11);
+    let unlocked = 0;
+
+    for (let enrolment = 0; enrolment < 10; enrolment++) {
+      const minutiae = randomMinutiae(next, 40);
+      const vault = generator.generateVault(minutiae);
+      const query = recapture(next, minutiae, missing, spurious, moved);
+      if (generator.unlockVault({ ...vault, secret: '', polynomial: [] }, query) === vault.secret) {
+        unlocked++;
+      }
+    }
+
+    expect(unlocked).toBeGreaterThanOrEqual(9);
+  });
+
+  it('keeps the minutiae of its public reference pairs off the polynomial', () => {
+    const minutiae = randomMinutiae(random(12), 40);
+    const vault = generator.generateVault(minutiae);
+    const pairs = vault.referencePairs ?? [];
+    const ordered = minutiae.flatMap(a => minutiae.filter(b => b !== a).map(b => [a, b] as const));
+    // Without a core the vault frame is the frame of the first pair
+    const [first] = ordered.filter(([a, b]) => samePair(describePair(a, b, pairFrame(a, b)), pairs[0]));
+    const frame = pairFrame(...first);
+    const paired = new Set(ordered.filter(([a, b]) => pairs.some(pair => samePair(describePair(a, b, frame), pair))).flat());
+    const pairedX = new Set(
+      [...paired].map(m => {
+        const polar = toPolar(m, frame);
+        return fieldElement([Math.floor(polar.radius / 12), Math.floor(polar.theta / 10) % THETA_BINS, Math.floor(polar.angle / 30) % ANGLE_BINS, m.type]);
+      })
+    );
+
+    expect(pairs).toHaveLength(8);
+    expect(paired.size).toBe(8);
+    expect(vault.vault.filter(([x, y]) => pairedX.has(x) && evaluate(vault.polynomial, x) === y)).toEqual([]);
+  });
+
+  it('does not open to interpolation of random subsets of the vault', () => {
+    const next = random(3);
+    const vault = generator.generateVault(randomMinutiae(next, 40));
+    let bestAgreement = 0;
+
+    for (let attempt = 0; attempt < 2000; attempt++) {
+      const subset = sample(next, vault.vault, 10);
+      const polynomial = interpolate(subset);
+      const agreement = vault.vault.filter(([x, y]) => evaluate(polynomial, x) === y).length;
+      bestAgreement = Math.max(bestAgreement, agreement);
+      expect(polynomial).not.toEqual(vault.polynomial);
+    }
+    // Unlocking needs 12 points on one polynomial; a random subset only ever hits its own 10
+    expect(bestAgreement).toBeLessThan(12);
+  });
+
+  it('does not unlock for unrelated minutiae', () => {
+    const vault = generator.generateVault(randomMinutiae(random(4), 40));
+    const impostor = randomMinutiae(random(5), 40);
+
+    expect(generator.unlockVault({ ...vault, secret: '', polynomial: [] }, impostor)).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { decodeFingerprintImage, decodeImage, ImageDecodeError, maxImageDimension } from "../image-decoders";
+
+function ascii(text: string): number[] {
+  return [...text].map((char) => char.charCodeAt(0));
+}
+
+function pgm(width: number, height: number, pixels = 0): Uint8Array {
+  return new Uint8Array([...ascii(`P5\n${width} ${height}\n255\n`), ...new Array(pixels).fill(128)]);
+}
+
+/** BITMAPINFOHEADER of an 8-bit bitmap, without palette or pixels */
+function bmp(width: number, height: number): Uint8Array {
+  const bytes = new Uint8Array(54);
+  const view = new DataView(bytes.buffer);
+  bytes.set(ascii('BM'));
+  view.setUint32(10, 54, true);
+  view.setUint32(14, 40, true);
+  view.setInt32(18, width, true);
+  view.setInt32(22, height, true);
+  view.setUint16(26, 1, true);
+  view.setUint16(28, 8, true);
+  return bytes;
+}
+
+/** Start of image, a frame header and end of image: no quantization table or blocks */
+function wsq(width: number, height: number): Uint8Array {
+  return new Uint8Array([
+    0xff, 0xa0,
+    0xff, 0xa2, 0, 17, 0, 255, height >> 8, height & 0xff, width >> 8, width & 0xff, 0, 0, 128, 0, 0, 1, 0, 0, 0,
+    0xff, 0xa1
+  ]);
+}
+
+describe('image size limit', () => {
+  it('is 2000 px at 500 ppi, scaled with the resolution', () => {
+    expect(maxImageDimension(500)).toBe(2000);
+    expect(maxImageDimension(1000)).toBe(4000);
+  });
+
+  it.each([
+    ['PGM', pgm(60000, 60000)],
+    ['BMP', bmp(60000, 60000)],
+    ['WSQ', wsq(60000, 400)]
+  ])('rejects a %s header claiming 60000 px before reading pixels', (format, bytes) => {
+    expect(() => decodeFingerprintImage(bytes)).toThrow(ImageDecodeError);
+    expect(() => decodeFingerprintImage(bytes)).toThrow(new RegExp(`^${format}: .*exceeds the 2000 px limit`));
+  });
+
+  it('lets a WSQ frame within the limit through to the rest of the decoder', () => {
+    expect(() => decodeFingerprintImage(wsq(400, 400))).toThrow('WSQ: No image data before the end-of-image marker');
+  });
+
+  it('accepts a larger image at a higher resolution', () => {
+    const bytes = pgm(2500, 10, 25000);
+
+    expect(() => decodeFingerprintImage(bytes)).toThrow('exceeds the 2000 px limit');
+    expect(decodeFingerprintImage(bytes, 1000)).toMatchObject({ width: 2500, height: 10 });
+  });
+
+  it('applies to images from the raster decoder', async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+    const rasterDecoder = async () => ({ width: 3000, height: 10, data: new Uint8ClampedArray(3000 * 10 * 4) });
+
+    await expect(decodeImage(png, rasterDecoder)).rejects.toThrow('PNG: 3000x10 pixels exceeds the 2000 px limit');
+    await expect(decodeImage(png, rasterDecoder, 1000)).resolves.toMatchObject({ width: 3000, height: 10 });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { FingerprintProcessor } from "../biometric";
+import { readImageResolution, resolveResolution } from "../image-resolution";
+
+/** A JPEG holding only the given marker segments: SOI, each segment, EOI */
+function jpeg(...segments: number[][]): Uint8Array {
+  return new Uint8Array([0xff, 0xd8, ...segments.flat(), 0xff, 0xd9]);
+}
+
+function ascii(text: string): number[] {
+  return [...text].map((char) => char.charCodeAt(0));
+}
+
+/** APP0 JFIF segment at `ppi` dots per inch */
+const jfif = (ppi: number) => [0xff, 0xe0, 0, 16, ...ascii('JFIF\0'), 1, 2, 1, ppi >> 8, ppi & 0xff, ppi >> 8, ppi & 0xff, 0, 0];
+
+describe('readImageResolution', () => {
+  it('reads the JFIF density of a JPEG', () => {
+    expect(readImageResolution(jpeg(jfif(500)))).toEqual({ ppi: 500, source: 'jfif' });
+  });
+
+  it.each([
+    ['declares a length shorter than its Exif header', [0xff, 0xe1, 0, 6, ...ascii('Exif')], [0, 0]],
+    ['ends right after its Exif header', [0xff, 0xe1, 0, 8, ...ascii('Exif\0\0')], []],
+    ['is too short for a TIFF header', [0xff, 0xe1, 0, 12, ...ascii('Exif\0\0II*\0')], []]
+  ])('returns null for an APP1 segment that %s', (_, segment, trailing) => {
+    const bytes = jpeg([...segment, ...trailing]);
+
+    expect(readImageResolution(bytes)).toBeNull();
+  });
+
+  it('skips a truncated Exif segment and still reads a later JFIF density', () => {
+    const bytes = jpeg([0xff, 0xe1, 0, 8, ...ascii('Exif\0\0')], jfif(1000));
+
+    expect(readImageResolution(bytes)).toEqual({ ppi: 1000, source: 'jfif' });
+  });
+
+  it('stops at a segment length below 2', () => {
+    expect(readImageResolution(jpeg([0xff, 0xe1, 0, 0], jfif(500)))).toBeNull();
+  });
+});
+
+describe('resolution override', () => {
+  it('takes precedence over metadata', () => {
+    expect(resolveResolution(jpeg(jfif(500)), 1000)).toEqual({ ppi: 1000, source: 'override' });
+  });
+
+  it.each([0, -500, 72, 1e6, NaN, Infinity, -Infinity])('rejects %s ppi', (ppi) => {
+    expect(() => resolveResolution(jpeg(jfif(500)), ppi)).toThrow(RangeError);
+    expect(() => new FingerprintProcessor({ resolution: ppi })).toThrow(RangeError);
+  });
+});
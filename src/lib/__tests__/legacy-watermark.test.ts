@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { BiometricEncryptionService } from "../biometric";
+import { GrayscaleImage } from "../fingerprint-enhancement";
+import { minutiaeTemplate } from "./fixtures";
+
+/**
+ * Parallel ridges that fork or break wherever the phase winds around one of 24 points, over a
+ * 320 px square: the current pipeline finds a minutia at each of them
+ */
+function dislocatedRidges(): GrayscaleImage {
+  const size = 320;
+  const data = new Uint8ClampedArray(size * size);
+  const windings = Array.from({ length: 24 }, (_, i) => [40 + ((i * 97) % 240), 40 + ((i * 61) % 240), i % 2 ? 1 : -1]);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const phase = windings.reduce((sum, [cx, cy, sense]) => sum + sense * Math.atan2(y - cy, x - cx), (2 * Math.PI * (x + 0.3 * y)) / 9);
+      data[y * size + x] = 128 + 100 * Math.cos(phase);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+/**
+ * Recorded `f` of dislocatedRidges() enrolled with the first release: the 32-bit hash of the 80
+ * minutiae its extractor (contrast stretch, 3x3 median, threshold at 128, single-pass thinning)
+ * found in the image drawn to a canvas, most of them skeleton spurs along the ridges
+ */
+const BASELINE_TEMPLATE_HASH = '6ccf1012';
+
+/** The 32-bit string hash the first watermarks used for both digests */
+function baselineHash(str: string): string {
+  let hash = 0;
+  for (let i = 0; i < str.length; i++) {
+    hash = ((hash << 5) - hash) + str.charCodeAt(i);
+    hash = hash & hash;
+  }
+  return Math.abs(hash).toString(16);
+}
+
+/** A document watermarked the way the first release did: {f, s, t, c} JSON, 8 zero-width bits per character */
+function baselineWatermark(text: string): string {
+  const json = JSON.stringify({
+    f: BASELINE_TEMPLATE_HASH,
+    s: 'a3f7c9d2e41b0c55',
+    t: 1700000000000,
+    c: baselineHash(text.trim().replace(/\s+/g, ' '))
+  });
+  const payload = Array.from(json, char =>
+    Array.from(char.charCodeAt(0).toString(2).padStart(8, '0'), bit => (bit === '1' ? '\u200C' : '\u200B')).join('')
+  ).join('\u200D');
+  const split = text.indexOf(' ');
+  return text.slice(0, split) + payload + text.slice(split);
+}
+
+describe('verifying watermarks from the first release', () => {
+  const service = new BiometricEncryptionService();
+  const text = 'The first release embedded its watermark as plain JSON.\nIt had no vault yet.';
+
+  it('checks the content hash, but no image capture reproduces the enrolled template hash', async () => {
+    const report = await service.verifyDocument(dislocatedRidges(), baselineWatermark(text));
+
+    // The current pipeline finds different minutiae in the same image from those the first release found
+    expect(report).toMatchObject({
+      verified: false,
+      payloadVersion: 1,
+      hashAlgorithm: 'legacy-32',
+      contentIntegrity: 'passed',
+      templateHash: 'failed',
+      vaultUnlock: 'skipped',
+      failureCode: 'FINGERPRINT_MISMATCH'
+    });
+  });
+
+  it('rejects another finger', async () => {
+    const report = await service.verifyDocument(minutiaeTemplate(2), baselineWatermark(text));
+
+    expect(report.templateHash).toBe('failed');
+    expect(report.failureCode).toBe('FINGERPRINT_MISMATCH');
+  });
+
+  it('rejects edited content', async () => {
+    const report = await service.verifyDocument(dislocatedRidges(), baselineWatermark(text).replace('plain JSON', 'plain XML'));
+
+    expect(report.contentIntegrity).toBe('failed');
+    expect(report.failureCode).toBe('CONTENT_TAMPERED');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { WatermarkData, WatermarkPayloadCodec } from "../biometric";
+import { ReferencePair } from "../minutia-alignment";
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** The payload with its body cut to `bodySize` bytes, header length and CRC rewritten to match */
+function truncateBody(payload: Uint8Array, bodySize: number): Uint8Array {
+  const bytes = new Uint8Array(9 + bodySize + 4);
+  bytes.set(payload.subarray(0, 9 + bodySize));
+  const view = new DataView(bytes.buffer);
+  view.setUint32(5, bodySize);
+  view.setUint32(9 + bodySize, crc32(bytes.subarray(0, 9 + bodySize)));
+  return bytes;
+}
+
+const watermarkData: WatermarkData = {
+  fingerprintHash: 'ab'.repeat(32),
+  vault: { vault: [[1, 2], [3, 4], [65536, 65535]], secret: '', polynomial: [], encoding: 'aligned' },
+  secretCheck: { salt: '00112233445566778899aabbccddeeff', digest: 'cd'.repeat(32) },
+  timestamp: 1700000000000,
+  contentHash: 'ef'.repeat(32),
+  hashAlgorithm: 'SHA-256',
+  payloadVersion: 5
+};
+
+const referencePairs: ReferencePair[] = [
+  { length: 152, angleA: 0, angleB: 359, typeA: 'ending', typeB: 'bifurcation', frame: { radius: 0, theta: 0, angle: 0 } },
+  { length: 231, angleA: 97, angleB: 204, typeA: 'bifurcation', typeB: 'ending', frame: { radius: 86, theta: 311, angle: 142 } }
+];
+
+describe('WatermarkPayloadCodec', () => {
+  const codec = new WatermarkPayloadCodec();
+
+  it('round-trips a payload', () => {
+    const extraction = codec.decode(codec.encode(watermarkData));
+
+    expect(extraction.status).toBe('found');
+    if (extraction.status === 'found') {
+      expect(extraction.data.vault.vault).toEqual(watermarkData.vault.vault);
+      expect(extraction.data.vault.coefficients).toBe(10);
+      expect(extraction.data.contentHash).toBe(watermarkData.contentHash);
+    }
+  });
+
+  it('round-trips reference pairs after a paragraph tree', () => {
+    const paragraphTree = { root: '12'.repeat(32), leaves: ['34567890', 'abcdef01'] };
+    const data: WatermarkData = { ...watermarkData, paragraphTree, vault: { ...watermarkData.vault, referencePairs } };
+
+    const extraction = codec.decode(codec.encode(data));
+
+    expect(extraction.status).toBe('found');
+    if (extraction.status === 'found') {
+      expect(extraction.data.payloadVersion).toBe(6);
+      expect(extraction.data.paragraphTree).toEqual(paragraphTree);
+      expect(extraction.data.vault.referencePairs).toEqual(referencePairs);
+    }
+  });
+
+  it.each([
+    ['digests', watermarkData],
+    ['reference pairs', { ...watermarkData, vault: { ...watermarkData.vault, referencePairs } }],
+    ['sealed fields', { ...watermarkData, sealedFields: { iv: new Uint8Array(12), ciphertext: new Uint8Array(40) } }]
+  ])('reports a body cut short anywhere as corrupt (%s)', (_, data) => {
+    const payload = codec.encode(data);
+    const bodySize = payload.length - 9 - 4;
+
+    for (let size = 0; size < bodySize; size++) {
+      const extraction = codec.decode(truncateBody(payload, size));
+      expect(extraction.status, `body of ${size} bytes`).toBe('corrupt');
+    }
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { BiometricEncryptionService, DocumentWatermarker, FingerprintProcessor, FuzzyVaultGenerator } from "../biometric";
+import { deriveSealingKey, open, SealingError } from "../payload-sealing";
+import { interpolate, minutiaeTemplate, polynomialToSecret, random, sample } from "./fixtures";
+
+const text = 'Quarterly figures, for the board only.\nDo not forward.';
+
+describe('sealed documents', () => {
+  const service = new BiometricEncryptionService();
+
+  async function sealDocument() {
+    const result = await service.encryptDocument(
+      minutiaeTemplate(1),
+      { name: 'board.txt', type: 'text/plain', data: new TextEncoder().encode(text) },
+      { mode: 'sealed-document' }
+    );
+    return new TextDecoder().decode(result.downloadBytes);
+  }
+
+  it('open with the enrolled finger', async () => {
+    const report = await service.verifyDocument(minutiaeTemplate(1), await sealDocument());
+
+    expect(report.verified).toBe(true);
+    expect(report.decryptedDocument).toBe(text);
+  });
+
+  it('stay closed to another finger', async () => {
+    const report = await service.verifyDocument(minutiaeTemplate(2), await sealDocument());
+
+    expect(report.failureCode).toBe('FINGERPRINT_MISMATCH');
+    expect(report.decryptedDocument).toBeNull();
+  });
+
+  it('stay closed to secrets interpolated from random vault subsets', async () => {
+    const extraction = new DocumentWatermarker().extractWatermark(await sealDocument());
+    expect(extraction.status).toBe('found');
+    if (extraction.status !== 'found' || !extraction.data.sealedFields) {
+      return;
+    }
+    const { vault, secretCheck, sealedFields } = extraction.data;
+    const next = random(6);
+
+    for (let attempt = 0; attempt < 300; attempt++) {
+      const secret = polynomialToSecret(interpolate(sample(next, vault.vault, 10)));
+      const key = await deriveSealingKey(secret, secretCheck.salt, 'payload');
+      await expect(open(key, sealedFields)).rejects.toBeInstanceOf(SealingError);
+    }
+  });
+
+  it.each(['watermark', 'sealed-payload', 'sealed-document'] as const)('return no vault secret from %s encryption', async (mode) => {
+    const result = await service.encryptDocument(
+      minutiaeTemplate(1),
+      { name: 'board.txt', type: 'text/plain', data: new TextEncoder().encode(text) },
+      { mode }
+    );
+    const minutiae = await new FingerprintProcessor().processFingerprint(minutiaeTemplate(1));
+    const { secret } = new FuzzyVaultGenerator().unlockVaultWithScore(result.watermarkData.vault, minutiae, []);
+
+    expect(secret).not.toBeNull();
+    expect(result.watermarkData.vault).toMatchObject({ secret: '', polynomial: [] });
+    expect(JSON.stringify(result.watermarkData)).not.toContain(secret!);
+  });
+});
@@ -1,140 +1,612 @@
 import {
   createDocxFromText,
   DOCX_MIME,
+  documentBytes,
   DocumentFormat,
+  DocumentInput,
   embedPayloadInDocx,
   isDocLikeFile,
   readDocxXmlText,
   readDocumentAsPlainText,
 } from "./docx-handler";
+import { MAX_CODEWORD_LENGTH, ReedSolomonDecodeResult, ReedSolomonError, rsDecode, rsEncode } from "./reed-solomon";
+import {
+  armorSealedDocument,
+  deriveSealingKey,
+  EncryptionMode,
+  open,
+  seal,
+  SEAL_IV_SIZE,
+  SealedBox,
+  SealingError,
+  unarmorSealedDocument,
+} from "./payload-sealing";
+import {
+  DocumentSignature,
+  SIGNATURE_SECTION_SIZE,
+  SIGNATURE_SIZE,
+  SigningIdentity,
+  SIGNING_KEY_ID_SIZE,
+  SIGNING_PUBLIC_KEY_SIZE,
+  signDocument,
+  SignedFields,
+  verifyDocumentSignature,
+} from "./document-signing";
+import {
+  buildParagraphTree,
+  compareParagraphs,
+  MERKLE_ROOT_SIZE,
+  PARAGRAPH_LEAF_SIZE,
+  ParagraphIntegrity,
+  ParagraphTree,
+  splitParagraphs,
+} from "./paragraph-integrity";
+import {
+  enhanceRidges,
+  estimateOrientationField,
+  GrayscaleImage,
+  medianRidgePeriod,
+  OrientationField,
+  renderOrientationField,
+  renderRidgeFrequency,
+  RidgeEnhancementOptions,
+  RidgeFrequencyMap,
+} from "./fingerprint-enhancement";
+import { BinarizationMethod, BinarizationOptions, binarizeRidges } from "./fingerprint-binarization";
+import { ForegroundMask, segmentFingerprint, SegmentationOptions } from "./fingerprint-segmentation";
+import { findSkeletonMinutiae, thinRidges } from "./fingerprint-thinning";
+import { PostProcessingOptions, removeSpuriousMinutiae, SpuriousStructure } from "./fingerprint-postprocessing";
+import {
+  classifyPattern,
+  detectSingularPoints,
+  PatternClass,
+  SingularPoint,
+  SingularPoints,
+} from "./fingerprint-singularities";
+import {
+  candidateFrames,
+  centroidFrame,
+  coreFrame,
+  describePair,
+  MinutiaFrame,
+  pairFrame,
+  PairTolerance,
+  ReferencePair,
+  referencePairFrames,
+  selectReferencePairs,
+  toPolar
+} from "./minutia-alignment";
+import { MatcherOptions, matchMinutiae, MatchTransform } from "./fingerprint-matcher";
+import { decodeImage, RasterDecoder, rgbaToGrayscale } from "./image-decoders";
+import {
+  ENCRYPTION_STAGES,
+  FINGERPRINT_STAGES,
+  ProgressListener,
+  ProgressTracker,
+  VERIFICATION_STAGES
+} from "./pipeline-progress";
+import { CANONICAL_PPI, checkResolutionOverride, ImageResolution, resampleImage, resolveResolution, RgbaImage } from "./image-resolution";
+import {
+  decodeMinutiaeTemplate,
+  encodeMinutiaeTemplate,
+  isMinutiaeTemplate,
+  MinutiaeTemplate,
+  MinutiaeTemplateError,
+  TemplateFormat,
+} from "./minutiae-template";
 
 // Biometric processing utilities for fingerprint analysis and Fuzzy Vault implementation
 
 export interface MinutiaePoint {
   x: number;
   y: number;
-  angle: number;
+  angle: number; // Ridge direction in degrees [0, 360), counter-clockwise with y up on screen
   type: 'ending' | 'bifurcation';
+  reliability?: number; // 0-1 from minutiae post-processing; absent on points not extracted from an image
 }
 
+/**
+ * How minutiae map to vault x-values. 'absolute' hashes image-coordinate cells (vaults written
+ * before alignment); 'aligned' hashes polar cells relative to a core or reference-pair frame
+ * (the minutiae centroid for vaults written before payload version 6).
+ */
+export type VaultEncoding = 'absolute' | 'aligned';
+
 export interface FuzzyVault {
   vault: number[][];
   secret: string;
   polynomial: number[];
+  encoding?: VaultEncoding; // Absent means 'absolute'
+  coefficients?: number; // Polynomial coefficients; absent means the 4 of vaults written before payload version 5
+  referencePairs?: ReferencePair[]; // Aligned encoding: where the frame lies relative to minutia pairs kept out of the vault
+}
+
+/**
+ * Digest used for the content and fingerprint template hashes.
+ * 'legacy-32' is the 32-bit string hash used before SHA-256; it is only read, never written.
+ */
+export type HashAlgorithm = 'SHA-256' | 'legacy-32';
+
+export const DEFAULT_HASH_ALGORITHM: HashAlgorithm = 'SHA-256';
+export const LEGACY_HASH_ALGORITHM: HashAlgorithm = 'legacy-32';
+
+/**
+ * Version written into new watermark payloads.
+ * 1 = unversioned JSON, 2 = versioned JSON, 3 = binary container (WatermarkPayloadCodec),
+ * 4 = binary container with flag-guarded optional sections (paragraph tree),
+ * 5 = vault polynomial with 10 coefficients instead of 4,
+ * 6 = minutia-pair reference frames for prints without a core
+ */
+export const WATERMARK_PAYLOAD_VERSION = 6;
+
+/**
+ * One-way check value of the vault secret: SHA-256(salt || secret), both hex encoded
+ */
+export interface SecretCheck {
+  salt: string;
+  digest: string;
 }
 
 export interface WatermarkData {
   fingerprintHash: string;
-  vault: FuzzyVault;
+  vault: FuzzyVault; // Only the vault points are embedded; the secret never leaves the device
+  secretCheck: SecretCheck;
   timestamp: number;
   contentHash: string; // Hash of the original visible content
+  hashAlgorithm: HashAlgorithm; // Digest behind fingerprintHash and contentHash
+  payloadVersion: number;
+  paragraphTree?: ParagraphTree; // Per-paragraph Merkle commitment, absent before payload version 4
+  sealedFields?: SealedBox; // Sealed contentHash, fingerprintHash and paragraphTree (empty until opened)
+  documentSealed?: boolean; // The document body is an AES-GCM sealed block
+  signature?: DocumentSignature; // ECDSA P-256 over content digest, timestamp and fingerprint commitment
+  minutiaeTemplate?: MinutiaePoint[]; // Most reliable enrolled minutiae for the matcher; only ever embedded sealed
 }
 
 export interface CompactWatermarkData {
   fh: string; // fingerprintHash (shortened)
-  s: string;  // secret (shortened)
+  sk: string; // secret check salt (shortened)
+  sh: string; // secret check digest (shortened)
   v: number[][]; // vault points (shortened)
   t: number;  // timestamp (shortened)
   c?: string; // contentHash (shortened, optional for backward compatibility)
+  a?: HashAlgorithm; // hash algorithm (shortened, optional for backward compatibility)
 }
 
 export interface UltraCompactWatermarkData {
   f: string; // fingerprintHash (ultra short)
-  s: string; // secret (ultra short)
+  s?: string; // secret in the clear (ultra short); only on the first watermarks, which carry no vault, and never read
+  k?: string; // secret check salt (ultra short, absent on the first watermarks)
+  h?: string; // secret check digest (ultra short, absent on the first watermarks)
+  v?: number[][]; // vault points (ultra short, absent on the first watermarks)
   t: number; // timestamp (ultra short)
   c: string; // contentHash (ultra short)
+  a?: HashAlgorithm; // hash algorithm (ultra short, absent on legacy watermarks)
+  p?: number; // payload version (ultra short, absent on version 1 watermarks)
+}
+
+export type WatermarkExtraction =
+  | { status: 'found'; data: WatermarkData; correctedSymbols: number; copiesFound: number }
+  | { status: 'absent' }
+  | { status: 'corrupt'; reason: string };
+
+export interface ErrorCorrectionInfo {
+  codewords: number;
+  paritySymbols: number; // Per codeword
+  correctableSymbols: number; // Per codeword when positions are unknown (erasures: twice as many)
 }
 
 export interface WatermarkEmbeddingResult {
   watermarkedText: string;
-  invisiblePayload: string;
+  invisiblePayload: string; // Every copy, in document order
+  invisibleCopies: string[]; // One entry per embedded copy, each starting with the copy marker
+  errorCorrection: ErrorCorrectionInfo;
+}
+
+export interface DocumentWatermarkerOptions {
+  redundancy?: number; // Fraction of every Reed–Solomon codeword spent on parity (0 disables)
+  copies?: number; // Independent payload copies spread over consecutive stretches of the text (default 1)
+}
+
+export interface BiometricEncryptionServiceOptions {
+  fingerprint?: FingerprintProcessorOptions;
+  vault?: FuzzyVaultOptions; // Quantization buckets; verification must use the ones used at encryption
+  matcher?: MatcherOptions;
+  matchThreshold?: number; // Matcher score a sealed minutiae template must reach (0-1, default 0.1)
+  watermark?: DocumentWatermarkerOptions;
+}
+
+export type VerificationFailureCode =
+  | 'NO_WATERMARK'
+  | 'PAYLOAD_CORRUPT'
+  | 'CONTENT_TAMPERED'
+  | 'FINGERPRINT_MISMATCH'
+  | 'LOW_QUALITY_SAMPLE'
+  | 'SIGNATURE_INVALID';
+
+export type VerificationCheckStatus = 'passed' | 'failed' | 'skipped';
+
+export interface VerificationReport {
+  verified: boolean;
+  watermarkFound: boolean;
+  payloadVersion: number | null;
+  correctedSymbols: number | null; // Payload bytes repaired by Reed–Solomon decoding
+  copiesFound: number | null; // Payload copies that contributed intact frames
+  paragraphIntegrity: ParagraphIntegrity | null; // null when the watermark carries no paragraph tree
+  encryptionMode: EncryptionMode | null;
+  decryptedDocument: string | null; // Opened document body of a 'sealed-document', once the vault unlocks
+  signature: VerificationCheckStatus; // 'skipped' for unsigned watermarks or sealed ones that stayed closed
+  signerKeyFingerprint: string | null; // Hex SHA-256 of the embedded public key
+  hashAlgorithm: HashAlgorithm | null; // null when no watermark could be extracted
+  contentIntegrity: VerificationCheckStatus;
+  fingerprintMatchScore: number | null; // 0-1, null when no fingerprint comparison ran
+  fingerprintPattern: PatternClass | null; // Henry class of the presented fingerprint, null when it was not analysed
+  minutiaeMatch: VerificationCheckStatus; // Matcher score against the sealed template vs. the threshold; 'skipped' without one
+  minutiaeMatchScore: number | null; // 0-1, null when the matcher did not run
+  matchTransform: MatchTransform | null; // Rotation and shift from the enrolled template onto the presented print
+  templateHash: VerificationCheckStatus; // Legacy template hash of watermarks without a vault; 'skipped' otherwise
+  vaultUnlock: VerificationCheckStatus;
+  embeddedAt: number | null; // Watermark timestamp (ms since epoch)
+  failureCode: VerificationFailureCode | null; // First failing check, null when verified
+}
+
+export interface EncryptDocumentOptions {
+  mode?: EncryptionMode; // Default 'watermark'
+  signingIdentity?: SigningIdentity; // Sign the watermark with this enrolled user's key
+  onProgress?: ProgressListener; // Called as each of ENCRYPTION_STAGES runs
+  signal?: AbortSignal; // Aborting stops the run at the next stage or thinning pass with the signal's reason
+}
+
+export interface VerifyDocumentOptions {
+  onProgress?: ProgressListener; // Called as each of VERIFICATION_STAGES runs
+  signal?: AbortSignal;
+}
+
+export interface ProcessFingerprintOptions {
+  onProgress?: ProgressListener; // Called as each of FINGERPRINT_STAGES runs
+  signal?: AbortSignal;
+}
+
+/**
+ * What the pipeline made of the enrolled fingerprint, for the operator to sanity-check
+ */
+export interface FingerprintSummary {
+  source: FingerprintSource;
+  minutiaeCount: number;
+  patternClass: PatternClass;
+  cores: number;
+  deltas: number;
 }
 
 export interface EncryptionResult {
   encryptedDocument: string;
-  watermarkData: WatermarkData;
-  downloadBlob: Blob;
+  watermarkData: WatermarkData; // As embedded: sensitive fields are sealed unless mode is 'watermark'; no vault secret
+  mode: EncryptionMode;
+  fingerprint: FingerprintSummary;
+  downloadBytes: Uint8Array; // The encrypted file: DOCX or UTF-8 text, per mimeType
   downloadName: string;
   mimeType: string;
   format: DocumentFormat;
 }
 
+export type RidgeEnhancementMethod = 'gabor' | 'none';
+
+export interface FingerprintProcessorOptions {
+  enhancement?: RidgeEnhancementMethod; // Default 'gabor'
+  ridgeEnhancement?: RidgeEnhancementOptions;
+  binarization?: BinarizationMethod; // Default 'sauvola'
+  binarizationOptions?: BinarizationOptions;
+  segmentation?: SegmentationOptions;
+  postProcessing?: PostProcessingOptions; // Ridge period defaults to the median of the frequency map
+  captureStages?: boolean; // Keep every intermediate image on the analysis result (default false)
+  resolution?: number; // Scanner resolution in ppi, overriding the file's metadata; 150-5000, else a RangeError
+  rasterDecoder?: RasterDecoder; // PNG and JPEG decoding; without one only WSQ, BMP, TIFF, PGM and templates are read
+}
+
+/**
+ * Intermediate images of the pipeline, in processing order
+ */
+export type FingerprintPipelineStage =
+  | 'grayscale'
+  | 'contrast'
+  | 'denoised'
+  | 'orientation'
+  | 'mask'
+  | 'normalized'
+  | 'frequency'
+  | 'enhanced'
+  | 'binary'
+  | 'skeleton';
+
+/**
+ * An image run through the pipeline, or a minutiae template read from file
+ */
+export type FingerprintSource = 'image' | TemplateFormat;
+
+/**
+ * A fingerprint as the core takes it: the bytes of an image or template file, or decoded grayscale pixels
+ */
+export type FingerprintInput = Uint8Array | GrayscaleImage;
+
+/**
+ * What enrolment and verification use of a fingerprint, in CANONICAL_PPI pixel coordinates
+ */
+export interface FingerprintFeatures {
+  source: FingerprintSource;
+  minutiae: MinutiaePoint[];
+  singularPoints: SingularPoints; // Cores and deltas from the Poincaré index of the orientation field, or from the template
+  patternClass: PatternClass; // 'unclassified' for templates without core and delta data
+  referencePoint: SingularPoint | null; // Upper-most core: the origin for alignment; null without a core
+}
+
+/**
+ * Everything is measured after resampling to CANONICAL_PPI: width, height, minutiae and
+ * singular point coordinates, and every pixel threshold of the pipeline
+ */
+export interface FingerprintAnalysis extends FingerprintFeatures {
+  source: 'image';
+  width: number;
+  height: number;
+  resolution: ImageResolution; // Of the input, before resampling
+  orientation: OrientationField;
+  mask: ForegroundMask; // Print region; minutiae are only taken from its eroded interior
+  frequency: RidgeFrequencyMap | null; // null when ridge enhancement is disabled
+  removedMinutiae: Record<SpuriousStructure, number>; // Candidates discarded as thinning artifacts
+  stages: Partial<Record<FingerprintPipelineStage, GrayscaleImage>>; // Empty unless captureStages is set
+}
+
+type StageCapture = (stage: FingerprintPipelineStage, image: () => GrayscaleImage) => void;
+
+/**
+ * Share of the 'enhance' stage done when each step starts; Gabor filtering takes most of it
+ */
+const ENHANCE_PROGRESS = { orientation: 0.15, segmentation: 0.18, gabor: 0.27 };
+
+/**
+ * Raised when a fingerprint sample does not yield enough minutiae to be usable
+ */
+export class FingerprintQualityError extends Error {
+  constructor(public readonly minutiaeCount: number, public readonly requiredMinutiae: number) {
+    super(`Fingerprint quality insufficient: detected ${minutiaeCount} minutiae; at least ${requiredMinutiae} are required.`);
+    this.name = 'FingerprintQualityError';
+  }
+}
+
 /**
  * Phase 1: Fingerprint preprocessing and minutiae extraction
  */
 export class FingerprintProcessor {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
   private readonly MIN_MINUTIAE = 12;
   private readonly MAX_MINUTIAE = 80;
+  private readonly enhancement: RidgeEnhancementMethod;
+  private readonly ridgeEnhancement: RidgeEnhancementOptions;
+  private readonly binarization: BinarizationMethod;
+  private readonly binarizationOptions: BinarizationOptions;
+  private readonly segmentation: SegmentationOptions;
+  private readonly postProcessing: PostProcessingOptions;
+  private readonly captureStages: boolean;
+  private readonly resolution: number | null;
+  private readonly rasterDecoder: RasterDecoder | undefined;
+
+  constructor(options: FingerprintProcessorOptions = {}) {
+    this.enhancement = options.enhancement ?? 'gabor';
+    this.ridgeEnhancement = options.ridgeEnhancement ?? {};
+    this.binarization = options.binarization ?? 'sauvola';
+    this.binarizationOptions = options.binarizationOptions ?? {};
+    this.segmentation = options.segmentation ?? {};
+    this.postProcessing = options.postProcessing ?? {};
+    this.captureStages = options.captureStages ?? false;
+    this.resolution = options.resolution === undefined ? null : checkResolutionOverride(options.resolution);
+    this.rasterDecoder = options.rasterDecoder;
+  }
+
+  /**
+   * Process a fingerprint image or minutiae template and extract minutiae points
+   */
+  async processFingerprint(fingerprint: FingerprintInput, options: ProcessFingerprintOptions = {}): Promise<MinutiaePoint[]> {
+    const progress = new ProgressTracker(FINGERPRINT_STAGES, options.onProgress, options.signal);
+    const minutiae = this.requireMinutiae(await this.extractFeatures(fingerprint, progress));
+    progress.complete();
+    return minutiae;
+  }
 
-  constructor() {
-    this.canvas = document.createElement('canvas');
-    this.ctx = this.canvas.getContext('2d')!;
+  /**
+   * Minutiae of an analysis or template, or FingerprintQualityError when there are too few to use
+   */
+  requireMinutiae(features: FingerprintFeatures): MinutiaePoint[] {
+    const { minutiae } = features;
+    if (minutiae.length < this.MIN_MINUTIAE) {
+      throw new FingerprintQualityError(minutiae.length, this.MIN_MINUTIAE);
+    }
+    return minutiae;
   }
 
   /**
-   * Process fingerprint image and extract minutiae points
+   * Features of an image, or of an ISO 19794-2 / ANSI 378 minutiae template, recognised by its
+   * "FMR" identifier. MinutiaeTemplateError when a template cannot be read.
    */
-  async processFingerprint(imageFile: File): Promise<MinutiaePoint[]> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        try {
-          // Set canvas dimensions
-          this.canvas.width = img.width;
-          this.canvas.height = img.height;
+  async extractFeatures(fingerprint: FingerprintInput, progress?: ProgressTracker): Promise<FingerprintFeatures> {
+    if (fingerprint instanceof Uint8Array && isMinutiaeTemplate(fingerprint)) {
+      await progress?.checkpoint('decode');
+      return this.templateFeatures(decodeMinutiaeTemplate(fingerprint));
+    }
+    return this.analyzeFingerprint(fingerprint, progress);
+  }
 
-          // Draw image to canvas
-          this.ctx.drawImage(img, 0, 0);
+  /**
+   * First finger view of a template, scaled from the template's resolution to CANONICAL_PPI.
+   * Its minutiae are deduplicated and capped like extracted ones; the resolution override
+   * does not apply, as every template records its own.
+   */
+  templateFeatures(template: MinutiaeTemplate): FingerprintFeatures {
+    const view = template.views[0];
+    if (!view) {
+      throw new MinutiaeTemplateError('Template holds no finger view');
+    }
+    const scale = CANONICAL_PPI / template.resolution;
+    const scaled = <T extends { x: number; y: number }>(point: T): T => ({ ...point, x: point.x * scale, y: point.y * scale });
+    const singularPoints: SingularPoints = {
+      cores: view.cores.map(scaled).sort((a, b) => a.y - b.y),
+      deltas: view.deltas.map(scaled)
+    };
+    const hasSingularPoints = singularPoints.cores.length + singularPoints.deltas.length > 0;
 
-          // Get image data
-          const imageData = this.ctx.getImageData(0, 0, this.canvas.width, this.canvas.height);
-          
-          // Convert to grayscale and enhance
-          const processedData = this.preprocessImage(imageData);
-          
-          // Extract minutiae points
-          const minutiae = this.extractMinutiae(processedData);
-          const normalizedMinutiae = this.normalizeMinutiae(minutiae);
+    return {
+      source: template.format,
+      minutiae: this.normalizeMinutiae(view.minutiae.map(scaled)),
+      singularPoints,
+      // Without core and delta data classifyPattern would call every template an arch
+      patternClass: hasSingularPoints ? classifyPattern(singularPoints) : 'unclassified',
+      referencePoint: singularPoints.cores[0] ?? null
+    };
+  }
 
-          if (normalizedMinutiae.length < this.MIN_MINUTIAE) {
-            reject(new Error(`Fingerprint quality insufficient: detected ${normalizedMinutiae.length} minutiae; at least ${this.MIN_MINUTIAE} are required.`));
-            return;
-          }
-          
-          resolve(normalizedMinutiae);
-        } catch (error) {
-          reject(error);
+  /**
+   * Minutiae and singular points of an analysis as a single-view template at CANONICAL_PPI.
+   * Finger quality is the mean minutia reliability.
+   */
+  exportTemplate(analysis: FingerprintAnalysis, format: TemplateFormat = 'iso-19794-2'): Uint8Array {
+    const reliabilities = analysis.minutiae.flatMap(minutia => minutia.reliability ?? []);
+    const quality = reliabilities.length
+      ? (reliabilities.reduce((sum, reliability) => sum + reliability, 0) / reliabilities.length) * 100
+      : 0;
+    return encodeMinutiaeTemplate({
+      format,
+      width: analysis.width,
+      height: analysis.height,
+      resolution: CANONICAL_PPI,
+      views: [
+        {
+          fingerPosition: 0,
+          viewNumber: 0,
+          impressionType: 0,
+          quality,
+          minutiae: analysis.minutiae,
+          cores: analysis.singularPoints.cores,
+          deltas: analysis.singularPoints.deltas
         }
-      };
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = URL.createObjectURL(imageFile);
+      ]
     });
   }
 
   /**
-   * Preprocess image: convert to grayscale, enhance contrast, reduce noise
+   * Run the whole pipeline and return the minutiae together with the ridge maps and,
+   * when captureStages is set, every intermediate image. No minimum minutiae count applies.
+   */
+  async analyzeFingerprint(fingerprint: FingerprintInput, progress?: ProgressTracker): Promise<FingerprintAnalysis> {
+    if (!(fingerprint instanceof Uint8Array)) {
+      return this.analyzeGrayscale(fingerprint, undefined, progress);
+    }
+    await progress?.checkpoint('decode');
+    const resolution = resolveResolution(fingerprint, this.resolution);
+    // WSQ, BMP, TIFF and PGM are decoded here; PNG and JPEG by the raster decoder
+    return this.analyzeGrayscale(await decodeImage(fingerprint, this.rasterDecoder, resolution.ppi), resolution, progress);
+  }
+
+  /**
+   * Pipeline on RGBA pixels, such as canvas ImageData
    */
-  private preprocessImage(imageData: ImageData): ImageData {
-    const { data, width, height } = imageData;
-    const processedData = new Uint8ClampedArray(data.length);
+  analyzeImageData(imageData: RgbaImage, resolution?: ImageResolution): Promise<FingerprintAnalysis> {
+    return this.analyzeGrayscale(rgbaToGrayscale(imageData), resolution);
+  }
 
-    // Convert to grayscale and enhance contrast
-    for (let i = 0; i < data.length; i += 4) {
-      const gray = Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
-      const enhanced = this.enhanceContrast(gray);
-      
-      processedData[i] = enhanced;     // R
-      processedData[i + 1] = enhanced; // G
-      processedData[i + 2] = enhanced; // B
-      processedData[i + 3] = data[i + 3]; // A
+  /**
+   * Pipeline on grayscale pixels, resampled to CANONICAL_PPI first. Without a resolution the
+   * override, or else the canonical one, is assumed. Each stage starts at a progress checkpoint.
+   */
+  async analyzeGrayscale(
+    image: GrayscaleImage,
+    resolution: ImageResolution = this.resolution !== null
+      ? { ppi: this.resolution, source: 'override' }
+      : { ppi: CANONICAL_PPI, source: 'assumed' },
+    progress?: ProgressTracker
+  ): Promise<FingerprintAnalysis> {
+    await progress?.checkpoint('decode', 0.5);
+    const scale = CANONICAL_PPI / resolution.ppi;
+    // Within 2% of the canonical resolution resampling would only blur
+    const canonical = Math.abs(scale - 1) < 0.02 ? image : resampleImage(image, scale);
+    const { width, height } = canonical;
+    const stages: FingerprintAnalysis['stages'] = {};
+    const capture: StageCapture = (stage, image) => {
+      if (this.captureStages) {
+        stages[stage] = image();
+      }
+    };
+
+    // Enhance contrast and reduce noise
+    await progress?.checkpoint('enhance');
+    const preprocessed = this.preprocessImage(canonical, capture);
+
+    // Orientation field, shared by segmentation and ridge enhancement
+    await progress?.checkpoint('enhance', ENHANCE_PROGRESS.orientation);
+    const orientation = estimateOrientationField(preprocessed, this.ridgeEnhancement.blockSize);
+    capture('orientation', () => renderOrientationField(orientation, width, height));
+
+    // Separate the print from background and image borders
+    await progress?.checkpoint('enhance', ENHANCE_PROGRESS.segmentation);
+    const mask = segmentFingerprint(preprocessed, orientation, this.segmentation);
+    capture('mask', () => this.renderBinary(mask.foreground, width, height));
+
+    // Cores and deltas give the pattern class and the reference point for alignment
+    const singularPoints = detectSingularPoints(orientation, mask);
+    const patternClass = classifyPattern(singularPoints);
+
+    // Frequency and Gabor filtering ahead of binarization
+    let ridgeImage = preprocessed;
+    let frequency: RidgeFrequencyMap | null = null;
+    if (this.enhancement === 'gabor') {
+      await progress?.checkpoint('enhance', ENHANCE_PROGRESS.gabor);
+      const enhancement = enhanceRidges(preprocessed, this.ridgeEnhancement, orientation);
+      frequency = enhancement.frequency;
+      ridgeImage = enhancement.enhanced;
+      capture('normalized', () => enhancement.normalized);
+      capture('frequency', () => renderRidgeFrequency(enhancement.frequency, width, height));
+      capture('enhanced', () => enhancement.enhanced);
+    }
+
+    // Extract minutiae points and discard thinning artifacts
+    const postProcessing: PostProcessingOptions = {
+      ridgePeriod: frequency ? medianRidgePeriod(frequency) : undefined,
+      ...this.postProcessing
+    };
+    const extracted = await this.extractMinutiae(ridgeImage, mask, orientation, postProcessing, capture, progress);
+    const minutiae = this.normalizeMinutiae(extracted.minutiae);
+
+    return {
+      source: 'image',
+      width,
+      height,
+      resolution,
+      minutiae,
+      orientation,
+      mask,
+      frequency,
+      removedMinutiae: extracted.removed,
+      singularPoints,
+      patternClass,
+      referencePoint: singularPoints.cores[0] ?? null,
+      stages
+    };
+  }
+
+  /**
+   * Preprocess image: enhance contrast, reduce noise
+   */
+  private preprocessImage(image: GrayscaleImage, capture: StageCapture): GrayscaleImage {
+    const { data, width, height } = image;
+    const contrasted = new Uint8ClampedArray(width * height);
+
+    // Enhance contrast
+    for (let i = 0; i < contrasted.length; i++) {
+      contrasted[i] = this.enhanceContrast(data[i]);
     }
+    capture('grayscale', () => image);
+    capture('contrast', () => ({ width, height, data: contrasted }));
 
     // Apply noise reduction (simple median filter)
-    const denoisedData = this.applyMedianFilter(processedData, width, height);
+    const denoised = { width, height, data: this.applyMedianFilter(contrasted, width, height) };
+    capture('denoised', () => denoised);
 
-    return new ImageData(new Uint8ClampedArray(denoisedData), width, height);
+    return denoised;
   }
 
   /**
@@ -146,34 +618,27 @@ export class FingerprintProcessor {
   }
 
   /**
-   * Apply median filter for noise reduction
+   * Apply median filter for noise reduction; border pixels are kept as they are
    */
   private applyMedianFilter(data: Uint8ClampedArray, width: number, height: number): Uint8ClampedArray {
-    const filtered = new Uint8ClampedArray(data.length);
+    const filtered = new Uint8ClampedArray(data);
     const kernelSize = 3;
     const offset = Math.floor(kernelSize / 2);
 
     for (let y = offset; y < height - offset; y++) {
       for (let x = offset; x < width - offset; x++) {
-        const idx = (y * width + x) * 4;
         const neighbors: number[] = [];
 
         // Collect neighboring pixel values
         for (let ky = -offset; ky <= offset; ky++) {
           for (let kx = -offset; kx <= offset; kx++) {
-            const neighborIdx = ((y + ky) * width + (x + kx)) * 4;
-            neighbors.push(data[neighborIdx]);
+            neighbors.push(data[(y + ky) * width + (x + kx)]);
           }
         }
 
         // Sort and get median
         neighbors.sort((a, b) => a - b);
-        const median = neighbors[Math.floor(neighbors.length / 2)];
-
-        filtered[idx] = median;
-        filtered[idx + 1] = median;
-        filtered[idx + 2] = median;
-        filtered[idx + 3] = data[idx + 3];
+        filtered[y * width + x] = neighbors[Math.floor(neighbors.length / 2)];
       }
     }
 
@@ -183,163 +648,64 @@ export class FingerprintProcessor {
   /**
    * Extract minutiae points from processed image
    */
-  private extractMinutiae(imageData: ImageData): MinutiaePoint[] {
-    const { data, width, height } = imageData;
-    const minutiae: MinutiaePoint[] = [];
-
-    // Convert to binary image (threshold)
-    const binaryData = this.binarizeImage(data);
+  private async extractMinutiae(
+    image: GrayscaleImage,
+    mask: ForegroundMask,
+    orientation: OrientationField,
+    postProcessing: PostProcessingOptions,
+    capture: StageCapture,
+    progress?: ProgressTracker
+  ): Promise<{ minutiae: MinutiaePoint[]; removed: Record<SpuriousStructure, number> }> {
+    const { width, height } = image;
+
+    // Convert to binary image (ridges = 1)
+    await progress?.checkpoint('binarize');
+    const binaryData = this.binarizeImage(image, mask);
+    capture('binary', () => this.renderBinary(binaryData, width, height));
     
-    // Apply skeletonization (thinning)
-    const skeletonData = this.skeletonize(binaryData, width, height);
+    // Thin ridges to one-pixel-wide lines (Zhang–Suen)
+    await progress?.checkpoint('thin');
+    const skeletonData = thinRidges(binaryData, width, height, progress?.signal);
+    capture('skeleton', () => this.renderBinary(skeletonData, width, height));
     
-    // Find minutiae points
-    for (let y = 1; y < height - 1; y++) {
-      for (let x = 1; x < width - 1; x++) {
-        const idx = y * width + x;
-        
-        if (skeletonData[idx] === 1) {
-          const minutia = this.analyzeMinutia(skeletonData, x, y, width, height);
-          if (minutia) {
-            minutiae.push(minutia);
-          }
-        }
-      }
-    }
-
-    return minutiae;
-  }
+    // Crossing-number minutiae away from the print boundary, where ridges end artificially
+    await progress?.checkpoint('extract');
+    const candidates = findSkeletonMinutiae(skeletonData, width, height, mask.interior);
 
-  /**
-   * Convert grayscale image to binary
-   */
-  private binarizeImage(data: Uint8ClampedArray): number[] {
-    const binary: number[] = [];
-    const threshold = 128;
-
-    for (let i = 0; i < data.length; i += 4) {
-      binary.push(data[i] > threshold ? 1 : 0);
-    }
-
-    return binary;
-  }
-
-  /**
-   * Apply skeletonization to binary image
-   */
-  private skeletonize(binaryData: number[], width: number, height: number): number[] {
-    const skeleton = [...binaryData];
-    let changed = true;
-    let iterations = 0;
-    const maxIterations = 50;
-
-    while (changed && iterations < maxIterations) {
-      changed = false;
-      iterations++;
-
-      // Zhang-Suen thinning algorithm (simplified)
-      for (let y = 1; y < height - 1; y++) {
-        for (let x = 1; x < width - 1; x++) {
-          const idx = y * width + x;
-          
-          if (skeleton[idx] === 1) {
-            const neighbors = this.getNeighbors(skeleton, x, y, width, height);
-            const transitions = this.countTransitions(neighbors);
-            
-            if (transitions === 1 && this.shouldRemove(neighbors)) {
-              skeleton[idx] = 0;
-              changed = true;
-            }
-          }
-        }
-      }
-    }
-
-    return skeleton;
-  }
-
-  /**
-   * Get 8-connected neighbors
-   */
-  private getNeighbors(data: number[], x: number, y: number, width: number, height: number): number[] {
-    const neighbors: number[] = [];
-    const positions = [
-      [-1, -1], [-1, 0], [-1, 1],
-      [0, -1],           [0, 1],
-      [1, -1],  [1, 0],  [1, 1]
-    ];
+    // Spurs, bridges, broken ridges, islands and lakes are artifacts, not minutiae
+    await progress?.checkpoint('extract', 0.3);
+    const { minutiae, removed } = removeSpuriousMinutiae(skeletonData, width, height, candidates, orientation, postProcessing);
 
-    for (const [dx, dy] of positions) {
-      const nx = x + dx;
-      const ny = y + dy;
-      if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-        neighbors.push(data[ny * width + nx]);
-      } else {
-        neighbors.push(0);
-      }
-    }
-
-    return neighbors;
-  }
-
-  /**
-   * Count transitions from 0 to 1 in neighbor sequence
-   */
-  private countTransitions(neighbors: number[]): number {
-    let transitions = 0;
-    for (let i = 0; i < neighbors.length; i++) {
-      const current = neighbors[i];
-      const next = neighbors[(i + 1) % neighbors.length];
-      if (current === 0 && next === 1) {
-        transitions++;
-      }
-    }
-    return transitions;
+    return {
+      minutiae: minutiae.map(({ x, y, angle, type, reliability }) => ({ x, y, angle, type, reliability })),
+      removed
+    };
   }
 
   /**
-   * Determine if pixel should be removed during thinning
+   * Convert grayscale image to binary with the configured method; dark ridge pixels become 1,
+   * background pixels stay 0
    */
-  private shouldRemove(neighbors: number[]): boolean {
-    const sum = neighbors.reduce((a, b) => a + b, 0);
-    return sum >= 2 && sum <= 6;
+  private binarizeImage(image: GrayscaleImage, mask: ForegroundMask): Uint8Array {
+    return binarizeRidges(image, this.binarization, this.binarizationOptions, mask.foreground);
   }
 
   /**
-   * Analyze minutia type and properties
+   * Binary or skeleton pixels as an inspectable image (set pixels white)
    */
-  private analyzeMinutia(skeletonData: number[], x: number, y: number, width: number, height: number): MinutiaePoint | null {
-    const neighbors = this.getNeighbors(skeletonData, x, y, width, height);
-    const sum = neighbors.reduce((a, b) => a + b, 0);
-
-    if (sum === 1) {
-      // Ridge ending
-      return {
-        x,
-        y,
-        angle: this.calculateAngle(neighbors),
-        type: 'ending'
-      };
-    } else if (sum === 3) {
-      // Bifurcation
-      return {
-        x,
-        y,
-        angle: this.calculateAngle(neighbors),
-        type: 'bifurcation'
-      };
-    }
-
-    return null;
+  private renderBinary(pixels: ArrayLike<number>, width: number, height: number): GrayscaleImage {
+    return { width, height, data: Uint8ClampedArray.from(pixels, pixel => pixel * 255) };
   }
 
   /**
-   * Deduplicate minutiae that are too close together and cap the total count
+   * Deduplicate minutiae that are too close together and cap the total count, keeping the
+   * most reliable points wherever they lie in the image
    */
   private normalizeMinutiae(minutiae: MinutiaePoint[]): MinutiaePoint[] {
     const filtered: MinutiaePoint[] = [];
+    const ranked = [...minutiae].sort((a, b) => (b.reliability ?? 0) - (a.reliability ?? 0));
 
-    for (const point of minutiae) {
+    for (const point of ranked) {
       const isTooClose = filtered.some(
         existing => Math.hypot(existing.x - point.x, existing.y - point.y) < 5
       );
@@ -355,64 +721,123 @@ export class FingerprintProcessor {
 
     return filtered;
   }
+}
 
-  /**
-   * Calculate ridge direction angle
-   */
-  private calculateAngle(neighbors: number[]): number {
-    // Simplified angle calculation based on neighbor pattern
-    const positions = [
-      [-1, -1], [-1, 0], [-1, 1],
-      [0, -1],           [0, 1],
-      [1, -1],  [1, 0],  [1, 1]
-    ];
-
-    let weightedX = 0;
-    let weightedY = 0;
-
-    for (let i = 0; i < neighbors.length; i++) {
-      if (neighbors[i] === 1) {
-        weightedX += positions[i][0];
-        weightedY += positions[i][1];
-      }
-    }
+export interface VaultUnlockResult {
+  secret: string | null;
+  candidatePoints: number; // Vault points found within the tolerance window
+  matchScore: number; // 0-1 share of query minutiae lying on the recovered polynomial
+}
 
-    return Math.atan2(weightedY, weightedX) * (180 / Math.PI);
-  }
+export interface FuzzyVaultOptions {
+  positionTolerance?: number; // Absolute encoding: quantization cell size in pixels
+  angleTolerance?: number;    // Quantization bin size in degrees
+  radiusBucket?: number;      // Aligned encoding: distance-from-origin bucket in pixels (default 12)
+  thetaBucket?: number;       // Aligned encoding: bearing-from-origin bucket in degrees (default 10)
 }
 
+/**
+ * Quantized minutia: radius cell, bearing cell, angle bin, type
+ */
+type VaultCell = [number, number, number, MinutiaePoint['type']];
+
 /**
  * Phase 2: Fuzzy Vault implementation for biometric key generation
  */
 export class FuzzyVaultGenerator {
-  private readonly fieldSize: number = 251; // Prime field size
-  private readonly vaultSize: number = 5; // Much smaller vault for minimal size
+  static readonly SECRET_COEFFICIENTS = 10; // 16-bit coefficients => 160-bit secret
+  static readonly LEGACY_SECRET_COEFFICIENTS = 4; // Vaults written before payload version 5
+  private readonly fieldSize: number = 65537; // Prime field size (2^16 + 1)
+  private readonly genuinePoints: number = 24; // Only the most reliable minutiae are embedded
+  private readonly chaffPoints: number = 300;
+  private readonly chaffSpacing: number = 2; // Minimum distance in cells between any two vault points
+  private readonly maxUnlockAttempts: number = 2000;
+  private readonly pairedMinutiae: number = 8; // At most; reference-pair minutiae are kept out of the vault
+  private readonly pairLength: [number, number] = [140, 300]; // Pixels: long pairs fix the direction precisely
+  private readonly pairTolerance: PairTolerance = { length: 10, angle: 20 };
+  private readonly maxPairFrames: number = 8; // Best-fitting first; false fits are common in dense prints
+  private readonly positionTolerance: number;
+  private readonly angleTolerance: number;
+  private readonly radiusBucket: number;
+  private readonly thetaBucket: number;
+
+  constructor(options: FuzzyVaultOptions = {}) {
+    this.positionTolerance = options.positionTolerance ?? 8;
+    this.angleTolerance = options.angleTolerance ?? 30;
+    this.radiusBucket = options.radiusBucket ?? 12;
+    this.thetaBucket = options.thetaBucket ?? 10;
+  }
 
   /**
-   * Generate Fuzzy Vault from minutiae points
+   * Generate Fuzzy Vault from minutiae points, encoded relative to the reference core or,
+   * without one, to the first reference pair. Reference pairs are helper data that let a query
+   * find the frame again from any pair it shares with the enrolment; their minutiae are public
+   * in effect, so they are left out of the vault.
    */
-  generateVault(minutiae: MinutiaePoint[]): FuzzyVault {
+  generateVault(minutiae: MinutiaePoint[], reference: SingularPoint | null = null): FuzzyVault {
     // Generate random secret key
     const secret = this.generateSecret();
     
     // Convert secret to polynomial coefficients
     const polynomial = this.secretToPolynomial(secret);
     
+    // Pick the frame and the pairs that locate it, from the minutiae the vault can spare
+    const core = reference && coreFrame(reference);
+    const spare = minutiae.length - this.genuinePoints;
+    const pairs = selectReferencePairs(
+      minutiae,
+      Math.min(Math.max(spare, core ? 0 : 2), this.pairedMinutiae),
+      ...this.pairLength,
+      core ?? centroidFrame(minutiae)
+    );
+    const frame = core ?? (pairs.length > 0 ? pairFrame(...pairs[0]) : centroidFrame(minutiae));
+    const paired = new Set(pairs.flat());
+
     // Generate vault points
-    const vault = this.generateVaultPoints(minutiae, polynomial);
+    const vault = this.generateVaultPoints(minutiae.filter(minutia => !paired.has(minutia)), polynomial, frame);
     
     return {
       vault,
       secret,
-      polynomial
+      polynomial,
+      encoding: 'aligned',
+      coefficients: FuzzyVaultGenerator.SECRET_COEFFICIENTS,
+      ...(pairs.length > 0 && { referencePairs: pairs.map(([a, b]) => describePair(a, b, frame)) })
     };
   }
 
+  /**
+   * Derive a salted one-way check value so a reconstructed secret can be confirmed
+   * without ever embedding the secret itself
+   */
+  async createSecretCheck(secret: string): Promise<SecretCheck> {
+    const saltBytes = new Uint8Array(16);
+    crypto.getRandomValues(saltBytes);
+    const salt = Array.from(saltBytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return { salt, digest: await this.digestSecret(salt, secret) };
+  }
+
+  /**
+   * Check a reconstructed secret against the embedded check value
+   */
+  async matchesSecretCheck(secret: string, check: SecretCheck): Promise<boolean> {
+    if (!check?.salt || !check.digest) {
+      return false;
+    }
+    return (await this.digestSecret(check.salt, secret)) === check.digest;
+  }
+
+  private async digestSecret(salt: string, secret: string): Promise<string> {
+    const input = new Uint8Array([...this.hexToBytes(salt), ...this.hexToBytes(secret)]);
+    const digest = await crypto.subtle.digest('SHA-256', input);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
   /**
    * Generate random secret key
    */
   private generateSecret(): string {
-    const bytes = new Uint8Array(4); // 32-bit key (much smaller)
+    const bytes = new Uint8Array(FuzzyVaultGenerator.SECRET_COEFFICIENTS * 2);
     crypto.getRandomValues(bytes);
     return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
   }
@@ -424,32 +849,70 @@ export class FuzzyVaultGenerator {
     const coefficients: number[] = [];
     const secretBytes = this.hexToBytes(secret);
     
-    // Use secret bytes as polynomial coefficients
-    for (let i = 0; i < secretBytes.length; i++) {
-      coefficients.push(secretBytes[i] % this.fieldSize);
+    // Every two secret bytes form one 16-bit coefficient, which always fits in the field
+    for (let i = 0; i + 1 < secretBytes.length; i += 2) {
+      coefficients.push(((secretBytes[i] << 8) | secretBytes[i + 1]) % this.fieldSize);
     }
     
     return coefficients;
   }
 
   /**
-   * Generate vault points from minutiae and polynomial
+   * Generate vault points from the most reliable minutiae and the polynomial, hidden among chaff
+   * drawn from the same polar cells: an attacker cannot tell the two apart by their x-values,
+   * and with 10 coefficients a random subset of the vault essentially never interpolates to the secret
    */
-  private generateVaultPoints(minutiae: MinutiaePoint[], polynomial: number[]): number[][] {
+  private generateVaultPoints(minutiae: MinutiaePoint[], polynomial: number[], frame: MinutiaFrame): number[][] {
     const vault: number[][] = [];
-    
-    // Add real points (minutiae-based)
-    for (const minutia of minutiae) {
-      const x = this.encodeMinutia(minutia);
+    const usedX = new Set<number>();
+    const cells: VaultCell[] = [];
+
+    // Add real points (minutiae-based), most reliable first. They keep the same spacing as chaff:
+    // the cell space is small enough to enumerate, so a pair of points closer than chaffSpacing
+    // would otherwise give itself away as genuine. The less reliable minutia of a close pair is dropped.
+    const ranked = [...minutiae].sort((a, b) => (b.reliability ?? 1) - (a.reliability ?? 1));
+    for (const minutia of ranked) {
+      if (vault.length === this.genuinePoints) {
+        break;
+      }
+      const cell = this.polarCell(minutia, frame);
+      const x = this.encodeCell(...cell);
+      if (usedX.has(x) || cells.some(other => this.cellDistance(cell, other) < this.chaffSpacing)) {
+        continue;
+      }
+      usedX.add(x);
+      cells.push(cell);
       const y = this.evaluatePolynomial(polynomial, x);
       vault.push([x, y]);
     }
-    
-    // Add chaff points (fake points)
-    const chaffCount = Math.max(0, this.vaultSize - minutiae.length);
-    for (let i = 0; i < chaffCount; i++) {
-      const x = Math.floor(Math.random() * this.fieldSize);
-      const y = Math.floor(Math.random() * this.fieldSize);
+
+    // Add chaff points (fake points) that never lie on the polynomial, at least chaffSpacing cells
+    // from every other point, so a re-captured minutia that stays in its cell never probes chaff
+    const maxRadiusCell = Math.max(...cells.map(cell => cell[0])) + this.chaffSpacing;
+    const thetaBins = this.thetaBinCount();
+    const angleBins = this.angleBinCount();
+    const types: MinutiaePoint['type'][] = ['ending', 'bifurcation'];
+    const targetSize = vault.length + this.chaffPoints;
+    for (let attempt = 0; vault.length < targetSize && attempt < this.chaffPoints * 50; attempt++) {
+      const cell: VaultCell = [
+        this.randomFieldElement(maxRadiusCell + 1),
+        this.randomFieldElement(thetaBins),
+        this.randomFieldElement(angleBins),
+        types[this.randomFieldElement(2)]
+      ];
+      if (cells.some(other => this.cellDistance(cell, other) < this.chaffSpacing)) {
+        continue;
+      }
+      const x = this.encodeCell(...cell);
+      if (usedX.has(x)) {
+        continue;
+      }
+      const y = this.randomFieldElement(this.fieldSize);
+      if (y === this.evaluatePolynomial(polynomial, x)) {
+        continue;
+      }
+      usedX.add(x);
+      cells.push(cell);
       vault.push([x, y]);
     }
     
@@ -458,12 +921,74 @@ export class FuzzyVaultGenerator {
   }
 
   /**
-   * Encode minutia point to field element
+   * Encode minutia point to field element: polar cell relative to the frame, or the
+   * image-coordinate cell without one
+   */
+  private encodeMinutia(minutia: MinutiaePoint, frame: MinutiaFrame | null): number {
+    if (!frame) {
+      return this.encodeCell(
+        Math.floor(minutia.x / this.positionTolerance),
+        Math.floor(minutia.y / this.positionTolerance),
+        this.angleBin(minutia.angle),
+        minutia.type
+      );
+    }
+    return this.encodeCell(...this.polarCell(minutia, frame));
+  }
+
+  private polarCell(minutia: MinutiaePoint, frame: MinutiaFrame): VaultCell {
+    const polar = toPolar(minutia, frame);
+    return [
+      Math.floor(polar.radius / this.radiusBucket),
+      Math.floor(polar.theta / this.thetaBucket) % this.thetaBinCount(),
+      this.angleBin(polar.angle),
+      minutia.type
+    ];
+  }
+
+  /**
+   * Chebyshev distance between polar cells, wrapping bearing and angle; cells of different
+   * minutia types are never probed for each other
+   */
+  private cellDistance(a: VaultCell, b: VaultCell): number {
+    if (a[3] !== b[3]) {
+      return Infinity;
+    }
+    const wrapped = (delta: number, bins: number) => Math.min(Math.abs(delta), bins - Math.abs(delta));
+    return Math.max(
+      Math.abs(a[0] - b[0]),
+      wrapped(a[1] - b[1], this.thetaBinCount()),
+      wrapped(a[2] - b[2], this.angleBinCount())
+    );
+  }
+
+  /**
+   * Hash a quantized minutia cell (two position cells, angle bin, type) to a non-zero field element
+   */
+  private encodeCell(cellA: number, cellB: number, angleBin: number, type: MinutiaePoint['type']): number {
+    // FNV-1a over the cell coordinates keeps neighbouring cells far apart in the field
+    let hash = 0x811c9dc5;
+    for (const value of [cellA, cellB, angleBin, type === 'bifurcation' ? 1 : 0]) {
+      hash ^= value & 0xffff;
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return 1 + (hash % (this.fieldSize - 1)); // Ensure non-zero
+  }
+
+  /**
+   * Quantize an angle in degrees into one of the configured angle bins
    */
-  private encodeMinutia(minutia: MinutiaePoint): number {
-    // Combine x, y, angle, and type into a single field element
-    const combined = (minutia.x * 1000 + minutia.y * 10 + Math.floor(minutia.angle) + (minutia.type === 'bifurcation' ? 1 : 0)) % this.fieldSize;
-    return Math.max(1, combined); // Ensure non-zero
+  private angleBin(angle: number): number {
+    const normalized = ((angle % 360) + 360) % 360;
+    return Math.floor(normalized / this.angleTolerance) % this.angleBinCount();
+  }
+
+  private angleBinCount(): number {
+    return Math.ceil(360 / this.angleTolerance);
+  }
+
+  private thetaBinCount(): number {
+    return Math.ceil(360 / this.thetaBucket);
   }
 
   /**
@@ -492,6 +1017,15 @@ export class FuzzyVaultGenerator {
     return bytes;
   }
 
+  /**
+   * Uniform random integer in [0, max)
+   */
+  private randomFieldElement(max: number): number {
+    const buffer = new Uint32Array(1);
+    crypto.getRandomValues(buffer);
+    return buffer[0] % max;
+  }
+
   /**
    * Shuffle array randomly
    */
@@ -501,213 +1035,1134 @@ export class FuzzyVaultGenerator {
       const j = Math.floor(Math.random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
-    return shuffled;
+    return shuffled;
+  }
+
+  /**
+   * Attempt to unlock vault with minutiae points
+   */
+  unlockVault(vault: FuzzyVault, minutiae: MinutiaePoint[], cores: SingularPoint[] = []): string | null {
+    return this.unlockVaultWithScore(vault, minutiae, cores).secret;
+  }
+
+  /**
+   * Attempt to unlock vault and report how strongly the minutiae matched.
+   * An aligned vault is tried in every frame the query offers (its cores, then the frames its
+   * minutia pairs put back, or its centroid for vaults without reference pairs); the
+   * best-matching frame is reported when none unlocks.
+   */
+  unlockVaultWithScore(vault: FuzzyVault, minutiae: MinutiaePoint[], cores: SingularPoint[] = []): VaultUnlockResult {
+    const frames = vault.encoding !== 'aligned'
+      ? [null]
+      : vault.referencePairs
+        ? [
+            ...cores.map(coreFrame).filter((frame): frame is MinutiaFrame => frame !== null),
+            ...referencePairFrames(minutiae, vault.referencePairs, this.pairTolerance).slice(0, this.maxPairFrames)
+          ]
+        : candidateFrames(minutiae, cores);
+    let best: VaultUnlockResult = { secret: null, candidatePoints: 0, matchScore: 0 };
+    for (const frame of frames) {
+      const result = this.unlockInFrame(vault, minutiae, frame);
+      if (result.secret !== null) {
+        return result;
+      }
+      if (result.matchScore > best.matchScore || (result.matchScore === best.matchScore && result.candidatePoints > best.candidatePoints)) {
+        best = result;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Candidate points are gathered within the position/angle tolerance window, then random
+   * subsets are interpolated until one polynomial is confirmed by enough other candidates
+   */
+  private unlockInFrame(vault: FuzzyVault, minutiae: MinutiaePoint[], frame: MinutiaFrame | null): VaultUnlockResult {
+    try {
+      // Find matching points
+      const matchingPoints = this.findMatchingPoints(vault.vault, minutiae, frame);
+      const coefficients = vault.coefficients ?? FuzzyVaultGenerator.LEGACY_SECRET_COEFFICIENTS;
+      const requiredAgreement = coefficients + 2;
+      let bestAgreement = Math.min(matchingPoints.length, coefficients);
+      
+      if (matchingPoints.length < requiredAgreement) {
+        // Not enough points to reconstruct and confirm the polynomial
+        return { secret: null, candidatePoints: matchingPoints.length, matchScore: 0 };
+      }
+      
+      for (let attempt = 0; attempt < this.maxUnlockAttempts; attempt++) {
+        const subset = this.shuffleArray(matchingPoints).slice(0, coefficients);
+        
+        // Reconstruct polynomial using Lagrange interpolation
+        const reconstructedPolynomial = this.lagrangeInterpolation(subset);
+        const agreement = matchingPoints.filter(
+          ([x, y]) => this.evaluatePolynomial(reconstructedPolynomial, x) === y
+        ).length;
+        bestAgreement = Math.max(bestAgreement, agreement);
+        
+        if (agreement >= requiredAgreement) {
+          // Convert polynomial back to secret
+          return {
+            secret: this.polynomialToSecret(reconstructedPolynomial),
+            candidatePoints: matchingPoints.length,
+            matchScore: this.matchScore(bestAgreement, minutiae.length, coefficients)
+          };
+        }
+      }
+      
+      return {
+        secret: null,
+        candidatePoints: matchingPoints.length,
+        matchScore: this.matchScore(bestAgreement, minutiae.length, coefficients)
+      };
+    } catch (error) {
+      return { secret: null, candidatePoints: 0, matchScore: 0 };
+    }
+  }
+
+  /**
+   * Fraction of the query minutiae that could lie on the best polynomial (at most the embedded
+   * genuine points) that do, ignoring the points that trivially define it
+   */
+  private matchScore(agreement: number, minutiaeCount: number, coefficients: number): number {
+    const informative = Math.min(minutiaeCount, this.genuinePoints) - coefficients;
+    if (informative <= 0) {
+      return 0;
+    }
+    return Math.min(1, Math.max(0, (agreement - coefficients) / informative));
+  }
+
+  /**
+   * Find points in vault that match given minutiae within the tolerance window, in the
+   * frame's polar cells or, without a frame, in image-coordinate cells
+   */
+  private findMatchingPoints(vault: number[][], minutiae: MinutiaePoint[], frame: MinutiaFrame | null): number[][] {
+    const vaultByX = new Map<number, number[]>();
+    for (const point of vault) {
+      vaultByX.set(point[0], point);
+    }
+
+    const matching = new Map<number, number[]>();
+    const bins = this.angleBinCount();
+    const thetaBins = this.thetaBinCount();
+    
+    for (const minutia of minutiae) {
+      let cellsA: number[];
+      let cellsB: number[];
+      let angle: number;
+      if (frame) {
+        const polar = toPolar(minutia, frame);
+        cellsA = this.nearestCells(polar.radius / this.radiusBucket);
+        cellsB = this.nearestCells(polar.theta / this.thetaBucket).map(bin => (bin + thetaBins) % thetaBins);
+        angle = polar.angle;
+      } else {
+        cellsA = this.nearestCells(minutia.x / this.positionTolerance);
+        cellsB = this.nearestCells(minutia.y / this.positionTolerance);
+        angle = ((minutia.angle % 360) + 360) % 360;
+      }
+      const angleBins = this.nearestCells(angle / this.angleTolerance).map(bin => (bin + bins) % bins);
+
+      // Probe the minutia's own cell and the neighbouring cell it lies closest to in each dimension
+      for (const cellA of cellsA) {
+        for (const cellB of cellsB) {
+          for (const bin of angleBins) {
+            const encodedX = this.encodeCell(cellA, cellB, bin, minutia.type);
+            const point = vaultByX.get(encodedX);
+            if (point) {
+              matching.set(encodedX, point);
+            }
+          }
+        }
+      }
+    }
+    
+    return Array.from(matching.values());
+  }
+
+  /**
+   * Cell containing a quantized coordinate plus the adjacent cell on the nearer side
+   */
+  private nearestCells(position: number): number[] {
+    const cell = Math.floor(position);
+    return [cell, position - cell < 0.5 ? cell - 1 : cell + 1];
+  }
+
+  /**
+   * Lagrange interpolation to reconstruct polynomial
+   */
+  private lagrangeInterpolation(points: number[][]): number[] {
+    const n = points.length;
+    const coefficients: number[] = new Array(n).fill(0);
+    
+    for (let i = 0; i < n; i++) {
+      const [xi, yi] = points[i];
+      let term = new Array(n).fill(0);
+      term[0] = yi;
+      
+      for (let j = 0; j < n; j++) {
+        if (i !== j) {
+          const [xj] = points[j];
+          const denominator = this.modInverse((xi - xj + this.fieldSize) % this.fieldSize, this.fieldSize);
+          
+          // Multiply by (x - xj) / (xi - xj)
+          const newTerm = new Array(n).fill(0);
+          for (let k = 0; k < n; k++) {
+            const shifted = k > 0 ? term[k - 1] : 0;
+            const value = (shifted - ((term[k] * xj) % this.fieldSize) + this.fieldSize) % this.fieldSize;
+            newTerm[k] = (value * denominator) % this.fieldSize;
+          }
+          term = newTerm;
+        }
+      }
+      
+      // Add to coefficients
+      for (let k = 0; k < n; k++) {
+        coefficients[k] = (coefficients[k] + term[k]) % this.fieldSize;
+      }
+    }
+    
+    return coefficients;
+  }
+
+  /**
+   * Convert polynomial back to secret
+   */
+  private polynomialToSecret(polynomial: number[]): string {
+    return polynomial.map(coeff => coeff.toString(16).padStart(4, '0')).join('');
+  }
+
+  /**
+   * Modular inverse using extended Euclidean algorithm
+   */
+  private modInverse(a: number, m: number): number {
+    let [oldR, r] = [a, m];
+    let [oldS, s] = [1, 0];
+    
+    while (r !== 0) {
+      const quotient = Math.floor(oldR / r);
+      [oldR, r] = [r, oldR - quotient * r];
+      [oldS, s] = [s, oldS - quotient * s];
+    }
+    
+    return oldS < 0 ? oldS + m : oldS;
+  }
+}
+
+/**
+ * Binary watermark payload container (versions 3 to 6; vaults from version 5 on have 10 coefficients).
+ *
+ * Layout (big-endian):
+ *   magic "BM" (2) | version (1) | flags (2) | body length (4)
+ *   body: timestamp (8) | content digest | fingerprint digest | secret salt (16) |
+ *         secret check digest (32) | vault point count (2) | vault points (17-bit x, 17-bit y, packed)
+ *         [PAYLOAD_FLAG_PARAGRAPH_TREE: Merkle root (32) | paragraph count (2) | leaf digests (4 each)]
+ *         [PAYLOAD_FLAG_SIGNATURE: key ID (8) | P-256 public key (65) | ECDSA signature (64)]
+ *         [PAYLOAD_FLAG_REFERENCE_PAIRS: pair count (1) | pairs (13 each, see writeReferencePairs)]
+ *
+ * With PAYLOAD_FLAG_SEALED_FIELDS the two digests are replaced by an AES-GCM box
+ * (ciphertext length (4) | IV (12) | ciphertext) holding encodeSensitiveFields(), paragraph tree included;
+ * only the sealed fields can carry the enrolled minutiae template (PAYLOAD_FLAG_MINUTIAE_TEMPLATE).
+ *   CRC-32 over header + body (4)
+ *
+ * Digests are 32 bytes for SHA-256 and 4 bytes when PAYLOAD_FLAG_LEGACY_HASH is set.
+ * PAYLOAD_FLAG_ALIGNED_VAULT marks vault x-values in the aligned (core/pair-relative) encoding;
+ * aligned vaults without PAYLOAD_FLAG_REFERENCE_PAIRS (before version 6) are centroid-relative.
+ * Optional sections (version 4) follow the vault points in flag order.
+ * JSON payloads (versions 1 and 2) are still decoded for documents embedded before this format.
+ */
+export class WatermarkPayloadCodec {
+  private static readonly MAGIC = [0x42, 0x4d];
+  private static readonly HEADER_SIZE = 9;
+  private static readonly CRC_SIZE = 4;
+  private static readonly SALT_SIZE = 16;
+  private static readonly SECRET_DIGEST_SIZE = 32;
+  private static readonly VAULT_VALUE_BITS = 17; // Field elements of GF(65537) need 17 bits
+  private static readonly MIN_BINARY_VERSION = 3;
+  static readonly PAYLOAD_FLAG_LEGACY_HASH = 0x0001;
+  static readonly PAYLOAD_FLAG_PARAGRAPH_TREE = 0x0002;
+  static readonly PAYLOAD_FLAG_SEALED_FIELDS = 0x0004;
+  static readonly PAYLOAD_FLAG_SEALED_DOCUMENT = 0x0008;
+  static readonly PAYLOAD_FLAG_SIGNATURE = 0x0010;
+  static readonly PAYLOAD_FLAG_ALIGNED_VAULT = 0x0020;
+  static readonly PAYLOAD_FLAG_MINUTIAE_TEMPLATE = 0x0040; // Sealed fields only
+  static readonly PAYLOAD_FLAG_REFERENCE_PAIRS = 0x0080;
+  static readonly TEMPLATE_MINUTIAE = 40;
+  private static readonly TEMPLATE_MINUTIA_SIZE = 5;
+  private static readonly REFERENCE_PAIR_SIZE = 13;
+
+  private static crcTable: Uint32Array | null = null;
+
+  /**
+   * Encode watermark data into the binary container
+   */
+  encode(watermarkData: WatermarkData): Uint8Array {
+    const legacy = watermarkData.hashAlgorithm === LEGACY_HASH_ALGORITHM;
+    const digestSize = this.digestSize(legacy);
+    const points = watermarkData.vault.vault;
+    const packedPoints = this.packVaultPoints(points);
+    const sealedFields = watermarkData.sealedFields;
+    const paragraphTree = sealedFields ? undefined : watermarkData.paragraphTree;
+
+    let flags = legacy ? WatermarkPayloadCodec.PAYLOAD_FLAG_LEGACY_HASH : 0;
+    if (paragraphTree) {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_PARAGRAPH_TREE;
+    }
+    if (sealedFields) {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_SEALED_FIELDS;
+    }
+    if (watermarkData.documentSealed) {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_SEALED_DOCUMENT;
+    }
+    const signature = watermarkData.signature;
+    if (signature) {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_SIGNATURE;
+    }
+    if (watermarkData.vault.encoding === 'aligned') {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_ALIGNED_VAULT;
+    }
+    const referencePairs = watermarkData.vault.referencePairs;
+    if (referencePairs) {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_REFERENCE_PAIRS;
+    }
+
+    const sensitiveSize = sealedFields ? 4 + SEAL_IV_SIZE + sealedFields.ciphertext.length : digestSize * 2;
+    const bodySize =
+      8 + sensitiveSize + WatermarkPayloadCodec.SALT_SIZE + WatermarkPayloadCodec.SECRET_DIGEST_SIZE + 2 + packedPoints.length +
+      this.paragraphTreeSize(paragraphTree) + (signature ? SIGNATURE_SECTION_SIZE : 0) + this.referencePairsSize(referencePairs);
+
+    const bytes = new Uint8Array(WatermarkPayloadCodec.HEADER_SIZE + bodySize + WatermarkPayloadCodec.CRC_SIZE);
+    const view = new DataView(bytes.buffer);
+    let offset = 0;
+
+    bytes.set(WatermarkPayloadCodec.MAGIC, offset);
+    offset += WatermarkPayloadCodec.MAGIC.length;
+    view.setUint8(offset, WATERMARK_PAYLOAD_VERSION);
+    offset += 1;
+    view.setUint16(offset, flags);
+    offset += 2;
+    view.setUint32(offset, bodySize);
+    offset += 4;
+
+    view.setBigUint64(offset, BigInt(watermarkData.timestamp));
+    offset += 8;
+    if (sealedFields) {
+      view.setUint32(offset, sealedFields.ciphertext.length);
+      offset += 4;
+      bytes.set(sealedFields.iv, offset);
+      offset += SEAL_IV_SIZE;
+      bytes.set(sealedFields.ciphertext, offset);
+      offset += sealedFields.ciphertext.length;
+    } else {
+      offset = this.writeDigest(bytes, offset, watermarkData.contentHash, digestSize, legacy);
+      offset = this.writeDigest(bytes, offset, watermarkData.fingerprintHash, digestSize, legacy);
+    }
+    offset = this.writeDigest(bytes, offset, watermarkData.secretCheck.salt, WatermarkPayloadCodec.SALT_SIZE, false);
+    offset = this.writeDigest(bytes, offset, watermarkData.secretCheck.digest, WatermarkPayloadCodec.SECRET_DIGEST_SIZE, false);
+    view.setUint16(offset, points.length);
+    offset += 2;
+    bytes.set(packedPoints, offset);
+    offset += packedPoints.length;
+    offset = this.writeParagraphTree(bytes, offset, paragraphTree);
+    if (signature) {
+      for (const part of [signature.keyId, signature.publicKey, signature.signature]) {
+        bytes.set(part, offset);
+        offset += part.length;
+      }
+    }
+    offset = this.writeReferencePairs(bytes, offset, referencePairs);
+
+    view.setUint32(offset, this.crc32(bytes.subarray(0, offset)));
+    return bytes;
+  }
+
+  /**
+   * Encode the fields hidden by PAYLOAD_FLAG_SEALED_FIELDS, ready to be sealed:
+   * flags (2) | content digest (32) | fingerprint digest (32) | [paragraph tree] | [minutiae template]
+   */
+  encodeSensitiveFields(watermarkData: WatermarkData): Uint8Array {
+    const digestSize = this.digestSize(false);
+    const paragraphTree = watermarkData.paragraphTree;
+    const template = watermarkData.minutiaeTemplate?.slice(0, WatermarkPayloadCodec.TEMPLATE_MINUTIAE);
+    const bytes = new Uint8Array(
+      2 + digestSize * 2 + this.paragraphTreeSize(paragraphTree) + this.minutiaeTemplateSize(template)
+    );
+    const view = new DataView(bytes.buffer);
+
+    let flags = paragraphTree ? WatermarkPayloadCodec.PAYLOAD_FLAG_PARAGRAPH_TREE : 0;
+    if (template) {
+      flags |= WatermarkPayloadCodec.PAYLOAD_FLAG_MINUTIAE_TEMPLATE;
+    }
+    view.setUint16(0, flags);
+    let offset = this.writeDigest(bytes, 2, watermarkData.contentHash, digestSize, false);
+    offset = this.writeDigest(bytes, offset, watermarkData.fingerprintHash, digestSize, false);
+    offset = this.writeParagraphTree(bytes, offset, paragraphTree);
+    this.writeMinutiaeTemplate(bytes, offset, template);
+    return bytes;
+  }
+
+  /**
+   * Decode opened sensitive fields; null when the plaintext is malformed
+   */
+  decodeSensitiveFields(
+    bytes: Uint8Array
+  ): Pick<WatermarkData, 'contentHash' | 'fingerprintHash' | 'paragraphTree' | 'minutiaeTemplate'> | null {
+    const digestSize = this.digestSize(false);
+    if (bytes.length < 2 + digestSize * 2) {
+      return null;
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const flags = view.getUint16(0);
+    const contentHash = this.readDigest(bytes, 2, digestSize, false);
+    const fingerprintHash = this.readDigest(bytes, 2 + digestSize, digestSize, false);
+    let offset = 2 + digestSize * 2;
+    const paragraphTree =
+      flags & WatermarkPayloadCodec.PAYLOAD_FLAG_PARAGRAPH_TREE
+        ? this.readParagraphTree(bytes, offset, bytes.length)
+        : undefined;
+    if (paragraphTree === null) {
+      return null;
+    }
+    offset += this.paragraphTreeSize(paragraphTree);
+    const minutiaeTemplate =
+      flags & WatermarkPayloadCodec.PAYLOAD_FLAG_MINUTIAE_TEMPLATE
+        ? this.readMinutiaeTemplate(bytes, offset, bytes.length)
+        : undefined;
+    if (minutiaeTemplate === null) {
+      return null;
+    }
+
+    return { contentHash, fingerprintHash, paragraphTree, minutiaeTemplate };
+  }
+
+  /**
+   * Decode a payload, distinguishing a missing watermark from a damaged one
+   */
+  decode(bytes: Uint8Array): WatermarkExtraction {
+    if (bytes.length === 0) {
+      return { status: 'absent' };
+    }
+    if (bytes[0] === WatermarkPayloadCodec.MAGIC[0] && bytes[1] === WatermarkPayloadCodec.MAGIC[1]) {
+      return this.decodeBinary(bytes);
+    }
+    if (bytes[0] === '{'.charCodeAt(0)) {
+      return this.decodeLegacyJson(bytes);
+    }
+    return { status: 'corrupt', reason: 'Unrecognized payload marker' };
+  }
+
+  private decodeBinary(bytes: Uint8Array): WatermarkExtraction {
+    const { HEADER_SIZE, CRC_SIZE, SALT_SIZE, SECRET_DIGEST_SIZE } = WatermarkPayloadCodec;
+    if (bytes.length < HEADER_SIZE) {
+      return { status: 'corrupt', reason: 'Payload header truncated' };
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const version = view.getUint8(2);
+    const flags = view.getUint16(3);
+    const bodySize = view.getUint32(5);
+    if (version < WatermarkPayloadCodec.MIN_BINARY_VERSION || version > WATERMARK_PAYLOAD_VERSION) {
+      return { status: 'corrupt', reason: `Unsupported payload version ${version}` };
+    }
+
+    const totalSize = HEADER_SIZE + bodySize + CRC_SIZE;
+    if (bytes.length < totalSize) {
+      return { status: 'corrupt', reason: `Payload truncated (${bytes.length} of ${totalSize} bytes)` };
+    }
+    if (view.getUint32(HEADER_SIZE + bodySize) !== this.crc32(bytes.subarray(0, HEADER_SIZE + bodySize))) {
+      return { status: 'corrupt', reason: 'Payload checksum mismatch' };
+    }
+
+    const legacy = (flags & WatermarkPayloadCodec.PAYLOAD_FLAG_LEGACY_HASH) !== 0;
+    const sealed = (flags & WatermarkPayloadCodec.PAYLOAD_FLAG_SEALED_FIELDS) !== 0;
+    const digestSize = this.digestSize(legacy);
+    const bodyEnd = HEADER_SIZE + bodySize;
+    let offset = HEADER_SIZE;
+
+    // Every fixed-size field is checked against the body before it is read
+    if (offset + 8 + (sealed ? 4 : digestSize * 2) > bodyEnd) {
+      return { status: 'corrupt', reason: 'Payload body truncated' };
+    }
+    const timestamp = Number(view.getBigUint64(offset));
+    offset += 8;
+    let contentHash = '';
+    let fingerprintHash = '';
+    let sealedFields: SealedBox | undefined;
+    if (sealed) {
+      const ciphertextLength = view.getUint32(offset);
+      offset += 4;
+      if (offset + SEAL_IV_SIZE + ciphertextLength > bodyEnd) {
+        return { status: 'corrupt', reason: 'Sealed field section truncated' };
+      }
+      sealedFields = {
+        iv: bytes.slice(offset, offset + SEAL_IV_SIZE),
+        ciphertext: bytes.slice(offset + SEAL_IV_SIZE, offset + SEAL_IV_SIZE + ciphertextLength)
+      };
+      offset += SEAL_IV_SIZE + ciphertextLength;
+    } else {
+      contentHash = this.readDigest(bytes, offset, digestSize, legacy);
+      offset += digestSize;
+      fingerprintHash = this.readDigest(bytes, offset, digestSize, legacy);
+      offset += digestSize;
+    }
+    if (offset + SALT_SIZE + SECRET_DIGEST_SIZE + 2 > bodyEnd) {
+      return { status: 'corrupt', reason: 'Secret check section truncated' };
+    }
+    const salt = this.readDigest(bytes, offset, SALT_SIZE, false);
+    offset += SALT_SIZE;
+    const secretDigest = this.readDigest(bytes, offset, SECRET_DIGEST_SIZE, false);
+    offset += SECRET_DIGEST_SIZE;
+    const pointCount = view.getUint16(offset);
+    offset += 2;
+    const vault = this.unpackVaultPoints(bytes.subarray(offset, bodyEnd), pointCount);
+    if (!vault) {
+      return { status: 'corrupt', reason: 'Vault point section truncated' };
+    }
+    offset += Math.ceil((pointCount * 2 * WatermarkPayloadCodec.VAULT_VALUE_BITS) / 8);
+
+    let paragraphTree: ParagraphTree | undefined;
+    if (flags & WatermarkPayloadCodec.PAYLOAD_FLAG_PARAGRAPH_TREE) {
+      const tree = this.readParagraphTree(bytes, offset, bodyEnd);
+      if (!tree) {
+        return { status: 'corrupt', reason: 'Paragraph tree section truncated' };
+      }
+      paragraphTree = tree;
+      offset += this.paragraphTreeSize(tree);
+    }
+
+    let signature: DocumentSignature | undefined;
+    if (flags & WatermarkPayloadCodec.PAYLOAD_FLAG_SIGNATURE) {
+      if (offset + SIGNATURE_SECTION_SIZE > bodyEnd) {
+        return { status: 'corrupt', reason: 'Signature section truncated' };
+      }
+      const publicKeyOffset = offset + SIGNING_KEY_ID_SIZE;
+      const signatureOffset = publicKeyOffset + SIGNING_PUBLIC_KEY_SIZE;
+      signature = {
+        keyId: bytes.slice(offset, publicKeyOffset),
+        publicKey: bytes.slice(publicKeyOffset, signatureOffset),
+        signature: bytes.slice(signatureOffset, signatureOffset + SIGNATURE_SIZE)
+      };
+      offset += SIGNATURE_SECTION_SIZE;
+    }
+
+    let referencePairs: ReferencePair[] | undefined;
+    if (flags & WatermarkPayloadCodec.PAYLOAD_FLAG_REFERENCE_PAIRS) {
+      const pairs = this.readReferencePairs(bytes, offset, bodyEnd);
+      if (!pairs) {
+        return { status: 'corrupt', reason: 'Reference pair section truncated' };
+      }
+      referencePairs = pairs;
+      offset += this.referencePairsSize(pairs);
+    }
+
+    return {
+      status: 'found',
+      correctedSymbols: 0,
+      copiesFound: 1,
+      data: {
+        fingerprintHash,
+        vault: {
+          vault,
+          secret: '', // Never embedded - recovered by unlocking the vault
+          polynomial: [], // Will be reconstructed during verification
+          encoding: flags & WatermarkPayloadCodec.PAYLOAD_FLAG_ALIGNED_VAULT ? 'aligned' : 'absolute',
+          coefficients:
+            version >= 5 ? FuzzyVaultGenerator.SECRET_COEFFICIENTS : FuzzyVaultGenerator.LEGACY_SECRET_COEFFICIENTS,
+          referencePairs
+        },
+        secretCheck: { salt, digest: secretDigest },
+        timestamp,
+        contentHash,
+        hashAlgorithm: legacy ? LEGACY_HASH_ALGORITHM : DEFAULT_HASH_ALGORITHM,
+        payloadVersion: version,
+        paragraphTree,
+        sealedFields,
+        documentSealed: (flags & WatermarkPayloadCodec.PAYLOAD_FLAG_SEALED_DOCUMENT) !== 0,
+        signature
+      }
+    };
+  }
+
+  /**
+   * Decode the JSON payloads written before the binary container (versions 1 and 2)
+   */
+  private decodeLegacyJson(bytes: Uint8Array): WatermarkExtraction {
+    let ultraCompactData: UltraCompactWatermarkData;
+    try {
+      ultraCompactData = JSON.parse(String.fromCharCode(...bytes));
+    } catch (error) {
+      return { status: 'corrupt', reason: 'Legacy JSON payload could not be parsed' };
+    }
+
+    return {
+      status: 'found',
+      correctedSymbols: 0,
+      copiesFound: 1,
+      data: {
+        fingerprintHash: ultraCompactData.f,
+        vault: {
+          vault: ultraCompactData.v || [],
+          secret: '',
+          polynomial: []
+        },
+        secretCheck: {
+          salt: ultraCompactData.k ?? '',
+          digest: ultraCompactData.h ?? ''
+        },
+        timestamp: ultraCompactData.t,
+        contentHash: ultraCompactData.c || '', // Backward compatibility for old watermarks
+        hashAlgorithm: ultraCompactData.a || LEGACY_HASH_ALGORITHM,
+        payloadVersion: ultraCompactData.p || 1
+      }
+    };
+  }
+
+  private paragraphTreeSize(tree: ParagraphTree | undefined): number {
+    return tree ? MERKLE_ROOT_SIZE + 2 + tree.leaves.length * PARAGRAPH_LEAF_SIZE : 0;
+  }
+
+  /**
+   * Merkle root (32) | paragraph count (2) | leaf digests (4 each); writes nothing without a tree
+   */
+  private writeParagraphTree(bytes: Uint8Array, offset: number, tree: ParagraphTree | undefined): number {
+    if (!tree) {
+      return offset;
+    }
+    offset = this.writeDigest(bytes, offset, tree.root, MERKLE_ROOT_SIZE, false);
+    new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength).setUint16(offset, tree.leaves.length);
+    offset += 2;
+    for (const leaf of tree.leaves) {
+      offset = this.writeDigest(bytes, offset, leaf, PARAGRAPH_LEAF_SIZE, false);
+    }
+    return offset;
+  }
+
+  private readParagraphTree(bytes: Uint8Array, offset: number, end: number): ParagraphTree | null {
+    if (offset + MERKLE_ROOT_SIZE + 2 > end) {
+      return null;
+    }
+    const root = this.readDigest(bytes, offset, MERKLE_ROOT_SIZE, false);
+    offset += MERKLE_ROOT_SIZE;
+    const leafCount = (bytes[offset] << 8) | bytes[offset + 1];
+    offset += 2;
+    if (offset + leafCount * PARAGRAPH_LEAF_SIZE > end) {
+      return null;
+    }
+    const leaves: string[] = [];
+    for (let i = 0; i < leafCount; i++) {
+      leaves.push(this.readDigest(bytes, offset, PARAGRAPH_LEAF_SIZE, false));
+      offset += PARAGRAPH_LEAF_SIZE;
+    }
+    return { root, leaves };
+  }
+
+  private minutiaeTemplateSize(template: MinutiaePoint[] | undefined): number {
+    return template ? 1 + template.length * WatermarkPayloadCodec.TEMPLATE_MINUTIA_SIZE : 0;
+  }
+
+  /**
+   * Minutia count (1) | per minutia: x (2, top bit set for bifurcations) | y (2) | angle (1, 360/256° steps)
+   */
+  private writeMinutiaeTemplate(bytes: Uint8Array, offset: number, template: MinutiaePoint[] | undefined): number {
+    if (!template) {
+      return offset;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint8(offset, template.length);
+    offset += 1;
+    for (const minutia of template) {
+      const x = Math.min(0x7fff, Math.max(0, Math.round(minutia.x)));
+      view.setUint16(offset, minutia.type === 'bifurcation' ? x | 0x8000 : x);
+      view.setUint16(offset + 2, Math.min(0xffff, Math.max(0, Math.round(minutia.y))));
+      view.setUint8(offset + 4, Math.round((((minutia.angle % 360) + 360) % 360) * 256 / 360) % 256);
+      offset += WatermarkPayloadCodec.TEMPLATE_MINUTIA_SIZE;
+    }
+    return offset;
+  }
+
+  private readMinutiaeTemplate(bytes: Uint8Array, offset: number, end: number): MinutiaePoint[] | null {
+    if (offset + 1 > end) {
+      return null;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint8(offset);
+    offset += 1;
+    if (offset + count * WatermarkPayloadCodec.TEMPLATE_MINUTIA_SIZE > end) {
+      return null;
+    }
+    const template: MinutiaePoint[] = [];
+    for (let i = 0; i < count; i++) {
+      const x = view.getUint16(offset);
+      template.push({
+        x: x & 0x7fff,
+        y: view.getUint16(offset + 2),
+        angle: (view.getUint8(offset + 4) * 360) / 256,
+        type: x & 0x8000 ? 'bifurcation' : 'ending'
+      });
+      offset += WatermarkPayloadCodec.TEMPLATE_MINUTIA_SIZE;
+    }
+    return template;
+  }
+
+  private referencePairsSize(pairs: ReferencePair[] | undefined): number {
+    return pairs ? 1 + pairs.length * WatermarkPayloadCodec.REFERENCE_PAIR_SIZE : 0;
+  }
+
+  /**
+   * Pair count (1) | per pair: length (2) | angleA (2) | angleB (2) | types (1, bit 0 first and
+   * bit 1 second minutia a bifurcation) | frame radius (2) | frame theta (2) | frame angle (2)
+   */
+  private writeReferencePairs(bytes: Uint8Array, offset: number, pairs: ReferencePair[] | undefined): number {
+    if (!pairs) {
+      return offset;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    view.setUint8(offset, pairs.length);
+    offset += 1;
+    for (const pair of pairs) {
+      view.setUint16(offset, pair.length);
+      view.setUint16(offset + 2, pair.angleA);
+      view.setUint16(offset + 4, pair.angleB);
+      view.setUint8(offset + 6, (pair.typeA === 'bifurcation' ? 1 : 0) | (pair.typeB === 'bifurcation' ? 2 : 0));
+      view.setUint16(offset + 7, pair.frame.radius);
+      view.setUint16(offset + 9, pair.frame.theta);
+      view.setUint16(offset + 11, pair.frame.angle);
+      offset += WatermarkPayloadCodec.REFERENCE_PAIR_SIZE;
+    }
+    return offset;
+  }
+
+  private readReferencePairs(bytes: Uint8Array, offset: number, end: number): ReferencePair[] | null {
+    if (offset + 1 > end) {
+      return null;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const count = view.getUint8(offset);
+    offset += 1;
+    if (offset + count * WatermarkPayloadCodec.REFERENCE_PAIR_SIZE > end) {
+      return null;
+    }
+    const pairs: ReferencePair[] = [];
+    for (let i = 0; i < count; i++) {
+      const types = view.getUint8(offset + 6);
+      pairs.push({
+        length: view.getUint16(offset),
+        angleA: view.getUint16(offset + 2),
+        angleB: view.getUint16(offset + 4),
+        typeA: types & 1 ? 'bifurcation' : 'ending',
+        typeB: types & 2 ? 'bifurcation' : 'ending',
+        frame: { radius: view.getUint16(offset + 7), theta: view.getUint16(offset + 9), angle: view.getUint16(offset + 11) }
+      });
+      offset += WatermarkPayloadCodec.REFERENCE_PAIR_SIZE;
+    }
+    return pairs;
+  }
+
+  private digestSize(legacy: boolean): number {
+    return legacy ? 4 : 32;
+  }
+
+  /**
+   * Write a hex digest as fixed-width bytes; legacy hashes are unpadded 32-bit hex numbers
+   */
+  private writeDigest(bytes: Uint8Array, offset: number, hex: string, size: number, legacy: boolean): number {
+    const normalized = legacy ? (hex || '0').padStart(size * 2, '0') : hex || '';
+    for (let i = 0; i < size; i++) {
+      const byte = parseInt(normalized.substr(i * 2, 2), 16);
+      bytes[offset + i] = Number.isNaN(byte) ? 0 : byte;
+    }
+    return offset + size;
+  }
+
+  private readDigest(bytes: Uint8Array, offset: number, size: number, legacy: boolean): string {
+    const hex = Array.from(bytes.subarray(offset, offset + size), byte => byte.toString(16).padStart(2, '0')).join('');
+    return legacy ? parseInt(hex, 16).toString(16) : hex;
+  }
+
+  private packVaultPoints(points: number[][]): Uint8Array {
+    const bits = WatermarkPayloadCodec.VAULT_VALUE_BITS;
+    const packed = new Uint8Array(Math.ceil((points.length * 2 * bits) / 8));
+    let bitOffset = 0;
+    for (const [x, y] of points) {
+      for (const value of [x, y]) {
+        for (let bit = bits - 1; bit >= 0; bit--) {
+          if ((value >> bit) & 1) {
+            packed[bitOffset >> 3] |= 0x80 >> (bitOffset & 7);
+          }
+          bitOffset++;
+        }
+      }
+    }
+    return packed;
+  }
+
+  private unpackVaultPoints(packed: Uint8Array, count: number): number[][] | null {
+    const bits = WatermarkPayloadCodec.VAULT_VALUE_BITS;
+    if (packed.length < Math.ceil((count * 2 * bits) / 8)) {
+      return null;
+    }
+    const points: number[][] = [];
+    let bitOffset = 0;
+    for (let i = 0; i < count; i++) {
+      const point: number[] = [];
+      for (let j = 0; j < 2; j++) {
+        let value = 0;
+        for (let bit = 0; bit < bits; bit++) {
+          value = (value << 1) | ((packed[bitOffset >> 3] >> (7 - (bitOffset & 7))) & 1);
+          bitOffset++;
+        }
+        point.push(value);
+      }
+      points.push(point);
+    }
+    return points;
+  }
+
+  /**
+   * CRC-32 (IEEE 802.3, reflected polynomial 0xEDB88320)
+   */
+  private crc32(bytes: Uint8Array): number {
+    const table = WatermarkPayloadCodec.getCrcTable();
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+      crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+  }
+
+  private static getCrcTable(): Uint32Array {
+    if (!WatermarkPayloadCodec.crcTable) {
+      const table = new Uint32Array(256);
+      for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+          c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+      }
+      WatermarkPayloadCodec.crcTable = table;
+    }
+    return WatermarkPayloadCodec.crcTable;
+  }
+}
+
+/**
+ * Phase 3: Watermark embedding in text documents
+ */
+export class DocumentWatermarker {
+  private static readonly COPY_MARKER = '\u2063'; // Invisible Separator starts every payload copy
+  private static readonly FRAME_MARKER = '\u2060'; // Word Joiner starts every frame
+  private static readonly MAX_COPIES = 16;
+  private static readonly FRAME_DATA_SIZE = 32;
+  private static readonly FRAME_HEADER_SIZE = 5; // index (2) | codewords | codeword length | parity symbols
+  private static readonly FRAME_SIZE = DocumentWatermarker.FRAME_HEADER_SIZE + DocumentWatermarker.FRAME_DATA_SIZE + 1; // + CRC-8
+  private readonly payloadCodec = new WatermarkPayloadCodec();
+  private readonly redundancy: number;
+  private readonly copies: number;
+
+  constructor(options: DocumentWatermarkerOptions = {}) {
+    this.redundancy = Math.min(0.9, Math.max(0, options.redundancy ?? 0.25));
+    this.copies = Math.min(DocumentWatermarker.MAX_COPIES, Math.max(1, Math.floor(options.copies ?? 1)));
   }
 
   /**
-   * Attempt to unlock vault with minutiae points
+   * Embed watermark in text document
    */
-  unlockVault(vault: FuzzyVault, minutiae: MinutiaePoint[]): string | null {
-    try {
-      // Find matching points
-      const matchingPoints = this.findMatchingPoints(vault.vault, minutiae);
-      
-      if (matchingPoints.length < vault.polynomial.length) {
-        return null; // Not enough points to reconstruct polynomial
-      }
-      
-      // Reconstruct polynomial using Lagrange interpolation
-      const reconstructedPolynomial = this.lagrangeInterpolation(matchingPoints);
-      
-      // Convert polynomial back to secret
-      const secret = this.polynomialToSecret(reconstructedPolynomial);
-      
-      return secret;
-    } catch (error) {
-      return null;
-    }
+  embedWatermark(text: string, watermarkData: WatermarkData): WatermarkEmbeddingResult {
+    // Encode into the compact binary container and protect it with Reed–Solomon parity
+    const { frames, errorCorrection } = this.encodeFrames(this.payloadCodec.encode(watermarkData));
+    const copy =
+      DocumentWatermarker.COPY_MARKER +
+      frames
+        .map(frame => DocumentWatermarker.FRAME_MARKER + this.binaryToInvisibleText(this.bytesToBinary(frame)))
+        .join('');
+    const invisibleCopies = new Array<string>(this.copies).fill(copy);
+    
+    // Embed using zero-width characters, one stretch of the text per copy
+    const watermarkedText = this.embedWithZeroWidth(text, invisibleCopies);
+    
+    return { watermarkedText, invisiblePayload: invisibleCopies.join(''), invisibleCopies, errorCorrection };
   }
 
   /**
-   * Find points in vault that match given minutiae
+   * Extract watermark from text document, repairing lost or flipped bits where parity allows
    */
-  private findMatchingPoints(vault: number[][], minutiae: MinutiaePoint[]): number[][] {
-    const matching: number[][] = [];
+  extractWatermark(text: string): WatermarkExtraction {
+    // Extract binary data from zero-width characters
+    const extracted = this.extractFromZeroWidth(text);
     
-    for (const minutia of minutiae) {
-      const encodedX = this.encodeMinutia(minutia);
-      
-      for (const point of vault) {
-        if (point[0] === encodedX) {
-          matching.push(point);
-          break;
-        }
+    if (!extracted) {
+      return { status: 'absent' };
+    }
+
+    if (extracted.copies.every(frames => frames.length === 0)) {
+      // Payloads embedded before framing carry one unprotected bit stream
+      if (extracted.unframed.length % 8 !== 0) {
+        return { status: 'corrupt', reason: 'Payload is not byte aligned' };
       }
+      return this.payloadCodec.decode(this.binaryToBytes(extracted.unframed));
     }
     
-    return matching;
+    const { frames, damagedFrames, copiesFound } = this.voteFrames(extracted.copies);
+    const decoded = this.decodeFrames(frames, damagedFrames);
+    if ('reason' in decoded) {
+      return { status: 'corrupt', reason: decoded.reason };
+    }
+
+    const extraction = this.payloadCodec.decode(decoded.payload);
+    return extraction.status === 'found'
+      ? { ...extraction, correctedSymbols: decoded.correctedSymbols, copiesFound }
+      : extraction;
   }
 
   /**
-   * Lagrange interpolation to reconstruct polynomial
+   * Merge the frames of every copy: frames claiming the same index are combined by a
+   * bit-by-bit majority vote, falling back to any single copy whose CRC still holds.
+   * Where no candidate passes the CRC the majority is returned as a damaged frame.
    */
-  private lagrangeInterpolation(points: number[][]): number[] {
-    const n = points.length;
-    const coefficients: number[] = new Array(n).fill(0);
-    
-    for (let i = 0; i < n; i++) {
-      const [xi, yi] = points[i];
-      let term = new Array(n).fill(0);
-      term[0] = yi;
-      
-      for (let j = 0; j < n; j++) {
-        if (i !== j) {
-          const [xj] = points[j];
-          const denominator = this.modInverse((xi - xj + this.fieldSize) % this.fieldSize, this.fieldSize);
-          
-          // Multiply by (x - xj) / (xi - xj)
-          const newTerm = new Array(n).fill(0);
-          for (let k = 0; k < n; k++) {
-            newTerm[k] = (term[k] * denominator) % this.fieldSize;
-            if (k > 0) {
-              newTerm[k] = (newTerm[k] - term[k - 1] * xj * denominator) % this.fieldSize;
-            }
-          }
-          term = newTerm;
+  private voteFrames(copies: string[][]): { frames: Uint8Array[]; damagedFrames: Uint8Array[]; copiesFound: number } {
+    const { FRAME_SIZE } = DocumentWatermarker;
+    const candidates = new Map<number, { copy: number; bits: string }[]>();
+
+    copies.forEach((frames, copy) => {
+      for (const bits of frames) {
+        if (bits.length !== FRAME_SIZE * 8) {
+          continue; // Bits lost or added - this copy of the frame cannot take part in the vote
         }
+        const index = parseInt(bits.slice(0, 16), 2);
+        candidates.set(index, [...(candidates.get(index) ?? []), { copy, bits }]);
       }
-      
-      // Add to coefficients
-      for (let k = 0; k < n; k++) {
-        coefficients[k] = (coefficients[k] + term[k]) % this.fieldSize;
+    });
+
+    const frames: Uint8Array[] = [];
+    const damagedFrames: Uint8Array[] = [];
+    const contributingCopies = new Set<number>();
+    for (const group of candidates.values()) {
+      let majority = '';
+      for (let bit = 0; bit < FRAME_SIZE * 8; bit++) {
+        const ones = group.filter(candidate => candidate.bits[bit] === '1').length;
+        majority += ones * 2 > group.length ? '1' : '0';
+      }
+
+      const resolved = [majority, ...group.map(candidate => candidate.bits)].find(bits => this.isIntactFrame(bits));
+      if (!resolved) {
+        damagedFrames.push(this.binaryToBytes(majority));
+        continue;
+      }
+      frames.push(this.binaryToBytes(resolved));
+      for (const candidate of group) {
+        if (candidate.bits === resolved) {
+          contributingCopies.add(candidate.copy);
+        }
       }
     }
-    
-    return coefficients;
+
+    return { frames, damagedFrames, copiesFound: contributingCopies.size };
+  }
+
+  private isIntactFrame(bits: string): boolean {
+    const { FRAME_SIZE } = DocumentWatermarker;
+    const frame = this.binaryToBytes(bits);
+    return this.crc8(frame.subarray(0, FRAME_SIZE - 1)) === frame[FRAME_SIZE - 1];
   }
 
   /**
-   * Convert polynomial back to secret
+   * Split the payload into interleaved Reed–Solomon codewords and cut the result into
+   * self-describing frames, so a frame lost with a deleted word becomes a set of erasures
    */
-  private polynomialToSecret(polynomial: number[]): string {
-    const bytes: number[] = [];
-    for (const coeff of polynomial) {
-      bytes.push(coeff);
+  private encodeFrames(payload: Uint8Array): { frames: Uint8Array[]; errorCorrection: ErrorCorrectionInfo } {
+    const { FRAME_DATA_SIZE, FRAME_HEADER_SIZE, FRAME_SIZE } = DocumentWatermarker;
+    const maxDataSymbols = Math.max(1, Math.floor(MAX_CODEWORD_LENGTH * (1 - this.redundancy)));
+    const codewords = Math.ceil(payload.length / maxDataSymbols);
+    const dataSymbols = Math.ceil(payload.length / codewords);
+    const paritySymbols =
+      this.redundancy > 0
+        ? Math.min(MAX_CODEWORD_LENGTH - dataSymbols, Math.max(2, Math.ceil((dataSymbols * this.redundancy) / (1 - this.redundancy))))
+        : 0;
+    const codewordLength = dataSymbols + paritySymbols;
+
+    // Interleave: symbol s of codeword j sits at stream position s * codewords + j
+    const stream = new Uint8Array(codewords * codewordLength);
+    for (let j = 0; j < codewords; j++) {
+      const data = new Uint8Array(dataSymbols);
+      for (let symbol = 0; symbol < dataSymbols; symbol++) {
+        data[symbol] = payload[symbol * codewords + j] ?? 0;
+      }
+      const codeword = rsEncode(data, paritySymbols);
+      for (let symbol = 0; symbol < codewordLength; symbol++) {
+        stream[symbol * codewords + j] = codeword[symbol];
+      }
+    }
+
+    const frames: Uint8Array[] = [];
+    for (let index = 0; index * FRAME_DATA_SIZE < stream.length; index++) {
+      const frame = new Uint8Array(FRAME_SIZE);
+      frame.set([index >> 8, index & 0xff, codewords, codewordLength, paritySymbols]);
+      frame.set(stream.subarray(index * FRAME_DATA_SIZE, (index + 1) * FRAME_DATA_SIZE), FRAME_HEADER_SIZE);
+      frame[FRAME_SIZE - 1] = this.crc8(frame.subarray(0, FRAME_SIZE - 1));
+      frames.push(frame);
     }
-    return bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+    return {
+      frames,
+      errorCorrection: {
+        codewords,
+        paritySymbols,
+        correctableSymbols: Math.floor(paritySymbols / 2)
+      }
+    };
   }
 
   /**
-   * Modular inverse using extended Euclidean algorithm
+   * Reassemble intact frames, treat missing ones as erasures and run Reed–Solomon decoding.
+   * A damaged frame whose header still matches the code layout and whose index is in range and
+   * not taken by an intact frame fills its slot too: a few flipped bits then cost one unknown
+   * error per byte rather than a whole frame of erasures. A codeword that cannot be repaired
+   * that way is retried with the damaged frames' symbols as erasures.
    */
-  private modInverse(a: number, m: number): number {
-    let [oldR, r] = [a, m];
-    let [oldS, s] = [1, 0];
-    
-    while (r !== 0) {
-      const quotient = Math.floor(oldR / r);
-      [oldR, r] = [r, oldR - quotient * r];
-      [oldS, s] = [s, oldS - quotient * s];
+  private decodeFrames(
+    validFrames: Uint8Array[],
+    damagedFrames: Uint8Array[] = []
+  ): { payload: Uint8Array; correctedSymbols: number } | { reason: string } {
+    const { FRAME_DATA_SIZE, FRAME_HEADER_SIZE } = DocumentWatermarker;
+
+    if (validFrames.length === 0 && damagedFrames.length === 0) {
+      return { reason: 'No payload frames' };
     }
-    
-    return oldS < 0 ? oldS + m : oldS;
+
+    // Every frame repeats the code layout; trust the most common one
+    const layoutVotes = new Map<string, number>();
+    for (const frame of [...validFrames, ...damagedFrames]) {
+      const key = `${frame[2]},${frame[3]},${frame[4]}`;
+      layoutVotes.set(key, (layoutVotes.get(key) ?? 0) + 1);
+    }
+    const [layout] = Array.from(layoutVotes.entries()).sort((a, b) => b[1] - a[1])[0];
+    const [codewords, codewordLength, paritySymbols] = layout.split(',').map(Number);
+    const dataSymbols = codewordLength - paritySymbols;
+    if (codewords === 0 || dataSymbols <= 0) {
+      return { reason: 'Invalid error correction layout' };
+    }
+
+    // Symbol state: 0 missing, 1 from an intact frame, 2 from a damaged frame
+    const stream = new Uint8Array(codewords * codewordLength);
+    const known = new Uint8Array(stream.length);
+    const intactIndices = new Set<number>();
+    for (const frame of validFrames) {
+      if (`${frame[2]},${frame[3]},${frame[4]}` !== layout) {
+        continue;
+      }
+      const index = (frame[0] << 8) | frame[1];
+      intactIndices.add(index);
+      const offset = index * FRAME_DATA_SIZE;
+      for (let i = 0; i < FRAME_DATA_SIZE && offset + i < stream.length; i++) {
+        stream[offset + i] = frame[FRAME_HEADER_SIZE + i];
+        known[offset + i] = 1;
+      }
+    }
+    for (const frame of damagedFrames) {
+      const index = (frame[0] << 8) | frame[1];
+      const offset = index * FRAME_DATA_SIZE;
+      if (`${frame[2]},${frame[3]},${frame[4]}` !== layout || offset >= stream.length || intactIndices.has(index)) {
+        continue; // Header damaged too: the frame's position cannot be trusted
+      }
+      intactIndices.add(index);
+      for (let i = 0; i < FRAME_DATA_SIZE && offset + i < stream.length; i++) {
+        stream[offset + i] = frame[FRAME_HEADER_SIZE + i];
+        known[offset + i] = 2;
+      }
+    }
+
+    const payload = new Uint8Array(codewords * dataSymbols);
+    let correctedSymbols = 0;
+    for (let j = 0; j < codewords; j++) {
+      const codeword = new Uint8Array(codewordLength);
+      const erasures: number[] = [];
+      const damaged: number[] = [];
+      for (let symbol = 0; symbol < codewordLength; symbol++) {
+        codeword[symbol] = stream[symbol * codewords + j];
+        if (!known[symbol * codewords + j]) {
+          erasures.push(symbol);
+        } else if (known[symbol * codewords + j] === 2) {
+          damaged.push(symbol);
+        }
+      }
+
+      const decoded = this.repairCodeword(codeword, paritySymbols, erasures, damaged);
+      if (!decoded) {
+        return { reason: `Payload damaged beyond repair (codeword ${j + 1} of ${codewords})` };
+      }
+      correctedSymbols += decoded.correctedSymbols;
+      for (let symbol = 0; symbol < dataSymbols; symbol++) {
+        payload[symbol * codewords + j] = decoded.data[symbol];
+      }
+    }
+
+    return { payload, correctedSymbols };
   }
-}
 
-/**
- * Phase 3: Watermark embedding in text documents
- */
-export class DocumentWatermarker {
   /**
-   * Embed watermark in text document
+   * Decode with the damaged symbols as unknown errors, then as erasures; null when neither works
    */
-  embedWatermark(text: string, watermarkData: WatermarkData): WatermarkEmbeddingResult {
-    // Convert to ultra-compact format to minimize size
-    const ultraCompactData: UltraCompactWatermarkData = {
-      f: watermarkData.fingerprintHash,
-      s: watermarkData.vault.secret,
-      t: watermarkData.timestamp,
-      c: watermarkData.contentHash
-    };
-    
-    // Convert ultra-compact watermark data to binary
-    const watermarkBinary = this.dataToBinary(ultraCompactData);
-    const invisiblePayload = this.binaryToInvisibleText(watermarkBinary);
-    
-    // Embed using zero-width characters
-    const watermarkedText = this.embedWithZeroWidth(text, invisiblePayload);
-    
-    return { watermarkedText, invisiblePayload };
+  private repairCodeword(
+    codeword: Uint8Array,
+    paritySymbols: number,
+    erasures: number[],
+    damaged: number[]
+  ): ReedSolomonDecodeResult | null {
+    const attempts = damaged.length > 0 ? [erasures, [...erasures, ...damaged]] : [erasures];
+    for (const attempt of attempts) {
+      try {
+        return rsDecode(codeword, paritySymbols, attempt);
+      } catch (error) {
+        if (!(error instanceof ReedSolomonError)) {
+          throw error;
+        }
+      }
+    }
+    return null;
   }
 
   /**
-   * Extract watermark from text document
+   * CRC-8 (polynomial 0x07) guarding each frame
    */
-  extractWatermark(text: string): WatermarkData | null {
-    try {
-      // Extract binary data from zero-width characters
-      const watermarkBinary = this.extractFromZeroWidth(text);
-      
-      if (!watermarkBinary) {
-        return null;
+  private crc8(bytes: Uint8Array): number {
+    let crc = 0;
+    for (const byte of bytes) {
+      crc ^= byte;
+      for (let bit = 0; bit < 8; bit++) {
+        crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
       }
-      
-      // Convert binary back to ultra-compact watermark data
-      const ultraCompactData = this.binaryToData(watermarkBinary) as UltraCompactWatermarkData;
-      
-      // Convert ultra-compact data back to full format
-      const watermarkData: WatermarkData = {
-        fingerprintHash: ultraCompactData.f,
-        vault: {
-          vault: [], // Empty vault - we'll use simplified verification
-          secret: ultraCompactData.s,
-          polynomial: [] // Will be reconstructed during verification
-        },
-        timestamp: ultraCompactData.t,
-        contentHash: ultraCompactData.c || '' // Backward compatibility for old watermarks
-      };
-      
-      return watermarkData;
-    } catch (error) {
-      return null;
     }
+    return crc;
   }
 
   /**
-   * Convert watermark data to binary string
+   * Convert payload bytes to a binary string
    */
-  private dataToBinary(data: WatermarkData | CompactWatermarkData | UltraCompactWatermarkData): string {
-    const jsonString = JSON.stringify(data);
+  private bytesToBinary(bytes: Uint8Array): string {
     let binary = '';
-    
-    for (let i = 0; i < jsonString.length; i++) {
-      const charCode = jsonString.charCodeAt(i);
-      binary += charCode.toString(2).padStart(8, '0');
+    for (const byte of bytes) {
+      binary += byte.toString(2).padStart(8, '0');
     }
-    
     return binary;
   }
 
   /**
-   * Convert binary string back to watermark data
+   * Convert a byte-aligned binary string back to payload bytes
    */
-  private binaryToData(binary: string): WatermarkData | CompactWatermarkData | UltraCompactWatermarkData {
-    let jsonString = '';
-    
-    for (let i = 0; i < binary.length; i += 8) {
-      const byte = binary.substr(i, 8);
-      const charCode = parseInt(byte, 2);
-      jsonString += String.fromCharCode(charCode);
+  private binaryToBytes(binary: string): Uint8Array {
+    const bytes = new Uint8Array(binary.length / 8);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(binary.substr(i * 8, 8), 2);
     }
-    
-    return JSON.parse(jsonString);
+    return bytes;
   }
 
   /**
    * Embed binary data using invisible Unicode characters distributed through the text
    */
-  private embedWithZeroWidth(text: string, payload: string): string {
-    return this.distributeInvisiblePayload(text, payload);
+  private embedWithZeroWidth(text: string, copies: string[]): string {
+    return this.distributeInvisiblePayload(text, copies);
   }
 
   /**
@@ -730,30 +2185,48 @@ export class DocumentWatermarker {
   }
 
   /**
-   * Extract binary data from invisible characters
+   * Extract binary data from invisible characters, split into copies at every copy marker
+   * and into frames at every frame marker. Frames seen before the first copy marker belong
+   * to a copy whose start was cut off and still count.
    */
-  private extractFromZeroWidth(text: string): string | null {
+  private extractFromZeroWidth(text: string): { copies: string[][]; unframed: string } | null {
     const ZERO_BIT = '\u200B';
     const ONE_BIT = '\u200C';
     const SEPARATOR = '\u200D';
-    const collected: string[] = [];
+    const unframed: string[] = [];
+    const copies: string[][][] = [[]];
+    let current = unframed;
+    let found = false;
 
     for (let i = 0; i < text.length; i++) {
       const char = text[i];
-      if (char === ZERO_BIT) {
-        collected.push('0');
+      if (char === DocumentWatermarker.COPY_MARKER) {
+        copies.push([]);
+        current = unframed; // Bits before the copy's first frame marker carry nothing
+        found = true;
+      } else if (char === DocumentWatermarker.FRAME_MARKER) {
+        current = [];
+        copies[copies.length - 1].push(current);
+        found = true;
+      } else if (char === ZERO_BIT) {
+        current.push('0');
+        found = true;
       } else if (char === ONE_BIT) {
-        collected.push('1');
+        current.push('1');
+        found = true;
       } else if (char === SEPARATOR) {
         continue;
       }
     }
 
-    if (!collected.length) {
+    if (!found) {
       return null;
     }
 
-    return collected.join('');
+    return {
+      copies: copies.map(frames => frames.map(bits => bits.join(''))),
+      unframed: unframed.join('')
+    };
   }
 
   /**
@@ -783,16 +2256,17 @@ export class DocumentWatermarker {
   }
 
   /**
-   * Distribute invisible payload across the document between words
+   * Distribute invisible payload copies across the document between words, giving each copy
+   * its own consecutive stretch of words so an excerpt covering one stretch carries a full copy
    */
-  private distributeInvisiblePayload(text: string, payload: string): string {
-    if (!payload) {
+  private distributeInvisiblePayload(text: string, copies: string[]): string {
+    if (copies.every(copy => !copy)) {
       return text;
     }
 
     const tokens = text.split(/(\s+)/);
     if (tokens.length === 0) {
-      return payload + text;
+      return copies.join('') + text;
     }
 
     const wordIndexes: number[] = [];
@@ -803,7 +2277,25 @@ export class DocumentWatermarker {
     }
 
     if (wordIndexes.length === 0) {
-      return payload + text;
+      return copies.join('') + text;
+    }
+
+    const stretchLength = Math.ceil(wordIndexes.length / copies.length);
+    copies.forEach((copy, i) => {
+      const stretch = wordIndexes.slice(i * stretchLength, (i + 1) * stretchLength);
+      // Fewer words than copies: the surplus copies trail the last word
+      this.placeInWordSlots(tokens, stretch.length > 0 ? stretch : wordIndexes.slice(-1), copy);
+    });
+
+    return tokens.join('');
+  }
+
+  /**
+   * Spread one payload over a random subset of the given word slots, keeping its order
+   */
+  private placeInWordSlots(tokens: string[], wordIndexes: number[], payload: string): void {
+    if (!payload) {
+      return;
     }
 
     const maxSlots = Math.max(1, Math.floor(wordIndexes.length * 0.3));
@@ -827,8 +2319,6 @@ export class DocumentWatermarker {
       const lastSlot = selectedSlots[selectedSlots.length - 1];
       tokens[lastSlot] = tokens[lastSlot] + payload.slice(payloadIndex);
     }
-
-    return tokens.join('');
   }
 
   private pickRandomWordSlots(wordIndexes: number[], count: number): number[] {
@@ -861,66 +2351,113 @@ export class BiometricEncryptionService {
   private fingerprintProcessor: FingerprintProcessor;
   private fuzzyVaultGenerator: FuzzyVaultGenerator;
   private documentWatermarker: DocumentWatermarker;
-
-  constructor() {
-    this.fingerprintProcessor = new FingerprintProcessor();
-    this.fuzzyVaultGenerator = new FuzzyVaultGenerator();
-    this.documentWatermarker = new DocumentWatermarker();
+  private readonly payloadCodec = new WatermarkPayloadCodec();
+  private readonly matcherOptions: MatcherOptions;
+  private readonly matchThreshold: number;
+  private static readonly SEALED_DOCUMENT_NOTICE =
+    'This document is sealed. Verify it with the enrolled fingerprint to read its contents.';
+  /**
+   * Between the two populations of the genuine-vs-impostor check in fingerprint-matcher.test.ts:
+   * re-captures of 40-minutia fingers (rotated up to 30°, shifted up to 40 px, a quarter of the
+   * minutiae lost and a quarter spurious) score above 0.3, unrelated fingers below 0.03
+   */
+  private static readonly DEFAULT_MATCH_THRESHOLD = 0.1;
+
+  constructor(options: BiometricEncryptionServiceOptions = {}) {
+    this.fingerprintProcessor = new FingerprintProcessor(options.fingerprint);
+    this.fuzzyVaultGenerator = new FuzzyVaultGenerator(options.vault);
+    this.matcherOptions = options.matcher ?? {};
+    this.matchThreshold = options.matchThreshold ?? BiometricEncryptionService.DEFAULT_MATCH_THRESHOLD;
+    this.documentWatermarker = new DocumentWatermarker(options.watermark);
   }
 
   /**
-   * Encrypt document with fingerprint
+   * Encrypt document with a fingerprint image or minutiae template
    */
   async encryptDocument(
-    fingerprintFile: File,
-    documentFile: File
+    fingerprint: FingerprintInput,
+    document: DocumentInput,
+    options: EncryptDocumentOptions = {}
   ): Promise<EncryptionResult> {
-    // Phase 1: Process fingerprint
-    const minutiae = await this.fingerprintProcessor.processFingerprint(fingerprintFile);
+    const mode = options.mode ?? 'watermark';
+    const progress = new ProgressTracker(ENCRYPTION_STAGES, options.onProgress, options.signal);
+
+    // Phase 1: Process fingerprint (image or minutiae template)
+    const features = await this.fingerprintProcessor.extractFeatures(fingerprint, progress);
+    const minutiae = this.fingerprintProcessor.requireMinutiae(features);
     
     // Phase 2: Generate Fuzzy Vault
-    const vault = this.fuzzyVaultGenerator.generateVault(minutiae);
+    await progress.checkpoint('vault');
+    const vault = this.fuzzyVaultGenerator.generateVault(minutiae, features.referencePoint);
     
     // Phase 3: Read document
-    const { text: documentText, format } = await this.readDocument(documentFile);
+    const { text: documentText, format } = await readDocumentAsPlainText(document);
     
     // Phase 4: Create watermark data with content hash
-    const contentHash = this.hashContent(documentText);
+    await progress.checkpoint('hash');
+    const hashAlgorithm = DEFAULT_HASH_ALGORITHM;
+    const contentHash = await this.hashContent(documentText, hashAlgorithm);
     const watermarkData: WatermarkData = {
-      fingerprintHash: this.hashMinutiae(minutiae),
+      fingerprintHash: await this.hashMinutiae(minutiae, hashAlgorithm),
       vault,
+      secretCheck: await this.fuzzyVaultGenerator.createSecretCheck(vault.secret),
       timestamp: Date.now(),
-      contentHash
+      contentHash,
+      hashAlgorithm,
+      payloadVersion: WATERMARK_PAYLOAD_VERSION,
+      paragraphTree: await buildParagraphTree(splitParagraphs(documentText))
     };
+    if (options.signingIdentity) {
+      watermarkData.signature = await signDocument(options.signingIdentity, this.signedFields(watermarkData));
+    }
+    
+    // Phase 4b: Seal the sensitive fields (and the body) under keys derived from the vault secret
+    const { embeddedData, carrierText } = await this.sealForMode(mode, watermarkData, vault.secret, documentText, minutiae);
     
     // Phase 5: Embed watermark
-    const embedding = this.documentWatermarker.embedWatermark(documentText, watermarkData);
+    await progress.checkpoint('embed');
+    const embedding = this.documentWatermarker.embedWatermark(carrierText, embeddedData);
     const encryptedDocument = embedding.watermarkedText;
 
-    // Phase 6: Prepare download artifact (TXT or DOCX Blob)
-    const isLegacyDoc = documentFile.name?.toLowerCase().endsWith(".doc");
-    let downloadBlob: Blob;
+    // Phase 6: Prepare download artifact (TXT or DOCX)
+    await progress.checkpoint('package');
+    const isLegacyDoc = document.name?.toLowerCase().endsWith(".doc");
+    let downloadBytes: Uint8Array;
 
-    if (format === "docx" && !isLegacyDoc) {
+    if (format === "docx" && !isLegacyDoc && !embeddedData.documentSealed) {
       try {
-        downloadBlob = await embedPayloadInDocx(documentFile, embedding.invisiblePayload);
+        downloadBytes = await embedPayloadInDocx(documentBytes(document), embedding.invisibleCopies, options.signal);
       } catch (error) {
+        if (options.signal?.aborted) {
+          throw error;
+        }
         console.warn("Failed to preserve DOCX formatting, falling back to regenerated file.", error);
-        downloadBlob = await createDocxFromText(encryptedDocument);
+        downloadBytes = await createDocxFromText(encryptedDocument, options.signal);
       }
     } else if (format === "docx") {
-      downloadBlob = await createDocxFromText(encryptedDocument);
+      downloadBytes = await createDocxFromText(encryptedDocument, options.signal);
     } else {
-      downloadBlob = new Blob([encryptedDocument], { type: "text/plain" });
+      downloadBytes = new TextEncoder().encode(encryptedDocument);
     }
 
-    const downloadName = this.buildDownloadName(documentFile.name, format);
+    const downloadName = this.buildDownloadName(document.name, format);
     const mimeType = format === "docx" ? DOCX_MIME : "text/plain";
+    progress.complete();
     
     return {
       encryptedDocument,
-      watermarkData,
-      downloadBlob,
+      // The secret (and its polynomial) keys the sealed fields; like a decoded payload, the
+      // result keeps only the vault points, so only an unlocking fingerprint recovers it
+      watermarkData: { ...embeddedData, vault: { ...embeddedData.vault, secret: '', polynomial: [] } },
+      mode,
+      fingerprint: {
+        source: features.source,
+        minutiaeCount: minutiae.length,
+        patternClass: features.patternClass,
+        cores: features.singularPoints.cores.length,
+        deltas: features.singularPoints.deltas.length
+      },
+      downloadBytes,
       downloadName,
       mimeType,
       format
@@ -928,85 +2465,337 @@ export class BiometricEncryptionService {
   }
 
   /**
-   * Verify document ownership
+   * Verify document ownership and integrity, reporting the outcome of every check
    */
   async verifyDocument(
-    fingerprintFile: File,
-    encryptedDocument: string | File
-  ): Promise<boolean> {
-    try {
-      const encryptedText =
-        typeof encryptedDocument === "string"
-          ? encryptedDocument
-          : await this.readWatermarkedDocument(encryptedDocument);
+    fingerprint: FingerprintInput,
+    encryptedDocument: string | DocumentInput,
+    options: VerifyDocumentOptions = {}
+  ): Promise<VerificationReport> {
+    const progress = new ProgressTracker(VERIFICATION_STAGES, options.onProgress, options.signal);
+    const report: VerificationReport = {
+      verified: false,
+      watermarkFound: false,
+      payloadVersion: null,
+      correctedSymbols: null,
+      copiesFound: null,
+      paragraphIntegrity: null,
+      encryptionMode: null,
+      decryptedDocument: null,
+      signature: 'skipped',
+      signerKeyFingerprint: null,
+      hashAlgorithm: null,
+      contentIntegrity: 'skipped',
+      fingerprintMatchScore: null,
+      fingerprintPattern: null,
+      minutiaeMatch: 'skipped',
+      minutiaeMatchScore: null,
+      matchTransform: null,
+      templateHash: 'skipped',
+      vaultUnlock: 'skipped',
+      embeddedAt: null,
+      failureCode: null
+    };
 
-      // Extract watermark
-      const watermarkData = this.documentWatermarker.extractWatermark(encryptedText);
-      
-      if (!watermarkData) {
-        return false;
+    // Read the same way as during encryption, so content hashes match
+    await progress.checkpoint('package');
+    const encryptedText =
+      typeof encryptedDocument === "string"
+        ? encryptedDocument
+        : (await readDocumentAsPlainText(encryptedDocument)).text;
+
+    // Extract watermark
+    await progress.checkpoint('embed');
+    const extraction = this.documentWatermarker.extractWatermark(encryptedText);
+    
+    if (extraction.status !== 'found') {
+      report.watermarkFound = extraction.status === 'corrupt';
+      report.failureCode = extraction.status === 'corrupt' ? 'PAYLOAD_CORRUPT' : 'NO_WATERMARK';
+      if (extraction.status === 'corrupt') {
+        console.warn(`[BiometricEncryptionService] Watermark payload corrupt: ${extraction.reason}`);
       }
-      
-      // Extract visible content (without watermark) and verify integrity
-      const visibleContent = this.getUserVisibleText(encryptedText);
-      const currentContentHash = this.hashContent(visibleContent);
-      
-      // Check if content has been tampered with
-      if (watermarkData.contentHash && currentContentHash !== watermarkData.contentHash) {
-        console.warn('[BiometricEncryptionService] Content integrity check failed: document has been tampered with');
-        return false;
+      return report;
+    }
+    const watermarkData = extraction.data;
+    report.watermarkFound = true;
+    report.payloadVersion = watermarkData.payloadVersion;
+    report.correctedSymbols = extraction.correctedSymbols;
+    report.copiesFound = extraction.copiesFound;
+    report.hashAlgorithm = watermarkData.hashAlgorithm;
+    report.embeddedAt = watermarkData.timestamp;
+    report.encryptionMode = watermarkData.documentSealed
+      ? 'sealed-document'
+      : watermarkData.sealedFields
+        ? 'sealed-payload'
+        : 'watermark';
+    
+    // Extract visible content (without watermark) and verify integrity.
+    // Sealed digests can only be checked once the fingerprint has unlocked the vault.
+    await progress.checkpoint('hash');
+    const visibleContent = this.getUserVisibleText(encryptedText);
+    if (!watermarkData.sealedFields) {
+      await this.checkContentIntegrity(report, watermarkData, visibleContent);
+      await this.checkSignature(report, watermarkData);
+    }
+    
+    // Process fingerprint
+    let minutiae: MinutiaePoint[];
+    let cores: SingularPoint[];
+    try {
+      const features = await this.fingerprintProcessor.extractFeatures(fingerprint, progress);
+      report.fingerprintPattern = features.patternClass;
+      cores = features.singularPoints.cores;
+      minutiae = this.fingerprintProcessor.requireMinutiae(features);
+    } catch (error) {
+      if (error instanceof FingerprintQualityError) {
+        report.failureCode = report.failureCode ?? 'LOW_QUALITY_SAMPLE';
+        return report;
       }
-      
-      // Process fingerprint
-      const minutiae = await this.fingerprintProcessor.processFingerprint(fingerprintFile);
-      
-      // Verify fingerprint hash (simplified verification)
-      const currentHash = this.hashMinutiae(minutiae);
-      if (currentHash !== watermarkData.fingerprintHash) {
-        return false;
+      throw error;
+    }
+    
+    await progress.checkpoint('vault');
+    if (watermarkData.vault.vault.length === 0 && !watermarkData.secretCheck.digest) {
+      // The first watermarks ({f, s, t, c}) carry no vault, only the legacy template hash
+      await this.checkLegacyTemplateHash(report, watermarkData, minutiae);
+      report.verified = report.failureCode === null;
+      progress.complete();
+      return report;
+    }
+
+    // Unlock the vault: a fresh capture of the enrolling finger reconstructs the same secret
+    const unlock = this.fuzzyVaultGenerator.unlockVaultWithScore(watermarkData.vault, minutiae, cores);
+    report.fingerprintMatchScore = unlock.matchScore;
+    const secretMatches =
+      unlock.secret !== null &&
+      (await this.fuzzyVaultGenerator.matchesSecretCheck(unlock.secret, watermarkData.secretCheck));
+    report.vaultUnlock = secretMatches ? 'passed' : 'failed';
+    if (!secretMatches) {
+      report.failureCode = report.failureCode ?? 'FINGERPRINT_MISMATCH';
+    }
+
+    // Open sealed fields (and body) with the unlocked secret, then run the integrity checks
+    if (watermarkData.sealedFields && secretMatches && unlock.secret !== null) {
+      await this.verifySealedContent(report, watermarkData, watermarkData.sealedFields, unlock.secret, visibleContent, minutiae);
+    }
+    
+    // Both fingerprint and content integrity verified
+    report.verified = report.failureCode === null;
+    progress.complete();
+    return report;
+  }
+
+  /**
+   * Compare the legacy-32 hash of the presented minutiae with the embedded one, the only
+   * fingerprint check watermarks from before the vault allow. It passes only when the capture
+   * yields exactly the enrolled minutiae. Those came from the first release's extractor, which
+   * the enhancement pipeline replaced, so an image capture never matches any more; only a
+   * template holding exactly the enrolled minutiae, in order, could.
+   */
+  private async checkLegacyTemplateHash(report: VerificationReport, watermarkData: WatermarkData, minutiae: MinutiaePoint[]): Promise<void> {
+    const currentHash = await this.hashMinutiae(minutiae, LEGACY_HASH_ALGORITHM);
+    report.templateHash = currentHash === watermarkData.fingerprintHash ? 'passed' : 'failed';
+    if (report.templateHash === 'failed') {
+      report.failureCode = report.failureCode ?? 'FINGERPRINT_MISMATCH';
+    }
+  }
+
+  /**
+   * Compare the content hash and paragraph tree with the current visible text
+   */
+  private async checkContentIntegrity(report: VerificationReport, watermarkData: WatermarkData, content: string): Promise<void> {
+    // Check if content has been tampered with
+    if (watermarkData.contentHash) {
+      const currentContentHash = await this.hashContent(content, watermarkData.hashAlgorithm);
+      report.contentIntegrity = currentContentHash === watermarkData.contentHash ? 'passed' : 'failed';
+      if (report.contentIntegrity === 'failed') {
+        console.warn('[BiometricEncryptionService] Content integrity check failed: document has been tampered with');
+        report.failureCode = report.failureCode ?? 'CONTENT_TAMPERED';
       }
-      
-      // Both fingerprint and content integrity verified
-      return true;
+    }
+
+    // Localize edits paragraph by paragraph
+    if (watermarkData.paragraphTree) {
+      report.paragraphIntegrity = await compareParagraphs(watermarkData.paragraphTree, content);
+    }
+  }
+
+  /**
+   * Replace the sensitive fields with sealed ones for the requested mode; the most reliable
+   * minutiae go into the sealed fields as the matcher's template. A sealed document body is
+   * swapped for a notice plus the armored ciphertext.
+   */
+  private async sealForMode(
+    mode: EncryptionMode,
+    watermarkData: WatermarkData,
+    secret: string,
+    documentText: string,
+    minutiae: MinutiaePoint[]
+  ): Promise<{ embeddedData: WatermarkData; carrierText: string }> {
+    if (mode === 'watermark') {
+      return { embeddedData: watermarkData, carrierText: documentText };
+    }
+
+    const salt = watermarkData.secretCheck.salt;
+    const payloadKey = await deriveSealingKey(secret, salt, 'payload');
+    const embeddedData: WatermarkData = {
+      ...watermarkData,
+      contentHash: '',
+      fingerprintHash: '',
+      paragraphTree: undefined,
+      sealedFields: await seal(
+        payloadKey,
+        this.payloadCodec.encodeSensitiveFields({
+          ...watermarkData,
+          minutiaeTemplate: minutiae.slice(0, WatermarkPayloadCodec.TEMPLATE_MINUTIAE)
+        })
+      ),
+      documentSealed: mode === 'sealed-document'
+    };
+    if (mode !== 'sealed-document') {
+      return { embeddedData, carrierText: documentText };
+    }
+
+    const documentKey = await deriveSealingKey(secret, salt, 'document');
+    const sealedBody = await seal(documentKey, new TextEncoder().encode(documentText));
+    return {
+      embeddedData,
+      carrierText: `${BiometricEncryptionService.SEALED_DOCUMENT_NOTICE}\n\n${armorSealedDocument(sealedBody)}`
+    };
+  }
+
+  /**
+   * Open the sealed fields and, for sealed documents, the body, then match the presented
+   * minutiae against the sealed template and check integrity against the opened content.
+   * This is the only place the matcher can run: a template embedded in the clear would show
+   * which vault points are genuine, so watermark-only documents carry none, and a sealed one
+   * is readable only once the vault has unlocked. The score can therefore only reject a print
+   * the vault accepted, never accept one it rejected.
+   */
+  private async verifySealedContent(
+    report: VerificationReport,
+    watermarkData: WatermarkData,
+    sealedFields: SealedBox,
+    secret: string,
+    visibleContent: string,
+    minutiae: MinutiaePoint[]
+  ): Promise<void> {
+    const salt = watermarkData.secretCheck.salt;
+    let opened: ReturnType<WatermarkPayloadCodec['decodeSensitiveFields']>;
+    try {
+      const payloadKey = await deriveSealingKey(secret, salt, 'payload');
+      opened = this.payloadCodec.decodeSensitiveFields(await open(payloadKey, sealedFields));
     } catch (error) {
-      return false;
+      if (!(error instanceof SealingError)) {
+        throw error;
+      }
+      opened = null;
+    }
+    if (!opened) {
+      console.warn('[BiometricEncryptionService] Sealed payload fields could not be opened');
+      report.failureCode = report.failureCode ?? 'PAYLOAD_CORRUPT';
+      return;
+    }
+
+    if (opened.minutiaeTemplate) {
+      const match = matchMinutiae(opened.minutiaeTemplate, minutiae, this.matcherOptions);
+      report.minutiaeMatchScore = match.score;
+      report.matchTransform = match.transform;
+      report.minutiaeMatch = match.score >= this.matchThreshold ? 'passed' : 'failed';
+      if (report.minutiaeMatch === 'failed') {
+        report.failureCode = report.failureCode ?? 'FINGERPRINT_MISMATCH';
+      }
+    }
+
+    let content = visibleContent;
+    if (watermarkData.documentSealed) {
+      const sealedBody = unarmorSealedDocument(visibleContent);
+      try {
+        if (!sealedBody) {
+          throw new SealingError('Sealed document block missing');
+        }
+        const documentKey = await deriveSealingKey(secret, salt, 'document');
+        content = new TextDecoder().decode(await open(documentKey, sealedBody));
+        report.decryptedDocument = content;
+      } catch (error) {
+        if (!(error instanceof SealingError)) {
+          throw error;
+        }
+        console.warn(`[BiometricEncryptionService] Sealed document body could not be opened: ${error.message}`);
+        report.contentIntegrity = 'failed';
+        report.failureCode = report.failureCode ?? 'CONTENT_TAMPERED';
+        return;
+      }
     }
+
+    const openedData = { ...watermarkData, ...opened };
+    await this.checkContentIntegrity(report, openedData, content);
+    await this.checkSignature(report, openedData);
   }
 
   /**
-   * Read document file
+   * Verify the embedded ECDSA signature against the (opened) watermark fields
    */
-  private async readDocument(file: File): Promise<{ text: string; format: DocumentFormat }> {
-    return readDocumentAsPlainText(file);
+  private async checkSignature(report: VerificationReport, watermarkData: WatermarkData): Promise<void> {
+    if (!watermarkData.signature) {
+      return;
+    }
+
+    const result = await verifyDocumentSignature(watermarkData.signature, this.signedFields(watermarkData));
+    report.signerKeyFingerprint = result.keyFingerprint;
+    report.signature = result.valid ? 'passed' : 'failed';
+    if (!result.valid) {
+      console.warn('[BiometricEncryptionService] Watermark signature is invalid');
+      report.failureCode = report.failureCode ?? 'SIGNATURE_INVALID';
+    }
   }
 
-  private async readWatermarkedDocument(file: File): Promise<string> {
-    // Use the same extraction method as during encryption for consistency
-    // This ensures content hashes match
-    return (await this.readDocument(file)).text;
+  private signedFields(watermarkData: WatermarkData): SignedFields {
+    return {
+      timestamp: watermarkData.timestamp,
+      contentHash: watermarkData.contentHash,
+      fingerprintHash: watermarkData.fingerprintHash,
+      secretCheckDigest: watermarkData.secretCheck.digest
+    };
   }
 
   /**
    * Hash minutiae points for comparison
    */
-  private hashMinutiae(minutiae: MinutiaePoint[]): string {
+  private async hashMinutiae(minutiae: MinutiaePoint[], algorithm: HashAlgorithm): Promise<string> {
     const data = minutiae.map(m => `${m.x},${m.y},${m.angle},${m.type}`).join('|');
-    return this.simpleHash(data);
+    return this.digest(data, algorithm);
   }
 
   /**
    * Hash document content for integrity verification
    */
-  private hashContent(content: string): string {
-    // Normalize the content by trimming and removing extra whitespace
-    const normalizedContent = content.trim().replace(/\s+/g, ' ');
-    return this.simpleHash(normalizedContent);
+  private async hashContent(content: string, algorithm: HashAlgorithm): Promise<string> {
+    return this.digest(this.normalizeContent(content), algorithm);
+  }
+
+  /**
+   * Normalize the content by trimming and removing extra whitespace
+   */
+  private normalizeContent(content: string): string {
+    return content.trim().replace(/\s+/g, ' ');
   }
 
   /**
-   * Simple hash function
+   * Hex digest of a UTF-8 string with the requested algorithm
    */
-  private simpleHash(str: string): string {
+  private async digest(str: string, algorithm: HashAlgorithm): Promise<string> {
+    if (algorithm === LEGACY_HASH_ALGORITHM) {
+      return this.legacyHash(str);
+    }
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(str));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * 32-bit string hash used by watermarks embedded before SHA-256; kept only to verify them
+   */
+  private legacyHash(str: string): string {
     let hash = 0;
     for (let i = 0; i < str.length; i++) {
       const char = str.charCodeAt(i);
@@ -1020,7 +2809,7 @@ export class BiometricEncryptionService {
    * Get user-visible text from watermarked document (removes watermark for display)
    */
   getUserVisibleText(watermarkedText: string): string {
-    const zeroWidthPattern = /[\u200B\u200C\u200D]/g;
+    const zeroWidthPattern = /[\u2060\u2063\u200B\u200C\u200D]/g;
     return watermarkedText.replace(zeroWidthPattern, '');
   }
 
@@ -1030,10 +2819,12 @@ export class BiometricEncryptionService {
   private toCompactWatermarkData(watermarkData: WatermarkData): CompactWatermarkData {
     return {
       fh: watermarkData.fingerprintHash,
-      s: watermarkData.vault.secret,
+      sk: watermarkData.secretCheck.salt,
+      sh: watermarkData.secretCheck.digest,
       v: watermarkData.vault.vault,
       t: watermarkData.timestamp,
-      c: watermarkData.contentHash
+      c: watermarkData.contentHash,
+      a: watermarkData.hashAlgorithm
     };
   }
 
@@ -1045,28 +2836,41 @@ export class BiometricEncryptionService {
       fingerprintHash: compact.fh,
       vault: {
         vault: compact.v,
-        secret: compact.s,
+        secret: '',
         polynomial: [] // Will be reconstructed during verification
       },
+      secretCheck: {
+        salt: compact.sk,
+        digest: compact.sh
+      },
       timestamp: compact.t,
-      contentHash: compact.c || '' // Backward compatibility
+      contentHash: compact.c || '', // Backward compatibility
+      hashAlgorithm: compact.a || LEGACY_HASH_ALGORITHM,
+      payloadVersion: 1
     };
   }
 
   /**
    * Test watermarking functionality
    */
-  testWatermarking(): { original: string; watermarked: string; extracted: WatermarkData | null; userVisible: string; sizeInfo: { originalSize: number; watermarkSize: number; ultraCompactJsonSize: number; fullJsonSize: number; compressionRatio: string } } {
+  testWatermarking(): { original: string; watermarked: string; extracted: WatermarkData | null; userVisible: string; sizeInfo: { originalSize: number; watermarkSize: number; payloadBytes: number; fullJsonSize: number; compressionRatio: string } } {
     const originalText = "This is a test document for watermarking.";
     const testWatermarkData: WatermarkData = {
-      fingerprintHash: "test123",
+      fingerprintHash: "7e57123",
       vault: {
         vault: [[1, 2], [3, 4], [5, 6], [7, 8]], // Small test vault
         secret: "testsecret",
         polynomial: [1, 2]
       },
+      secretCheck: {
+        salt: "00112233445566778899aabbccddeeff",
+        digest: "7e57".repeat(16)
+      },
       timestamp: Date.now(),
-      contentHash: this.hashContent(originalText)
+      // Synchronous demo: the legacy hash avoids awaiting WebCrypto
+      contentHash: this.legacyHash(this.normalizeContent(originalText)),
+      hashAlgorithm: LEGACY_HASH_ALGORITHM,
+      payloadVersion: WATERMARK_PAYLOAD_VERSION
     };
 
     // Embed watermark
@@ -1074,25 +2878,22 @@ export class BiometricEncryptionService {
     const watermarkedText = watermarkedResult.watermarkedText;
     
     // Extract watermark
-    const extractedData = this.documentWatermarker.extractWatermark(watermarkedText);
+    const extraction = this.documentWatermarker.extractWatermark(watermarkedText);
+    const extractedData = extraction.status === 'found' ? extraction.data : null;
 
     // Get user-visible version
     const userVisible = this.getUserVisibleText(watermarkedText);
 
     // Calculate size information
-    const ultraCompactData: UltraCompactWatermarkData = {
-      f: testWatermarkData.fingerprintHash,
-      s: testWatermarkData.vault.secret,
-      t: testWatermarkData.timestamp,
-      c: testWatermarkData.contentHash
-    };
+    const payloadBytes = watermarkedResult.invisibleCopies[0].replace(/[\u2060\u2063\u200D]/g, '').length / 8;
+    const fullJsonSize = JSON.stringify(testWatermarkData).length;
 
     const sizeInfo = {
       originalSize: originalText.length,
       watermarkSize: watermarkedText.length - originalText.length,
-      ultraCompactJsonSize: JSON.stringify(ultraCompactData).length,
-      fullJsonSize: JSON.stringify(testWatermarkData).length,
-      compressionRatio: (JSON.stringify(testWatermarkData).length / JSON.stringify(ultraCompactData).length).toFixed(2)
+      payloadBytes,
+      fullJsonSize,
+      compressionRatio: (fullJsonSize / payloadBytes).toFixed(2)
     };
 
     return {
@@ -0,0 +1,87 @@
+// Browser side of the DOM-free core: PNG/JPEG decoding through a canvas, and conversion between
+// File/Blob uploads and the byte and string inputs the core takes
+
+import { BiometricEncryptionService, BiometricEncryptionServiceOptions, EncryptionResult } from "./biometric";
+import { DocumentInput } from "./docx-handler";
+import { ImageDecodeError, RasterDecoder } from "./image-decoders";
+import { RgbaImage } from "./image-resolution";
+
+/**
+ * PNG and JPEG pixels from the browser's image decoder. createImageBitmap and OffscreenCanvas
+ * also exist in workers; where OffscreenCanvas is missing an <img> is drawn to a canvas element.
+ */
+export const decodeRasterInBrowser: RasterDecoder = async (bytes) => {
+  const blob = new Blob([bytes]);
+  if (typeof OffscreenCanvas === 'undefined') {
+    if (typeof document === 'undefined') {
+      // A worker in a browser without OffscreenCanvas has no way to get at the pixels
+      throw new ImageDecodeError('This browser cannot decode PNG or JPEG in a worker');
+    }
+    return decodeWithImageElement(blob);
+  }
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(blob);
+  } catch {
+    throw new ImageDecodeError('The browser could not decode this image');
+  }
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error('Browser does not support a 2D canvas context');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+function decodeWithImageElement(blob: Blob): Promise<RgbaImage> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    const objectUrl = URL.createObjectURL(blob);
+    img.onload = () => {
+      URL.revokeObjectURL(objectUrl);
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        reject(new Error('Browser does not support a 2D canvas context'));
+        return;
+      }
+      canvas.width = img.width;
+      canvas.height = img.height;
+      ctx.drawImage(img, 0, 0);
+      resolve(ctx.getImageData(0, 0, img.width, img.height));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new ImageDecodeError('The browser could not decode this image'));
+    };
+    img.src = objectUrl;
+  });
+}
+
+/**
+ * Encryption service whose fingerprint processor decodes PNG and JPEG through the browser
+ */
+export function createBrowserEncryptionService(options: BiometricEncryptionServiceOptions = {}): BiometricEncryptionService {
+  return new BiometricEncryptionService({
+    ...options,
+    fingerprint: { rasterDecoder: decodeRasterInBrowser, ...options.fingerprint }
+  });
+}
+
+export async function fileBytes(file: Blob): Promise<Uint8Array> {
+  return new Uint8Array(await file.arrayBuffer());
+}
+
+export async function documentFromFile(file: File): Promise<DocumentInput> {
+  return { name: file.name, type: file.type, data: await fileBytes(file) };
+}
+
+/**
+ * The encrypted document as a Blob, ready for an object URL
+ */
+export function encryptionResultBlob(result: EncryptionResult): Blob {
+  return new Blob([result.downloadBytes], { type: result.mimeType });
+}
@@ -0,0 +1,40 @@
+// Cursor over big-endian binary data, shared by the WSQ decoder and the minutiae record reader
+
+/**
+ * Big-endian reads that throw RangeError past the end, like DataView
+ */
+export class ByteReader {
+  offset = 0;
+  private readonly view: DataView;
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.offset++);
+  }
+
+  u16(): number {
+    const value = this.view.getUint16(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.view.getUint32(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  /**
+   * Value at a fixed offset, without moving the cursor; -1 past the end
+   */
+  u16At(offset: number): number {
+    return offset + 2 <= this.bytes.length ? this.view.getUint16(offset) : -1;
+  }
+
+  u32At(offset: number): number {
+    return offset + 4 <= this.bytes.length ? this.view.getUint32(offset) : -1;
+  }
+}
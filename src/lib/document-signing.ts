@@ -0,0 +1,139 @@
+// ECDSA P-256 signatures over the content digest, timestamp and fingerprint commitment
+
+export const SIGNING_KEY_ID_SIZE = 8; // Leading bytes of the public key fingerprint
+export const SIGNING_PUBLIC_KEY_SIZE = 65; // Uncompressed P-256 point
+export const SIGNATURE_SIZE = 64; // Raw r || s
+export const SIGNATURE_SECTION_SIZE = SIGNING_KEY_ID_SIZE + SIGNING_PUBLIC_KEY_SIZE + SIGNATURE_SIZE;
+
+const SIGNATURE_DOMAIN = 'biomark-signature-v1';
+const ECDSA_PARAMS = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGN_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+
+/**
+ * Key pair of one enrolled user
+ */
+export interface SigningIdentity {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  keyId: string; // Hex, SIGNING_KEY_ID_SIZE bytes
+  fingerprint: string; // Hex SHA-256 of the raw public key
+}
+
+/**
+ * Signature as embedded in the payload
+ */
+export interface DocumentSignature {
+  keyId: Uint8Array;
+  publicKey: Uint8Array;
+  signature: Uint8Array;
+}
+
+/**
+ * Values covered by the signature. The fingerprint commitment is the template hash
+ * together with the vault secret check.
+ */
+export interface SignedFields {
+  timestamp: number;
+  contentHash: string;
+  fingerprintHash: string;
+  secretCheckDigest: string;
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  keyFingerprint: string;
+}
+
+export async function generateSigningIdentity(): Promise<SigningIdentity> {
+  const keyPair = await crypto.subtle.generateKey(ECDSA_PARAMS, true, ['sign', 'verify']);
+  return toIdentity(keyPair.privateKey, keyPair.publicKey);
+}
+
+/**
+ * Import a private key exported with exportSigningIdentity (JWK carrying d, x and y)
+ */
+export async function importSigningIdentity(jwk: JsonWebKey): Promise<SigningIdentity> {
+  if (jwk.kty !== 'EC' || jwk.crv !== 'P-256' || !jwk.d) {
+    throw new Error('Signing key must be a private P-256 JWK');
+  }
+  const privateKey = await crypto.subtle.importKey('jwk', jwk, ECDSA_PARAMS, true, ['sign']);
+  const publicJwk: JsonWebKey = { kty: jwk.kty, crv: jwk.crv, x: jwk.x, y: jwk.y, ext: true };
+  const publicKey = await crypto.subtle.importKey('jwk', publicJwk, ECDSA_PARAMS, true, ['verify']);
+  return toIdentity(privateKey, publicKey);
+}
+
+export async function exportSigningIdentity(identity: SigningIdentity): Promise<JsonWebKey> {
+  return crypto.subtle.exportKey('jwk', identity.privateKey);
+}
+
+export async function signDocument(identity: SigningIdentity, fields: SignedFields): Promise<DocumentSignature> {
+  const signature = await crypto.subtle.sign(SIGN_PARAMS, identity.privateKey, encodeSignedFields(fields));
+  return {
+    keyId: hexToBytes(identity.keyId),
+    publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', identity.publicKey)),
+    signature: new Uint8Array(signature)
+  };
+}
+
+/**
+ * Check an embedded signature against the given fields. The key ID must match the embedded
+ * public key; whether that key is trusted is up to whoever reads the reported fingerprint.
+ */
+export async function verifyDocumentSignature(
+  signature: DocumentSignature,
+  fields: SignedFields
+): Promise<SignatureVerification> {
+  const keyFingerprint = await fingerprintPublicKey(signature.publicKey);
+  if (keyFingerprint.slice(0, SIGNING_KEY_ID_SIZE * 2) !== toHex(signature.keyId)) {
+    return { valid: false, keyFingerprint };
+  }
+
+  let publicKey: CryptoKey;
+  try {
+    publicKey = await crypto.subtle.importKey('raw', signature.publicKey, ECDSA_PARAMS, false, ['verify']);
+  } catch (error) {
+    return { valid: false, keyFingerprint };
+  }
+
+  const valid = await crypto.subtle.verify(SIGN_PARAMS, publicKey, signature.signature, encodeSignedFields(fields));
+  return { valid, keyFingerprint };
+}
+
+async function toIdentity(privateKey: CryptoKey, publicKey: CryptoKey): Promise<SigningIdentity> {
+  const fingerprint = await fingerprintPublicKey(new Uint8Array(await crypto.subtle.exportKey('raw', publicKey)));
+  return { privateKey, publicKey, fingerprint, keyId: fingerprint.slice(0, SIGNING_KEY_ID_SIZE * 2) };
+}
+
+async function fingerprintPublicKey(rawPublicKey: Uint8Array): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', rawPublicKey)));
+}
+
+/**
+ * domain | timestamp (8) | content digest | fingerprint digest | secret check digest
+ */
+function encodeSignedFields(fields: SignedFields): Uint8Array {
+  const domain = new TextEncoder().encode(SIGNATURE_DOMAIN);
+  const digests = [fields.contentHash, fields.fingerprintHash, fields.secretCheckDigest].map(hexToBytes);
+  const bytes = new Uint8Array(domain.length + 8 + digests.reduce((total, digest) => total + digest.length, 0));
+  bytes.set(domain);
+  new DataView(bytes.buffer).setBigUint64(domain.length, BigInt(fields.timestamp));
+
+  let offset = domain.length + 8;
+  for (const digest of digests) {
+    bytes.set(digest, offset);
+    offset += digest.length;
+  }
+  return bytes;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
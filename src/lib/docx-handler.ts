@@ -8,10 +8,32 @@ export const DOCX_MIME =
 const WORD_NAMESPACE =
   "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
 
+/**
+ * A document as the core reads it: name and MIME type decide the format, data holds the
+ * file's bytes (or its text, for plain-text documents).
+ */
+export interface DocumentInput {
+  name: string;
+  type?: string;
+  data: Uint8Array | string;
+}
+
+/**
+ * A <w:t> element of document.xml, located by offsets so the part can be edited without an
+ * XML DOM (Node and Web Workers have none)
+ */
+interface TextElement {
+  start: number;
+  end: number;
+  attributes: string;
+  original: string;
+  text: string;
+}
+
 /**
  * Determines whether the provided file should be treated as a Word document.
  */
-export function isDocLikeFile(file: Pick<File, "name" | "type">): boolean {
+export function isDocLikeFile(file: { name: string; type?: string }): boolean {
   const lowerName = file.name?.toLowerCase() || "";
   return (
     file.type === DOCX_MIME ||
@@ -22,41 +44,50 @@ export function isDocLikeFile(file: Pick<File, "name" | "type">): boolean {
 }
 
 /**
- * Reads a document file and returns its plain-text content along with format info.
- * DOC/DOCX files are converted to text via mammoth, TXT files use the native text reader.
+ * Bytes of a document, UTF-8 encoding text given as a string.
+ */
+export function documentBytes(document: DocumentInput): Uint8Array {
+  return typeof document.data === "string" ? new TextEncoder().encode(document.data) : document.data;
+}
+
+/**
+ * Reads a document and returns its plain-text content along with format info.
+ * DOC/DOCX files are converted to text via mammoth, TXT files are decoded as UTF-8.
  */
 export async function readDocumentAsPlainText(
-  file: File
+  document: DocumentInput
 ): Promise<{ text: string; format: DocumentFormat }> {
-  if (isDocLikeFile(file)) {
+  const text = () =>
+    typeof document.data === "string" ? document.data : new TextDecoder().decode(document.data);
+
+  if (isDocLikeFile(document)) {
     try {
-      const text = await extractTextFromDocx(file);
-      return { text, format: "docx" };
+      return { text: await extractTextFromDocx(documentBytes(document)), format: "docx" };
     } catch (error) {
       console.warn("[docx-handler] Failed to parse DOCX via mammoth. Falling back to raw text.", error);
-      const fallbackText = await file.text();
-      return { text: fallbackText, format: "docx" };
+      return { text: text(), format: "docx" };
     }
   }
 
-  const text = await file.text();
-  return { text, format: "txt" };
+  return { text: text(), format: "txt" };
 }
 
 /**
  * Extracts raw text content from a DOCX/DOC file using mammoth.
  */
-export async function extractTextFromDocx(file: Blob | ArrayBuffer): Promise<string> {
-  const arrayBuffer = file instanceof ArrayBuffer ? file : await file.arrayBuffer();
-  const { value } = await mammoth.extractRawText({ arrayBuffer });
+export async function extractTextFromDocx(data: Uint8Array | ArrayBuffer): Promise<string> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const arrayBuffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer;
+  // The browser build of mammoth reads `arrayBuffer`, the Node build `buffer`
+  const { value } = await mammoth.extractRawText({ arrayBuffer, buffer: arrayBuffer } as { arrayBuffer: ArrayBuffer });
   return value;
 }
 
 /**
- * Creates a minimal DOCX Blob that contains the provided text payload.
+ * Creates a minimal DOCX that contains the provided text payload.
  * The resulting file opens cleanly in Microsoft Word and preserves plaintext content.
  */
-export async function createDocxFromText(text: string): Promise<Blob> {
+export async function createDocxFromText(text: string, signal?: AbortSignal): Promise<Uint8Array> {
   const zip = new JSZip();
 
   zip.file("[Content_Types].xml", getContentTypesXml());
@@ -71,65 +102,90 @@ export async function createDocxFromText(text: string): Promise<Blob> {
   const wordRelsFolder = wordFolder?.folder("_rels");
   wordRelsFolder?.file("document.xml.rels", getDocumentRelsXml());
 
-  return zip.generateAsync({ type: "blob", mimeType: DOCX_MIME });
+  return generateDocx(zip, signal);
 }
 
+/**
+ * Embed invisible payload text into an existing DOCX. When several copies are given, each
+ * one is spread over its own consecutive run of text nodes.
+ */
 export async function embedPayloadInDocx(
-  originalFile: File,
-  payload: string
-): Promise<Blob> {
-  if (!payload) {
-    return originalFile;
+  original: Uint8Array,
+  payload: string | string[],
+  signal?: AbortSignal
+): Promise<Uint8Array> {
+  const copies = (Array.isArray(payload) ? payload : [payload]).filter((copy) => copy.length > 0);
+  if (copies.length === 0) {
+    return original;
   }
 
-  const arrayBuffer = await originalFile.arrayBuffer();
-  const zip = await JSZip.loadAsync(arrayBuffer);
+  const zip = await JSZip.loadAsync(original);
   const documentFile = zip.file("word/document.xml");
 
   if (!documentFile) {
     throw new Error("Invalid DOCX file: missing word/document.xml");
   }
 
-  const xmlString = await documentFile.async("string");
-  const parser = new DOMParser();
-  const xmlDoc = parser.parseFromString(xmlString, "application/xml");
-  const textNodes = Array.from(xmlDoc.getElementsByTagNameNS(WORD_NAMESPACE, "t"));
-  const candidateNodes = textNodes.filter((node) => {
-    const textContent = node.textContent || "";
-    return textContent.trim().length > 0 && /[\w\d]/.test(textContent);
+  const xml = await documentFile.async("string");
+  signal?.throwIfAborted();
+  const prefix = wordPrefix(xml);
+  const textElements = findTextElements(xml, prefix);
+  const candidateNodes = textElements.filter((element) => {
+    return element.text.trim().length > 0 && /[\w\d]/.test(element.text);
   });
 
+  // Without any text, the payload goes into an empty paragraph appended to the body
+  let placeholder: TextElement | null = null;
   if (candidateNodes.length === 0) {
-    const placeholder = appendInvisibleParagraph(xmlDoc);
+    placeholder = { start: -1, end: -1, attributes: ' xml:space="preserve"', original: "", text: "" };
     candidateNodes.push(placeholder);
   }
 
-  const slotsToUse = determineSlotCount(candidateNodes.length, payload.length);
-  const selectedIndexes = pickRandomIndexes(candidateNodes.length, slotsToUse).sort(
-    (a, b) => a - b
-  );
+  const stretchLength = Math.ceil(candidateNodes.length / copies.length);
+  copies.forEach((copy, i) => {
+    const stretch = candidateNodes.slice(i * stretchLength, (i + 1) * stretchLength);
+    placeInNodes(stretch.length > 0 ? stretch : candidateNodes.slice(-1), copy);
+  });
+
+  let updatedXml = replaceTextElements(xml, prefix, textElements);
+  if (placeholder) {
+    updatedXml = appendParagraph(updatedXml, prefix, placeholder);
+  }
+  zip.file("word/document.xml", updatedXml);
+  return generateDocx(zip, signal);
+}
+
+/**
+ * Zip the package. JSZip cannot be interrupted, so an aborted signal is checked before and
+ * after, and a package finished after the abort is dropped.
+ */
+async function generateDocx(zip: JSZip, signal?: AbortSignal): Promise<Uint8Array> {
+  signal?.throwIfAborted();
+  const bytes = await zip.generateAsync({ type: "uint8array", mimeType: DOCX_MIME });
+  signal?.throwIfAborted();
+  return bytes;
+}
+
+function placeInNodes(nodes: TextElement[], payload: string): void {
+  const slotsToUse = determineSlotCount(nodes.length, payload.length);
+  const selectedIndexes = pickRandomIndexes(nodes.length, slotsToUse).sort((a, b) => a - b);
   const chunkSize = Math.max(8, Math.ceil(payload.length / selectedIndexes.length));
 
   let cursor = 0;
   for (const index of selectedIndexes) {
-    const node = candidateNodes[index];
+    const node = nodes[index];
     if (cursor >= payload.length) {
       break;
     }
     const chunk = payload.slice(cursor, cursor + chunkSize);
     cursor += chunk.length;
-    node.textContent = (node.textContent || "") + chunk;
+    node.text += chunk;
   }
 
   if (cursor < payload.length && selectedIndexes.length > 0) {
-    const lastNode = candidateNodes[selectedIndexes[selectedIndexes.length - 1]];
-    lastNode.textContent = (lastNode.textContent || "") + payload.slice(cursor);
+    const lastNode = nodes[selectedIndexes[selectedIndexes.length - 1]];
+    lastNode.text += payload.slice(cursor);
   }
-
-  const serializer = new XMLSerializer();
-  const updatedXml = serializer.serializeToString(xmlDoc);
-  zip.file("word/document.xml", updatedXml);
-  return zip.generateAsync({ type: "blob", mimeType: DOCX_MIME });
 }
 
 function determineSlotCount(totalNodes: number, payloadLength: number): number {
@@ -157,33 +213,72 @@ function pickRandomIndexes(length: number, count: number): number[] {
   return Array.from(selected);
 }
 
-function appendInvisibleParagraph(doc: Document): Element {
-  const body = doc.getElementsByTagNameNS(WORD_NAMESPACE, "body")[0];
-  const paragraph = doc.createElementNS(WORD_NAMESPACE, "w:p");
-  const run = doc.createElementNS(WORD_NAMESPACE, "w:r");
-  const textNode = doc.createElementNS(WORD_NAMESPACE, "w:t");
-  textNode.setAttribute("xml:space", "preserve");
-  run.appendChild(textNode);
-  paragraph.appendChild(run);
-  body?.appendChild(paragraph);
-  return textNode;
+/**
+ * Prefix the part binds to the WordprocessingML namespace; Word always writes "w"
+ */
+function wordPrefix(xml: string): string {
+  const escapedNamespace = WORD_NAMESPACE.replace(/[.]/g, "\\.");
+  const match = new RegExp(`xmlns:([\\w.-]+)="${escapedNamespace}"`).exec(xml);
+  return match ? match[1] : "w";
 }
 
-export async function readDocxXmlText(file: File): Promise<string | null> {
+function findTextElements(xml: string, prefix: string): TextElement[] {
+  const pattern = new RegExp(`<${prefix}:t(\\s[^>]*?)?(?:/>|>([\\s\\S]*?)</${prefix}:t>)`, "g");
+  return Array.from(xml.matchAll(pattern), (match) => {
+    const text = unescapeXml(match[2] ?? "");
+    return {
+      start: match.index,
+      end: match.index + match[0].length,
+      attributes: match[1] ?? "",
+      original: text,
+      text,
+    };
+  });
+}
+
+/**
+ * Rewrite the elements whose text changed, back to front so earlier offsets stay valid
+ */
+function replaceTextElements(xml: string, prefix: string, elements: TextElement[]): string {
+  let updated = xml;
+  for (const element of [...elements].reverse()) {
+    if (element.text !== element.original) {
+      updated = updated.slice(0, element.start) + textElementXml(prefix, element) + updated.slice(element.end);
+    }
+  }
+  return updated;
+}
+
+/**
+ * Insert a paragraph holding the element at the end of the body, ahead of its section properties
+ */
+function appendParagraph(xml: string, prefix: string, element: TextElement): string {
+  const paragraph = `<${prefix}:p><${prefix}:r>${textElementXml(prefix, element)}</${prefix}:r></${prefix}:p>`;
+  const bodyEnd = xml.lastIndexOf(`</${prefix}:body>`);
+  if (bodyEnd === -1) {
+    return xml;
+  }
+  // The body's own sectPr is its last child: no paragraph closes after it
+  const sectionStart = xml.lastIndexOf(`<${prefix}:sectPr`, bodyEnd);
+  const insertAt =
+    sectionStart !== -1 && !xml.slice(sectionStart, bodyEnd).includes(`</${prefix}:p>`) ? sectionStart : bodyEnd;
+  return xml.slice(0, insertAt) + paragraph + xml.slice(insertAt);
+}
+
+function textElementXml(prefix: string, element: TextElement): string {
+  return `<${prefix}:t${element.attributes}>${escapeXml(element.text)}</${prefix}:t>`;
+}
+
+export async function readDocxXmlText(data: Uint8Array): Promise<string | null> {
   try {
-    const arrayBuffer = await file.arrayBuffer();
-    const zip = await JSZip.loadAsync(arrayBuffer);
+    const zip = await JSZip.loadAsync(data);
     const documentFile = zip.file("word/document.xml");
     if (!documentFile) {
       return null;
     }
 
-    const xmlString = await documentFile.async("string");
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlString, "application/xml");
-    const textNodes = Array.from(xmlDoc.getElementsByTagNameNS(WORD_NAMESPACE, "t"));
-
-    return textNodes.map((node) => node.textContent || "").join("");
+    const xml = await documentFile.async("string");
+    return findTextElements(xml, wordPrefix(xml)).map((element) => element.text).join("");
   } catch (error) {
     console.warn("Failed to read DOCX XML text", error);
     return null;
@@ -215,6 +310,14 @@ function createParagraphXml(line: string): string {
   return `<w:p><w:r><w:t xml:space="preserve">${escaped}</w:t></w:r></w:p>`;
 }
 
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|lt|gt|amp|quot|apos);/g, (entity, name: string) => {
+    if (name.startsWith("#x")) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith("#")) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    return { lt: "<", gt: ">", amp: "&", quot: '"', apos: "'" }[name] ?? entity;
+  });
+}
+
 function escapeXml(value: string): string {
   return value
     .replace(/&/g, "&amp;")
@@ -0,0 +1,161 @@
+// Ridge/valley binarization: a fixed global threshold or locally adaptive thresholds
+// (Sauvola, block mean) computed over foreground pixels only
+
+import { GrayscaleImage } from "./fingerprint-enhancement";
+
+/**
+ * 'sauvola' thresholds each pixel against the mean and deviation of its window,
+ * 'block-mean' against the mean of its block, 'global' at a fixed grey level
+ */
+export type BinarizationMethod = 'sauvola' | 'block-mean' | 'global';
+
+export interface BinarizationOptions {
+  windowSize?: number; // Sauvola window / block-mean block edge in pixels (default 16, about two ridge periods)
+  sauvolaK?: number; // Weight of the local deviation (default 0.2)
+  dynamicRange?: number; // Deviation normalizer R (default 128)
+  globalThreshold?: number; // Grey level for 'global' (default 128)
+}
+
+const DEFAULT_WINDOW_SIZE = 16;
+const DEFAULT_SAUVOLA_K = 0.2;
+const DEFAULT_DYNAMIC_RANGE = 128;
+const DEFAULT_GLOBAL_THRESHOLD = 128;
+
+/**
+ * Ridge map of the image: 1 where a pixel is darker than its threshold (ridge), 0 otherwise.
+ * With a mask, background pixels stay 0 and local statistics only count foreground pixels.
+ */
+export function binarizeRidges(
+  image: GrayscaleImage,
+  method: BinarizationMethod,
+  options: BinarizationOptions = {},
+  mask: Uint8Array | null = null
+): Uint8Array {
+  switch (method) {
+    case 'sauvola':
+      return sauvolaBinarize(image, options, mask);
+    case 'block-mean':
+      return blockMeanBinarize(image, options, mask);
+    case 'global':
+      return globalBinarize(image, options.globalThreshold ?? DEFAULT_GLOBAL_THRESHOLD, mask);
+  }
+}
+
+/**
+ * T = m · (1 + k · (s / R − 1)) over a window centred on each pixel, using integral images
+ */
+function sauvolaBinarize(image: GrayscaleImage, options: BinarizationOptions, mask: Uint8Array | null): Uint8Array {
+  const { width, height, data } = image;
+  const radius = Math.max(1, Math.floor((options.windowSize ?? DEFAULT_WINDOW_SIZE) / 2));
+  const k = options.sauvolaK ?? DEFAULT_SAUVOLA_K;
+  const range = options.dynamicRange ?? DEFAULT_DYNAMIC_RANGE;
+  const { sums, squares, counts } = integralImages(image, mask);
+  const stride = width + 1;
+  const binary = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius);
+    const bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (mask && !mask[i]) {
+        continue;
+      }
+      const left = Math.max(0, x - radius);
+      const right = Math.min(width, x + radius + 1);
+      const a = top * stride + left;
+      const b = top * stride + right;
+      const c = bottom * stride + left;
+      const d = bottom * stride + right;
+      const count = counts[d] - counts[b] - counts[c] + counts[a];
+      const mean = (sums[d] - sums[b] - sums[c] + sums[a]) / count;
+      const variance = Math.max(0, (squares[d] - squares[b] - squares[c] + squares[a]) / count - mean * mean);
+      const threshold = mean * (1 + k * (Math.sqrt(variance) / range - 1));
+      binary[i] = data[i] <= threshold ? 1 : 0;
+    }
+  }
+
+  return binary;
+}
+
+/**
+ * Every pixel is compared with the mean of the foreground pixels in its block
+ */
+function blockMeanBinarize(image: GrayscaleImage, options: BinarizationOptions, mask: Uint8Array | null): Uint8Array {
+  const { width, height, data } = image;
+  const blockSize = Math.max(2, options.windowSize ?? DEFAULT_WINDOW_SIZE);
+  const binary = new Uint8Array(width * height);
+
+  for (let blockY = 0; blockY < height; blockY += blockSize) {
+    for (let blockX = 0; blockX < width; blockX += blockSize) {
+      const bottom = Math.min(height, blockY + blockSize);
+      const right = Math.min(width, blockX + blockSize);
+      let sum = 0;
+      let count = 0;
+      for (let y = blockY; y < bottom; y++) {
+        for (let x = blockX; x < right; x++) {
+          const i = y * width + x;
+          if (!mask || mask[i]) {
+            sum += data[i];
+            count++;
+          }
+        }
+      }
+      if (count === 0) {
+        continue;
+      }
+
+      const mean = sum / count;
+      for (let y = blockY; y < bottom; y++) {
+        for (let x = blockX; x < right; x++) {
+          const i = y * width + x;
+          if (!mask || mask[i]) {
+            binary[i] = data[i] < mean ? 1 : 0;
+          }
+        }
+      }
+    }
+  }
+
+  return binary;
+}
+
+function globalBinarize(image: GrayscaleImage, threshold: number, mask: Uint8Array | null): Uint8Array {
+  const binary = new Uint8Array(image.data.length);
+  for (let i = 0; i < binary.length; i++) {
+    binary[i] = (!mask || mask[i]) && image.data[i] <= threshold ? 1 : 0;
+  }
+  return binary;
+}
+
+/**
+ * Summed-area tables of grey levels, squared grey levels and foreground pixel counts,
+ * one row and column larger than the image
+ */
+function integralImages(image: GrayscaleImage, mask: Uint8Array | null) {
+  const { width, height, data } = image;
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  const counts = new Uint32Array(stride * (height + 1));
+
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    let rowCount = 0;
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (!mask || mask[i]) {
+        rowSum += data[i];
+        rowSquares += data[i] * data[i];
+        rowCount++;
+      }
+      const cell = (y + 1) * stride + x + 1;
+      sums[cell] = sums[cell - stride] + rowSum;
+      squares[cell] = squares[cell - stride] + rowSquares;
+      counts[cell] = counts[cell - stride] + rowCount;
+    }
+  }
+
+  return { sums, squares, counts };
+}
@@ -0,0 +1,428 @@
+// Ridge enhancement for fingerprint images: normalization, block orientation field,
+// local ridge frequency and oriented Gabor filtering (after Hong, Wan and Jain, 1998)
+
+/**
+ * 8-bit single-channel image, row-major
+ */
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * Ridge orientation per block, in radians within [0, π), measured from the x axis (y pointing down)
+ */
+export interface OrientationField {
+  blockSize: number;
+  columns: number;
+  rows: number;
+  angles: Float32Array;
+  coherence: Float32Array; // 0 (isotropic, noise or background) to 1 (perfectly parallel ridges)
+}
+
+/**
+ * Ridge frequency per block, in cycles per pixel
+ */
+export interface RidgeFrequencyMap {
+  blockSize: number;
+  columns: number;
+  rows: number;
+  frequencies: Float32Array;
+}
+
+export interface RidgeEnhancementOptions {
+  blockSize?: number; // Orientation/frequency block size in pixels (default 16)
+  minWavelength?: number; // Shortest plausible ridge period in pixels (default 3)
+  maxWavelength?: number; // Longest plausible ridge period in pixels (default 25)
+  gaborSigma?: number; // Gaussian envelope of the Gabor kernel in pixels (default 4)
+}
+
+export interface RidgeEnhancementResult {
+  normalized: GrayscaleImage;
+  orientation: OrientationField;
+  frequency: RidgeFrequencyMap;
+  enhanced: GrayscaleImage; // Ridges dark, valleys light, like the input
+}
+
+const DEFAULT_BLOCK_SIZE = 16;
+const DEFAULT_MIN_WAVELENGTH = 3;
+const DEFAULT_MAX_WAVELENGTH = 25;
+const DEFAULT_GABOR_SIGMA = 4;
+const DEFAULT_WAVELENGTH = 9; // Typical ridge period at 500 ppi when a block gives no estimate
+const GABOR_ANGLE_STEPS = 32; // Kernel cache granularity over [0, π)
+const SIGNATURE_SMOOTHING = [1, 4, 6, 4, 1];
+
+/**
+ * Full enhancement stage: normalize, estimate orientation and frequency, then Gabor filter.
+ * An orientation field computed earlier in the pipeline can be passed in to avoid recomputing it.
+ */
+export function enhanceRidges(
+  image: GrayscaleImage,
+  options: RidgeEnhancementOptions = {},
+  orientation = estimateOrientationField(image, options.blockSize ?? DEFAULT_BLOCK_SIZE)
+): RidgeEnhancementResult {
+  const normalized = normalizeToZeroMean(image);
+  const frequency = estimateRidgeFrequency(
+    normalized,
+    image.width,
+    image.height,
+    orientation,
+    options.minWavelength ?? DEFAULT_MIN_WAVELENGTH,
+    options.maxWavelength ?? DEFAULT_MAX_WAVELENGTH
+  );
+  const enhanced = applyGaborFilter(
+    normalized,
+    image.width,
+    image.height,
+    orientation,
+    frequency,
+    options.gaborSigma ?? DEFAULT_GABOR_SIGMA
+  );
+
+  return { normalized: floatToGrayscale(normalized, image.width, image.height, 3), orientation, frequency, enhanced };
+}
+
+/**
+ * Block-wise least-squares orientation from Sobel gradients, smoothed as a doubled-angle vector field
+ */
+export function estimateOrientationField(image: GrayscaleImage, blockSize = DEFAULT_BLOCK_SIZE): OrientationField {
+  const { width, height, data } = image;
+  const columns = Math.ceil(width / blockSize);
+  const rows = Math.ceil(height / blockSize);
+  const vx = new Float32Array(columns * rows);
+  const vy = new Float32Array(columns * rows);
+  const energy = new Float32Array(columns * rows);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx =
+        data[i - width + 1] + 2 * data[i + 1] + data[i + width + 1] - data[i - width - 1] - 2 * data[i - 1] - data[i + width - 1];
+      const gy =
+        data[i + width - 1] + 2 * data[i + width] + data[i + width + 1] - data[i - width - 1] - 2 * data[i - width] - data[i - width + 1];
+      const block = Math.floor(y / blockSize) * columns + Math.floor(x / blockSize);
+      vx[block] += 2 * gx * gy;
+      vy[block] += gx * gx - gy * gy;
+      energy[block] += gx * gx + gy * gy;
+    }
+  }
+
+  const coherence = new Float32Array(columns * rows);
+  for (let block = 0; block < coherence.length; block++) {
+    coherence[block] = energy[block] > 0 ? Math.hypot(vx[block], vy[block]) / energy[block] : 0;
+  }
+
+  // Average the doubled-angle vectors over a 3×3 block neighbourhood so opposite angles do not cancel
+  const angles = new Float32Array(columns * rows);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let sumX = 0;
+      let sumY = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          if (r >= 0 && r < rows && c >= 0 && c < columns) {
+            sumX += vy[r * columns + c];
+            sumY += vx[r * columns + c];
+          }
+        }
+      }
+      // Dominant gradient direction, turned by 90° to follow the ridges
+      const gradientAngle = 0.5 * Math.atan2(sumY, sumX);
+      angles[row * columns + column] = wrapHalfTurn(gradientAngle + Math.PI / 2);
+    }
+  }
+
+  return { blockSize, columns, rows, angles, coherence };
+}
+
+/**
+ * Ridge frequency per block from the grey-level profile sampled across the ridges.
+ * Blocks without a plausible period are filled in from their neighbours.
+ */
+export function estimateRidgeFrequency(
+  normalized: Float32Array,
+  width: number,
+  height: number,
+  orientation: OrientationField,
+  minWavelength = DEFAULT_MIN_WAVELENGTH,
+  maxWavelength = DEFAULT_MAX_WAVELENGTH
+): RidgeFrequencyMap {
+  const { blockSize, columns, rows, angles } = orientation;
+  const frequencies = new Float32Array(columns * rows);
+  const windowLength = blockSize * 2;
+  const windowWidth = blockSize;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const block = row * columns + column;
+      const ridgeAngle = angles[block];
+      const centerX = column * blockSize + blockSize / 2;
+      const centerY = row * blockSize + blockSize / 2;
+      // Unit vectors along the ridges and across them
+      const alongX = Math.cos(ridgeAngle);
+      const alongY = Math.sin(ridgeAngle);
+      const acrossX = -alongY;
+      const acrossY = alongX;
+
+      const signature = new Float32Array(windowLength);
+      let samples = 0;
+      for (let k = 0; k < windowLength; k++) {
+        let sum = 0;
+        let count = 0;
+        for (let d = 0; d < windowWidth; d++) {
+          const offsetAlong = d - windowWidth / 2;
+          const offsetAcross = k - windowLength / 2;
+          const x = Math.round(centerX + offsetAlong * alongX + offsetAcross * acrossX);
+          const y = Math.round(centerY + offsetAlong * alongY + offsetAcross * acrossY);
+          if (x >= 0 && x < width && y >= 0 && y < height) {
+            sum += normalized[y * width + x];
+            count++;
+          }
+        }
+        signature[k] = count > 0 ? sum / count : 0;
+        samples += count;
+      }
+      if (samples < (windowLength * windowWidth) / 2) {
+        continue; // Mostly outside the image
+      }
+
+      // Light smoothing so sensor noise does not add peaks of its own
+      const smoothed = new Float32Array(windowLength);
+      for (let k = 0; k < windowLength; k++) {
+        let sum = 0;
+        let weight = 0;
+        for (let t = -2; t <= 2; t++) {
+          if (k + t >= 0 && k + t < windowLength) {
+            sum += SIGNATURE_SMOOTHING[t + 2] * signature[k + t];
+            weight += SIGNATURE_SMOOTHING[t + 2];
+          }
+        }
+        smoothed[k] = sum / weight;
+      }
+
+      const peaks: number[] = [];
+      for (let k = 1; k < windowLength - 1; k++) {
+        if (smoothed[k] > smoothed[k - 1] && smoothed[k] >= smoothed[k + 1]) {
+          peaks.push(k);
+        }
+      }
+      if (peaks.length < 2) {
+        continue;
+      }
+
+      const wavelength = (peaks[peaks.length - 1] - peaks[0]) / (peaks.length - 1);
+      if (wavelength >= minWavelength && wavelength <= maxWavelength) {
+        frequencies[block] = 1 / wavelength;
+      }
+    }
+  }
+
+  fillMissingFrequencies(frequencies, columns, rows);
+  return { blockSize, columns, rows, frequencies };
+}
+
+/**
+ * Filter every pixel with the even-symmetric Gabor kernel tuned to its block orientation and frequency
+ */
+export function applyGaborFilter(
+  normalized: Float32Array,
+  width: number,
+  height: number,
+  orientation: OrientationField,
+  frequency: RidgeFrequencyMap,
+  sigma = DEFAULT_GABOR_SIGMA
+): GrayscaleImage {
+  const radius = Math.ceil(2.5 * sigma);
+  const size = radius * 2 + 1;
+  const kernels = new Map<string, Float32Array>();
+  const response = new Float32Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    const blockRow = Math.min(orientation.rows - 1, Math.floor(y / orientation.blockSize));
+    for (let x = 0; x < width; x++) {
+      const block = blockRow * orientation.columns + Math.min(orientation.columns - 1, Math.floor(x / orientation.blockSize));
+      const angleStep = Math.round((orientation.angles[block] / Math.PI) * GABOR_ANGLE_STEPS) % GABOR_ANGLE_STEPS;
+      const wavelength = Math.round(1 / frequency.frequencies[block]);
+      const key = `${angleStep}:${wavelength}`;
+      let kernel = kernels.get(key);
+      if (!kernel) {
+        kernel = gaborKernel((angleStep * Math.PI) / GABOR_ANGLE_STEPS, 1 / wavelength, sigma, radius);
+        kernels.set(key, kernel);
+      }
+
+      let sum = 0;
+      for (let ky = 0; ky < size; ky++) {
+        const sy = y + ky - radius;
+        if (sy < 0 || sy >= height) {
+          continue;
+        }
+        const rowOffset = sy * width;
+        const kernelOffset = ky * size;
+        for (let kx = 0; kx < size; kx++) {
+          const sx = x + kx - radius;
+          if (sx >= 0 && sx < width) {
+            sum += kernel[kernelOffset + kx] * normalized[rowOffset + sx];
+          }
+        }
+      }
+      response[y * width + x] = sum;
+    }
+  }
+
+  return floatToGrayscale(response, width, height, 3);
+}
+
+/**
+ * Median ridge period over the blocks of a frequency map, in pixels
+ */
+export function medianRidgePeriod(map: RidgeFrequencyMap): number {
+  const periods = Array.from(map.frequencies, frequency => 1 / frequency).sort((a, b) => a - b);
+  return periods.length > 0 ? periods[Math.floor(periods.length / 2)] : DEFAULT_WAVELENGTH;
+}
+
+/**
+ * Render the orientation field as an image: one grey level per block, black = 0°, white = 180°
+ */
+export function renderOrientationField(field: OrientationField, width: number, height: number): GrayscaleImage {
+  return renderBlocks(field, width, height, block => (field.angles[block] / Math.PI) * 255);
+}
+
+/**
+ * Render the frequency map as an image: darker blocks have shorter ridge periods
+ */
+export function renderRidgeFrequency(map: RidgeFrequencyMap, width: number, height: number): GrayscaleImage {
+  return renderBlocks(map, width, height, block => Math.min(255, (1 / map.frequencies[block]) * 10));
+}
+
+/**
+ * Zero-mean, unit-variance copy of the image as floats
+ */
+function normalizeToZeroMean(image: GrayscaleImage): Float32Array {
+  const { data } = image;
+  let mean = 0;
+  for (let i = 0; i < data.length; i++) {
+    mean += data[i];
+  }
+  mean /= data.length || 1;
+
+  let variance = 0;
+  for (let i = 0; i < data.length; i++) {
+    variance += (data[i] - mean) ** 2;
+  }
+  const deviation = Math.sqrt(variance / (data.length || 1)) || 1;
+
+  const normalized = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    normalized[i] = (data[i] - mean) / deviation;
+  }
+  return normalized;
+}
+
+/**
+ * Even-symmetric Gabor kernel: cosine across the ridges, Gaussian envelope in both directions
+ */
+function gaborKernel(ridgeAngle: number, frequency: number, sigma: number, radius: number): Float32Array {
+  const size = radius * 2 + 1;
+  const kernel = new Float32Array(size * size);
+  const acrossX = -Math.sin(ridgeAngle);
+  const acrossY = Math.cos(ridgeAngle);
+  let mean = 0;
+
+  for (let y = -radius; y <= radius; y++) {
+    for (let x = -radius; x <= radius; x++) {
+      const across = x * acrossX + y * acrossY;
+      const value = Math.exp(-(x * x + y * y) / (2 * sigma * sigma)) * Math.cos(2 * Math.PI * frequency * across);
+      kernel[(y + radius) * size + x + radius] = value;
+      mean += value;
+    }
+  }
+
+  // Zero DC response so flat regions map to mid-grey
+  mean /= kernel.length;
+  for (let i = 0; i < kernel.length; i++) {
+    kernel[i] -= mean;
+  }
+  return kernel;
+}
+
+/**
+ * Replace blocks without an estimate by the mean of their estimated neighbours, growing
+ * outwards until every block has one; a map with no estimate at all uses the typical period
+ */
+function fillMissingFrequencies(frequencies: Float32Array, columns: number, rows: number): void {
+  if (!frequencies.some(value => value > 0)) {
+    frequencies.fill(1 / DEFAULT_WAVELENGTH);
+    return;
+  }
+
+  let missing = frequencies.filter(value => value === 0).length;
+  while (missing > 0) {
+    const next = frequencies.slice();
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const block = row * columns + column;
+        if (frequencies[block] > 0) {
+          continue;
+        }
+        let sum = 0;
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const r = row + dy;
+            const c = column + dx;
+            if (r >= 0 && r < rows && c >= 0 && c < columns && frequencies[r * columns + c] > 0) {
+              sum += frequencies[r * columns + c];
+              count++;
+            }
+          }
+        }
+        if (count > 0) {
+          next[block] = sum / count;
+          missing--;
+        }
+      }
+    }
+    frequencies.set(next);
+  }
+}
+
+/**
+ * Map floats to 0-255 around mid-grey, clipping at ±`spread` standard deviations
+ */
+function floatToGrayscale(values: Float32Array, width: number, height: number, spread: number): GrayscaleImage {
+  let variance = 0;
+  for (let i = 0; i < values.length; i++) {
+    variance += values[i] * values[i];
+  }
+  const deviation = Math.sqrt(variance / (values.length || 1)) || 1;
+  const scale = 127.5 / (spread * deviation);
+
+  const data = new Uint8ClampedArray(values.length);
+  for (let i = 0; i < values.length; i++) {
+    data[i] = 127.5 + values[i] * scale;
+  }
+  return { width, height, data };
+}
+
+function renderBlocks(
+  grid: { blockSize: number; columns: number },
+  width: number,
+  height: number,
+  value: (block: number) => number
+): GrayscaleImage {
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = value(Math.floor(y / grid.blockSize) * grid.columns + Math.floor(x / grid.blockSize));
+    }
+  }
+  return { width, height, data };
+}
+
+function wrapHalfTurn(angle: number): number {
+  const wrapped = angle % Math.PI;
+  return wrapped < 0 ? wrapped + Math.PI : wrapped;
+}
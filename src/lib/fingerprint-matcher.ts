@@ -0,0 +1,173 @@
+// Minutiae matcher: aligns two minutiae sets with a Hough transform over rotation and
+// translation, then pairs minutiae within distance and angle tolerances
+
+import { SkeletonMinutia } from "./fingerprint-thinning";
+
+export interface MatchMinutia extends SkeletonMinutia {
+  angle: number; // Degrees [0, 360), counter-clockwise with y up
+}
+
+export interface MatcherOptions {
+  distanceTolerance?: number; // Pixels a paired minutia may lie from its aligned partner (default 12)
+  angleTolerance?: number; // Degrees paired minutia directions may differ by (default 20)
+  maxRotation?: number; // Largest rotation searched either way, in degrees (default 60)
+  rotationBin?: number; // Hough accumulator bin size in degrees (default 6)
+  translationBin?: number; // Hough accumulator bin size in pixels (default 16)
+}
+
+/**
+ * Maps reference onto query coordinates: rotate about the image origin (degrees,
+ * counter-clockwise with y up), then shift by (dx, dy) pixels
+ */
+export interface MatchTransform {
+  rotation: number;
+  dx: number;
+  dy: number;
+}
+
+export interface MinutiaeMatch {
+  score: number; // pairs² / (reference count × query count), 0-1
+  pairs: Array<[number, number]>; // [reference index, query index]
+  transform: MatchTransform | null; // null when no alignment had any support
+}
+
+const DEFAULT_DISTANCE_TOLERANCE = 12;
+const DEFAULT_ANGLE_TOLERANCE = 20;
+const DEFAULT_MAX_ROTATION = 60;
+const DEFAULT_ROTATION_BIN = 6;
+const DEFAULT_TRANSLATION_BIN = 16;
+const HOUGH_PEAKS = 5; // Strongest accumulator cells checked by pairing
+
+interface HoughCell {
+  votes: number;
+  rotation: number; // Sums of the votes, averaged into the cell's transform
+  dx: number;
+  dy: number;
+}
+
+/**
+ * Every reference/query pair votes for the rotation and translation that would superimpose
+ * them; the strongest cells are refined to their mean transform and the one pairing the most
+ * minutiae wins
+ */
+export function matchMinutiae(
+  reference: MatchMinutia[],
+  query: MatchMinutia[],
+  options: MatcherOptions = {}
+): MinutiaeMatch {
+  if (reference.length === 0 || query.length === 0) {
+    return { score: 0, pairs: [], transform: null };
+  }
+  const maxRotation = options.maxRotation ?? DEFAULT_MAX_ROTATION;
+  const rotationBin = options.rotationBin ?? DEFAULT_ROTATION_BIN;
+  const translationBin = options.translationBin ?? DEFAULT_TRANSLATION_BIN;
+
+  // Rotating about the reference centroid keeps translation votes tight under small rotation errors
+  const centerX = reference.reduce((sum, minutia) => sum + minutia.x, 0) / reference.length;
+  const centerY = reference.reduce((sum, minutia) => sum + minutia.y, 0) / reference.length;
+
+  const accumulator = new Map<string, HoughCell>();
+  for (const r of reference) {
+    for (const q of query) {
+      const rotation = signedAngle(q.angle - r.angle);
+      if (Math.abs(rotation) > maxRotation) {
+        continue;
+      }
+      const [rx, ry] = rotate(r.x - centerX, r.y - centerY, rotation);
+      const dx = q.x - rx;
+      const dy = q.y - ry;
+      const key = `${Math.floor(rotation / rotationBin)},${Math.floor(dx / translationBin)},${Math.floor(dy / translationBin)}`;
+      const cell = accumulator.get(key) ?? { votes: 0, rotation: 0, dx: 0, dy: 0 };
+      cell.votes++;
+      cell.rotation += rotation;
+      cell.dx += dx;
+      cell.dy += dy;
+      accumulator.set(key, cell);
+    }
+  }
+
+  let best: MinutiaeMatch = { score: 0, pairs: [], transform: null };
+  const peaks = Array.from(accumulator.values())
+    .sort((a, b) => b.votes - a.votes)
+    .slice(0, HOUGH_PEAKS);
+  for (const peak of peaks) {
+    const rotation = peak.rotation / peak.votes;
+    // Fold the centroid back in so the transform applies to plain image coordinates
+    const [cx, cy] = rotate(centerX, centerY, rotation);
+    const transform = { rotation, dx: peak.dx / peak.votes - cx, dy: peak.dy / peak.votes - cy };
+    const pairs = pairMinutiae(reference, query, transform, options);
+    if (pairs.length > best.pairs.length) {
+      best = { score: (pairs.length * pairs.length) / (reference.length * query.length), pairs, transform };
+    }
+  }
+  return best;
+}
+
+/**
+ * Position and direction of a minutia after the transform
+ */
+export function applyTransform(minutia: MatchMinutia, transform: MatchTransform): MatchMinutia {
+  const [x, y] = rotate(minutia.x, minutia.y, transform.rotation);
+  return {
+    ...minutia,
+    x: x + transform.dx,
+    y: y + transform.dy,
+    angle: (((minutia.angle + transform.rotation) % 360) + 360) % 360
+  };
+}
+
+/**
+ * Greedy one-to-one pairing of aligned minutiae, closest pairs first. Types are not
+ * compared: pressure and noise turn endings into bifurcations and back.
+ */
+function pairMinutiae(
+  reference: MatchMinutia[],
+  query: MatchMinutia[],
+  transform: MatchTransform,
+  options: MatcherOptions
+): Array<[number, number]> {
+  const distanceTolerance = options.distanceTolerance ?? DEFAULT_DISTANCE_TOLERANCE;
+  const angleTolerance = options.angleTolerance ?? DEFAULT_ANGLE_TOLERANCE;
+
+  const candidates: Array<{ r: number; q: number; distance: number }> = [];
+  reference.forEach((minutia, r) => {
+    const aligned = applyTransform(minutia, transform);
+    query.forEach((other, q) => {
+      const distance = Math.hypot(aligned.x - other.x, aligned.y - other.y);
+      if (distance <= distanceTolerance && Math.abs(signedAngle(aligned.angle - other.angle)) <= angleTolerance) {
+        candidates.push({ r, q, distance });
+      }
+    });
+  });
+  candidates.sort((a, b) => a.distance - b.distance);
+
+  const usedReference = new Set<number>();
+  const usedQuery = new Set<number>();
+  const pairs: Array<[number, number]> = [];
+  for (const { r, q } of candidates) {
+    if (!usedReference.has(r) && !usedQuery.has(q)) {
+      usedReference.add(r);
+      usedQuery.add(q);
+      pairs.push([r, q]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Rotate image coordinates (y down) by degrees counter-clockwise as seen with y up
+ */
+function rotate(x: number, y: number, degrees: number): [number, number] {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return [x * cos + y * sin, -x * sin + y * cos];
+}
+
+/**
+ * Angle difference wrapped into (−180°, 180°]
+ */
+function signedAngle(degrees: number): number {
+  const wrapped = ((degrees % 360) + 360) % 360;
+  return wrapped > 180 ? wrapped - 360 : wrapped;
+}
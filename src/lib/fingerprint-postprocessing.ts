@@ -0,0 +1,359 @@
+// Removal of spurious minutiae by tracing the skeleton around each candidate
+// (spurs, bridges, broken ridges, islands and lakes), per-minutia reliability scores and
+// ridge directions from the same traces
+
+import { OrientationField } from "./fingerprint-enhancement";
+import { crossingNumber, NEIGHBOR_OFFSETS, SkeletonMinutia } from "./fingerprint-thinning";
+
+export type SpuriousStructure = 'spur' | 'bridge' | 'broken-ridge' | 'island' | 'lake';
+
+export interface PostProcessingOptions {
+  ridgePeriod?: number; // Mean ridge-to-ridge distance in pixels (default 9); every distance rule scales with it
+}
+
+export interface ReliableMinutia extends SkeletonMinutia {
+  angle: number; // Degrees in [0, 360), counter-clockwise from the +x axis as displayed (see minutiaDirection)
+  reliability: number; // 0-1: local orientation coherence and how far the ridges around it trace cleanly
+}
+
+export interface PostProcessingResult {
+  minutiae: ReliableMinutia[]; // Most reliable first
+  removed: Record<SpuriousStructure, number>; // Candidates dropped per structure
+}
+
+/**
+ * Path followed from a minutia along one skeleton branch
+ */
+interface RidgeTrace {
+  path: number[]; // Pixel indices, starting next to the minutia
+  end: 'ending' | 'bifurcation' | 'length' | 'dead';
+}
+
+const DEFAULT_RIDGE_PERIOD = 9;
+const JUNCTION_RADIUS = 2; // Crossing-number-3 pixels this close to a junction belong to it
+const FACING_TOLERANCE = Math.PI / 4;
+const MIN_DIRECTION_TRACE = 3; // Shorter traces give no usable direction
+const FIELD_COHERENCE = 0.5; // Above this the smoothed orientation field is trusted over the trace
+
+/**
+ * Drop candidates that belong to thinning artifacts and rank the rest by reliability
+ */
+export function removeSpuriousMinutiae(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  candidates: SkeletonMinutia[],
+  orientation: OrientationField,
+  options: PostProcessingOptions = {}
+): PostProcessingResult {
+  const period = options.ridgePeriod ?? DEFAULT_RIDGE_PERIOD;
+  const traceLength = Math.ceil(3 * period);
+  const removed: Record<SpuriousStructure, number> = { spur: 0, bridge: 0, 'broken-ridge': 0, island: 0, lake: 0 };
+  const dropped = new Set<number>();
+  const byPixel = new Map<number, number>();
+  candidates.forEach((candidate, index) => byPixel.set(candidate.y * width + candidate.x, index));
+
+  const drop = (kind: SpuriousStructure, ...indices: Array<number | null>) => {
+    const fresh = indices.filter((index): index is number => index !== null && !dropped.has(index));
+    if (fresh.length === 0) {
+      return;
+    }
+    fresh.forEach(index => dropped.add(index));
+    removed[kind] += fresh.length;
+  };
+  const candidateNear = (pixel: number) => findCandidateNear(byPixel, pixel, width, height);
+  const traces = candidates.map(candidate => traceBranches(skeleton, width, height, candidate, traceLength));
+
+  candidates.forEach((candidate, index) => {
+    if (dropped.has(index)) {
+      return;
+    }
+    if (candidate.type === 'ending') {
+      const [trace] = traces[index];
+      if (!trace) {
+        return;
+      }
+      const other = candidateNear(trace.path[trace.path.length - 1]);
+      if (trace.end === 'bifurcation' && trace.path.length <= period) {
+        drop('spur', index, other); // Short side branch off a ridge
+      } else if (trace.end === 'ending' && trace.path.length <= 2 * period) {
+        drop('island', index, other); // Short ridge or isolated dot
+      }
+      return;
+    }
+
+    // Bifurcation: two branches meeting the same junction enclose a lake, one short link is a bridge
+    const junctions = traces[index]
+      .filter(trace => trace.end === 'bifurcation')
+      .map(trace => ({ pixel: trace.path[trace.path.length - 1], length: trace.path.length }));
+    for (let i = 0; i < junctions.length; i++) {
+      for (let j = i + 1; j < junctions.length; j++) {
+        if (pixelDistance(junctions[i].pixel, junctions[j].pixel, width) <= JUNCTION_RADIUS) {
+          drop('lake', index, candidateNear(junctions[i].pixel));
+          return;
+        }
+      }
+    }
+    const bridge = junctions.find(junction => junction.length <= 1.5 * period); // Spans one ridge gap
+    if (bridge) {
+      drop('bridge', index, candidateNear(bridge.pixel));
+    }
+  });
+
+  // Broken ridge: two endings facing each other across a short gap along the ridge flow
+  const endings = candidates.flatMap((candidate, index) => {
+    const direction = endingDirection(candidate, traces[index][0], width, period);
+    return candidate.type === 'ending' && !dropped.has(index) && direction !== null ? [{ candidate, index, direction }] : [];
+  });
+  for (let i = 0; i < endings.length; i++) {
+    for (let j = i + 1; j < endings.length; j++) {
+      const a = endings[i];
+      const b = endings[j];
+      if (dropped.has(a.index) || dropped.has(b.index)) {
+        continue;
+      }
+      const dx = b.candidate.x - a.candidate.x;
+      const dy = b.candidate.y - a.candidate.y;
+      if (Math.hypot(dx, dy) > 1.5 * period) {
+        continue;
+      }
+      const gap = Math.atan2(dy, dx);
+      const opposite = angleBetween(a.direction, b.direction + Math.PI) <= FACING_TOLERANCE;
+      const aligned = angleBetween(a.direction, gap) <= FACING_TOLERANCE;
+      if (opposite && aligned) {
+        drop('broken-ridge', a.index, b.index);
+      }
+    }
+  }
+
+  const minutiae = candidates
+    .map((candidate, index) => ({ candidate, index }))
+    .filter(({ index }) => !dropped.has(index))
+    .map(({ candidate, index }) => ({
+      ...candidate,
+      angle: minutiaDirection(candidate, traces[index], orientation, width, period),
+      reliability: reliability(candidate, traces[index], orientation, traceLength)
+    }))
+    .sort((a, b) => b.reliability - a.reliability);
+
+  return { minutiae, removed };
+}
+
+/**
+ * Follow every branch leaving a minutia: one for an ending, three for a bifurcation
+ */
+function traceBranches(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  minutia: { x: number; y: number },
+  maxLength: number
+): RidgeTrace[] {
+  const start = minutia.y * width + minutia.x;
+  const neighbors = NEIGHBOR_OFFSETS.map(([dx, dy]) => {
+    const x = minutia.x + dx;
+    const y = minutia.y + dy;
+    return x >= 0 && y >= 0 && x < width && y < height && skeleton[y * width + x] ? y * width + x : -1;
+  });
+
+  // Each run of consecutive ridge neighbours (cyclically) is one branch; enter it through
+  // its 4-connected pixel when it has one
+  const runs: number[][] = [];
+  for (let i = 0; i < 8; i++) {
+    if (neighbors[i] === -1 || neighbors[(i + 7) % 8] !== -1) {
+      continue;
+    }
+    const run: number[] = [];
+    for (let k = i; neighbors[k % 8] !== -1 && k < i + 8; k++) {
+      run.push(k % 8);
+    }
+    runs.push(run);
+  }
+
+  // A trace may use its own run but not the pixels of the other branches
+  return runs.map(run => {
+    const entry = neighbors[run.find(k => k % 2 === 0) ?? run[0]];
+    const blocked = new Set([start]);
+    for (const other of runs) {
+      if (other !== run) {
+        other.forEach(k => blocked.add(neighbors[k]));
+      }
+    }
+    return followRidge(skeleton, width, height, entry, blocked, maxLength);
+  });
+}
+
+function followRidge(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  entry: number,
+  blocked: Set<number>,
+  maxLength: number
+): RidgeTrace {
+  const visited = new Set(blocked);
+  const path: number[] = [];
+  let current = entry;
+
+  for (;;) {
+    path.push(current);
+    visited.add(current);
+    const x = current % width;
+    const y = Math.floor(current / width);
+    if (x < 1 || y < 1 || x >= width - 1 || y >= height - 1) {
+      return { path, end: 'dead' };
+    }
+    const cn = crossingNumber(skeleton, width, x, y);
+    if (cn === 1 && path.length > 1) {
+      return { path, end: 'ending' };
+    }
+    if (cn >= 3 && path.length > JUNCTION_RADIUS) {
+      return { path, end: 'bifurcation' };
+    }
+    if (path.length >= maxLength) {
+      return { path, end: 'length' };
+    }
+
+    let next = -1;
+    for (let i = 0; i < 8; i++) {
+      const [dx, dy] = NEIGHBOR_OFFSETS[i];
+      const pixel = (y + dy) * width + x + dx;
+      if (!skeleton[pixel] || visited.has(pixel)) {
+        continue;
+      }
+      if (next === -1 || i % 2 === 0) {
+        next = pixel;
+        if (i % 2 === 0) {
+          break;
+        }
+      }
+    }
+    if (next === -1) {
+      return { path, end: 'dead' };
+    }
+    current = next;
+  }
+}
+
+/**
+ * Minutia direction in degrees, [0, 360) counter-clockwise with y pointing up on screen.
+ * Ending: along its ridge, away from the ending. Bifurcation: into the fork, along the bisector
+ * of its two branches (away from the stem). The traced direction λ pixels out decides the sense;
+ * where the orientation field is coherent, the smoothed field orientation gives the exact angle.
+ */
+function minutiaDirection(
+  minutia: SkeletonMinutia,
+  traces: RidgeTrace[],
+  orientation: OrientationField,
+  width: number,
+  period: number
+): number {
+  const directions = traces
+    .filter(trace => trace.path.length >= MIN_DIRECTION_TRACE)
+    .map(trace => tracedDirection(minutia, trace, width, period));
+  const block =
+    Math.min(orientation.rows - 1, Math.floor(minutia.y / orientation.blockSize)) * orientation.columns +
+    Math.min(orientation.columns - 1, Math.floor(minutia.x / orientation.blockSize));
+  // Field angles are in image coordinates (y down); flip to the counter-clockwise convention
+  const fieldAngle = -orientation.angles[block];
+
+  let traced: number | null = null;
+  if (minutia.type === 'ending' && directions.length >= 1) {
+    traced = directions[0];
+  } else if (minutia.type === 'bifurcation' && directions.length === 3) {
+    // The two branches closest in direction form the fork; the third is the stem
+    const pairs: Array<[number, number, number]> = [[0, 1, 2], [0, 2, 1], [1, 2, 0]];
+    const [a, b] = pairs.reduce((best, pair) =>
+      angleBetween(directions[pair[0]], directions[pair[1]]) < angleBetween(directions[best[0]], directions[best[1]])
+        ? pair
+        : best
+    );
+    traced = Math.atan2(
+      Math.sin(directions[a]) + Math.sin(directions[b]),
+      Math.cos(directions[a]) + Math.cos(directions[b])
+    );
+  }
+
+  let angle: number;
+  if (traced === null) {
+    angle = fieldAngle; // Sense unknown: the field orientation is the best available
+  } else if (orientation.coherence[block] >= FIELD_COHERENCE) {
+    angle = angleBetween(fieldAngle, traced) <= Math.PI / 2 ? fieldAngle : fieldAngle + Math.PI;
+  } else {
+    angle = traced;
+  }
+
+  const degrees = (angle * 180) / Math.PI;
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Direction from the minutia to the traced pixel λ steps out, counter-clockwise with y up
+ */
+function tracedDirection(minutia: SkeletonMinutia, trace: RidgeTrace, width: number, period: number): number {
+  const anchor = trace.path[Math.min(trace.path.length, Math.ceil(period)) - 1];
+  return Math.atan2(minutia.y - Math.floor(anchor / width), (anchor % width) - minutia.x);
+}
+
+/**
+ * Direction in which the ridge would continue past an ending, in radians
+ */
+function endingDirection(ending: SkeletonMinutia, trace: RidgeTrace | undefined, width: number, period: number): number | null {
+  if (!trace || trace.path.length < 3) {
+    return null;
+  }
+  const anchor = trace.path[Math.min(trace.path.length, Math.ceil(period)) - 1];
+  return Math.atan2(ending.y - Math.floor(anchor / width), ending.x - (anchor % width));
+}
+
+function reliability(
+  minutia: SkeletonMinutia,
+  traces: RidgeTrace[],
+  orientation: OrientationField,
+  traceLength: number
+): number {
+  const { blockSize, columns, rows, coherence } = orientation;
+  const column = Math.floor(minutia.x / blockSize);
+  const row = Math.floor(minutia.y / blockSize);
+  let sum = 0;
+  let count = 0;
+  for (let dy = -1; dy <= 1; dy++) {
+    for (let dx = -1; dx <= 1; dx++) {
+      const r = row + dy;
+      const c = column + dx;
+      if (r >= 0 && r < rows && c >= 0 && c < columns) {
+        sum += coherence[r * columns + c];
+        count++;
+      }
+    }
+  }
+
+  const shortest = traces.length > 0 ? Math.min(...traces.map(trace => trace.path.length)) : 0;
+  return 0.5 * (sum / Math.max(1, count)) + 0.5 * Math.min(1, shortest / traceLength);
+}
+
+function findCandidateNear(byPixel: Map<number, number>, pixel: number, width: number, height: number): number | null {
+  const x = pixel % width;
+  const y = Math.floor(pixel / width);
+  for (let dy = -JUNCTION_RADIUS; dy <= JUNCTION_RADIUS; dy++) {
+    for (let dx = -JUNCTION_RADIUS; dx <= JUNCTION_RADIUS; dx++) {
+      if (x + dx < 0 || y + dy < 0 || x + dx >= width || y + dy >= height) {
+        continue;
+      }
+      const index = byPixel.get((y + dy) * width + x + dx);
+      if (index !== undefined) {
+        return index;
+      }
+    }
+  }
+  return null;
+}
+
+function pixelDistance(a: number, b: number, width: number): number {
+  return Math.max(Math.abs((a % width) - (b % width)), Math.abs(Math.floor(a / width) - Math.floor(b / width)));
+}
+
+function angleBetween(a: number, b: number): number {
+  const difference = Math.abs(a - b) % (2 * Math.PI);
+  return difference > Math.PI ? 2 * Math.PI - difference : difference;
+}
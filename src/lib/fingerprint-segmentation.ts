@@ -0,0 +1,296 @@
+// Foreground segmentation: separates the print from background and border regions using
+// block grey-level deviation and orientation coherence
+
+import { GrayscaleImage, OrientationField } from "./fingerprint-enhancement";
+
+export interface SegmentationOptions {
+  minDeviation?: number; // Grey-level standard deviation a foreground block needs (default 12)
+  minCoherence?: number; // Orientation coherence a foreground block needs (default 0.2)
+  boundaryMargin?: number; // Pixels eroded from the foreground before minutiae are accepted (default 16)
+}
+
+/**
+ * Region of interest of a fingerprint image. Outside the image counts as background,
+ * so the interior also keeps its distance from the image borders.
+ */
+export interface ForegroundMask {
+  width: number;
+  height: number;
+  foreground: Uint8Array; // 1 on print pixels, per pixel
+  interior: Uint8Array; // Foreground eroded by boundaryMargin: where minutiae are trusted
+  foregroundRatio: number; // Share of the image covered by the foreground (0-1)
+}
+
+const DEFAULT_MIN_DEVIATION = 12;
+const DEFAULT_MIN_COHERENCE = 0.2;
+const DEFAULT_BOUNDARY_MARGIN = 16;
+
+/**
+ * Classify the blocks of the orientation field, clean the block mask up (closing, hole
+ * filling, largest region) and erode it into the interior where minutiae are kept
+ */
+export function segmentFingerprint(
+  image: GrayscaleImage,
+  orientation: OrientationField,
+  options: SegmentationOptions = {}
+): ForegroundMask {
+  const { width, height } = image;
+  const { blockSize, columns, rows } = orientation;
+  const deviations = blockDeviations(image, blockSize, columns, rows);
+  const minDeviation = options.minDeviation ?? DEFAULT_MIN_DEVIATION;
+  const minCoherence = options.minCoherence ?? DEFAULT_MIN_COHERENCE;
+
+  let blocks = new Uint8Array(columns * rows);
+  for (let block = 0; block < blocks.length; block++) {
+    blocks[block] = deviations[block] >= minDeviation && orientation.coherence[block] >= minCoherence ? 1 : 0;
+  }
+
+  // Cores and deltas have low coherence; closing and hole filling keep them in the print
+  blocks = erodeBlocks(dilateBlocks(blocks, columns, rows), columns, rows);
+  fillHoles(blocks, columns, rows);
+  blocks = largestRegion(blocks, columns, rows);
+
+  // Blocks on the print boundary straddle print and background: decide those pixel by pixel
+  const boundary = boundaryBlocks(blocks, columns, rows);
+  const localDeviation = windowDeviation(image, blockSize);
+  const foreground = new Uint8Array(width * height);
+  let foregroundPixels = 0;
+  for (let y = 0; y < height; y++) {
+    const row = Math.floor(y / blockSize) * columns;
+    for (let x = 0; x < width; x++) {
+      const block = row + Math.floor(x / blockSize);
+      const i = y * width + x;
+      if (blocks[block] && (!boundary[block] || localDeviation(x, y) >= minDeviation)) {
+        foreground[i] = 1;
+        foregroundPixels++;
+      }
+    }
+  }
+
+  const margin = options.boundaryMargin ?? DEFAULT_BOUNDARY_MARGIN;
+  const distances = distanceToBackground(foreground, width, height);
+  const interior = new Uint8Array(width * height);
+  for (let i = 0; i < interior.length; i++) {
+    interior[i] = distances[i] > margin ? 1 : 0;
+  }
+
+  return { width, height, foreground, interior, foregroundRatio: foregroundPixels / Math.max(1, width * height) };
+}
+
+function blockDeviations(image: GrayscaleImage, blockSize: number, columns: number, rows: number): Float32Array {
+  const { width, height, data } = image;
+  const sums = new Float64Array(columns * rows);
+  const squares = new Float64Array(columns * rows);
+  const counts = new Uint32Array(columns * rows);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const block = Math.floor(y / blockSize) * columns + Math.floor(x / blockSize);
+      const value = data[y * width + x];
+      sums[block] += value;
+      squares[block] += value * value;
+      counts[block]++;
+    }
+  }
+
+  const deviations = new Float32Array(columns * rows);
+  for (let block = 0; block < deviations.length; block++) {
+    const mean = sums[block] / Math.max(1, counts[block]);
+    deviations[block] = Math.sqrt(Math.max(0, squares[block] / Math.max(1, counts[block]) - mean * mean));
+  }
+  return deviations;
+}
+
+/**
+ * Foreground blocks with a 4-connected background neighbour
+ */
+function boundaryBlocks(blocks: Uint8Array, columns: number, rows: number): Uint8Array {
+  const boundary = new Uint8Array(blocks.length);
+  for (let block = 0; block < blocks.length; block++) {
+    if (blocks[block] && blockNeighbours(block, columns, rows).some(next => !blocks[next])) {
+      boundary[block] = 1;
+    }
+  }
+  return boundary;
+}
+
+/**
+ * Grey-level standard deviation over a window of the given size centred on a pixel (integral images)
+ */
+function windowDeviation(image: GrayscaleImage, windowSize: number): (x: number, y: number) => number {
+  const { width, height, data } = image;
+  const stride = width + 1;
+  const sums = new Float64Array(stride * (height + 1));
+  const squares = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    let rowSquares = 0;
+    for (let x = 0; x < width; x++) {
+      const value = data[y * width + x];
+      rowSum += value;
+      rowSquares += value * value;
+      const cell = (y + 1) * stride + x + 1;
+      sums[cell] = sums[cell - stride] + rowSum;
+      squares[cell] = squares[cell - stride] + rowSquares;
+    }
+  }
+
+  const radius = Math.floor(windowSize / 2);
+  return (x, y) => {
+    const top = Math.max(0, y - radius) * stride;
+    const bottom = Math.min(height, y + radius + 1) * stride;
+    const left = Math.max(0, x - radius);
+    const right = Math.min(width, x + radius + 1);
+    const count = ((bottom - top) / stride) * (right - left);
+    const sum = sums[bottom + right] - sums[top + right] - sums[bottom + left] + sums[top + left];
+    const square = squares[bottom + right] - squares[top + right] - squares[bottom + left] + squares[top + left];
+    const mean = sum / count;
+    return Math.sqrt(Math.max(0, square / count - mean * mean));
+  };
+}
+
+function dilateBlocks(blocks: Uint8Array, columns: number, rows: number): Uint8Array {
+  return morphBlocks(blocks, columns, rows, (neighbourhood) => neighbourhood.some(Boolean));
+}
+
+/**
+ * Blocks at the image edge only need their in-image neighbours, so closing does not eat the border
+ */
+function erodeBlocks(blocks: Uint8Array, columns: number, rows: number): Uint8Array {
+  return morphBlocks(blocks, columns, rows, (neighbourhood) => neighbourhood.every(Boolean));
+}
+
+function morphBlocks(
+  blocks: Uint8Array,
+  columns: number,
+  rows: number,
+  keep: (neighbourhood: number[]) => boolean
+): Uint8Array {
+  const result = new Uint8Array(blocks.length);
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const neighbourhood: number[] = [];
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          if (r >= 0 && r < rows && c >= 0 && c < columns) {
+            neighbourhood.push(blocks[r * columns + c]);
+          }
+        }
+      }
+      result[row * columns + column] = keep(neighbourhood) ? 1 : 0;
+    }
+  }
+  return result;
+}
+
+/**
+ * Background regions that do not touch the image edge are enclosed by the print
+ */
+function fillHoles(blocks: Uint8Array, columns: number, rows: number): void {
+  const outside = new Uint8Array(blocks.length);
+  const queue: number[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      const block = row * columns + column;
+      const onEdge = row === 0 || column === 0 || row === rows - 1 || column === columns - 1;
+      if (onEdge && !blocks[block]) {
+        outside[block] = 1;
+        queue.push(block);
+      }
+    }
+  }
+
+  while (queue.length > 0) {
+    const block = queue.pop()!;
+    for (const next of blockNeighbours(block, columns, rows)) {
+      if (!blocks[next] && !outside[next]) {
+        outside[next] = 1;
+        queue.push(next);
+      }
+    }
+  }
+
+  for (let block = 0; block < blocks.length; block++) {
+    if (!outside[block]) {
+      blocks[block] = 1;
+    }
+  }
+}
+
+/**
+ * Keep only the largest 4-connected foreground region; smudges and stray text elsewhere drop out
+ */
+function largestRegion(blocks: Uint8Array, columns: number, rows: number): Uint8Array {
+  const labels = new Int32Array(blocks.length).fill(-1);
+  let bestLabel = -1;
+  let bestSize = 0;
+
+  for (let start = 0; start < blocks.length; start++) {
+    if (!blocks[start] || labels[start] !== -1) {
+      continue;
+    }
+    let size = 0;
+    const queue = [start];
+    labels[start] = start;
+    while (queue.length > 0) {
+      const block = queue.pop()!;
+      size++;
+      for (const next of blockNeighbours(block, columns, rows)) {
+        if (blocks[next] && labels[next] === -1) {
+          labels[next] = start;
+          queue.push(next);
+        }
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestLabel = start;
+    }
+  }
+
+  const result = new Uint8Array(blocks.length);
+  for (let block = 0; block < blocks.length; block++) {
+    result[block] = labels[block] === bestLabel && bestLabel !== -1 ? 1 : 0;
+  }
+  return result;
+}
+
+function blockNeighbours(block: number, columns: number, rows: number): number[] {
+  const row = Math.floor(block / columns);
+  const column = block % columns;
+  const neighbours: number[] = [];
+  if (row > 0) neighbours.push(block - columns);
+  if (row < rows - 1) neighbours.push(block + columns);
+  if (column > 0) neighbours.push(block - 1);
+  if (column < columns - 1) neighbours.push(block + 1);
+  return neighbours;
+}
+
+/**
+ * Chessboard distance of every pixel to the nearest background pixel or the image edge (two-pass)
+ */
+function distanceToBackground(mask: Uint8Array, width: number, height: number): Uint32Array {
+  const distances = new Uint32Array(width * height);
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : distances[y * width + x]);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      distances[i] = mask[i] ? 1 + Math.min(at(x - 1, y), at(x - 1, y - 1), at(x, y - 1), at(x + 1, y - 1)) : 0;
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (distances[i]) {
+        distances[i] = Math.min(
+          distances[i],
+          1 + Math.min(at(x + 1, y), at(x + 1, y + 1), at(x, y + 1), at(x - 1, y + 1))
+        );
+      }
+    }
+  }
+  return distances;
+}
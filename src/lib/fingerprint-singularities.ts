@@ -0,0 +1,282 @@
+// Singular points (cores and deltas) from the Poincaré index of the orientation field,
+// and a coarse Henry pattern classification built on them (after Karu and Jain, 1996)
+
+import { OrientationField } from "./fingerprint-enhancement";
+import { ForegroundMask } from "./fingerprint-segmentation";
+
+export type SingularPointType = 'core' | 'delta';
+
+export interface SingularPoint {
+  x: number; // Pixel coordinates of the block centre
+  y: number;
+  type: SingularPointType;
+  direction: number | null; // Cores: degrees [0, 360) towards the loop opening, counter-clockwise with y up; null for deltas and whorl centres
+}
+
+/**
+ * 'unclassified' when the singular points fit no class (for example three cores)
+ */
+export type PatternClass = 'arch' | 'tented-arch' | 'left-loop' | 'right-loop' | 'whorl' | 'unclassified';
+
+export const PATTERN_CLASS_LABELS: Record<PatternClass, string> = {
+  arch: 'Arch',
+  'tented-arch': 'Tented arch',
+  'left-loop': 'Left loop',
+  'right-loop': 'Right loop',
+  whorl: 'Whorl',
+  unclassified: 'Unclassified'
+};
+
+export interface SingularPoints {
+  cores: SingularPoint[]; // Top-most first
+  deltas: SingularPoint[];
+}
+
+/**
+ * Rectangle of blocks, inclusive
+ */
+interface BlockRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const INDEX_TOLERANCE = 0.1; // Half-turns of slack when rounding the Poincaré index
+const PAIR_CANCEL_BLOCKS = 2; // A core and a delta this close (in blocks) are noise and cancel out
+const TENTED_ARCH_SLOPE = Math.tan((20 * Math.PI) / 180); // Core–delta line within 20° of vertical
+const DIRECTION_RADIUS = 2; // Blocks from the core sampled for its direction
+const DIRECTION_SAMPLES = 32;
+const MAX_RADIAL_DEVIATION = Math.sin((30 * Math.PI) / 180); // No ridge this close to radial: no direction
+
+/**
+ * Poincaré index of every block whose ring of neighbours lies inside the print: +½ is a core,
+ * −½ a delta. Neighbouring detections are merged, and the index around each merged group
+ * says how many points it holds, so a whorl centre counts as two cores.
+ */
+export function detectSingularPoints(orientation: OrientationField, mask: ForegroundMask): SingularPoints {
+  const { blockSize, columns, rows } = orientation;
+  const inside = (column: number, row: number) => {
+    if (column < 0 || row < 0 || column >= columns || row >= rows) {
+      return false;
+    }
+    const x = Math.min(mask.width - 1, column * blockSize + Math.floor(blockSize / 2));
+    const y = Math.min(mask.height - 1, row * blockSize + Math.floor(blockSize / 2));
+    return mask.foreground[y * mask.width + x] === 1;
+  };
+
+  const signs = new Int8Array(columns * rows); // +1 core, −1 delta
+  for (let row = 1; row < rows - 1; row++) {
+    for (let column = 1; column < columns - 1; column++) {
+      const halfTurns = poincareIndex(orientation, { left: column - 1, top: row - 1, right: column + 1, bottom: row + 1 }, inside);
+      signs[row * columns + column] = Math.sign(halfTurns ?? 0);
+    }
+  }
+
+  let cores: Array<[number, number]> = [];
+  let deltas: Array<[number, number]> = [];
+  for (const group of groupDetections(signs, columns, rows)) {
+    const { left, top, right, bottom } = group.bounds;
+    const enclosing = poincareIndex(orientation, { left: left - 1, top: top - 1, right: right + 1, bottom: bottom + 1 }, inside);
+    // Without a ring inside the print the group counts once; zero means an opposite point cancelled it
+    const count = enclosing === null ? 1 : enclosing * group.sign;
+    for (let copy = 0; copy < count; copy++) {
+      (group.sign > 0 ? cores : deltas).push(group.centre);
+    }
+  }
+
+  // A core right next to a delta is a twist in a noisy field, not a pattern feature
+  const cancelled = new Set<number>();
+  deltas = deltas.filter(delta => {
+    const partner = cores.findIndex(
+      (core, index) =>
+        !cancelled.has(index) && Math.max(Math.abs(core[0] - delta[0]), Math.abs(core[1] - delta[1])) <= PAIR_CANCEL_BLOCKS
+    );
+    if (partner === -1) {
+      return true;
+    }
+    cancelled.add(partner);
+    return false;
+  });
+  cores = cores.filter((_, index) => !cancelled.has(index));
+
+  const toPixel = ([column, row]: [number, number]) => ({
+    x: Math.round((column + 0.5) * blockSize),
+    y: Math.round((row + 0.5) * blockSize)
+  });
+  return {
+    cores: cores
+      .map(block => ({ ...toPixel(block), type: 'core' as const, direction: coreDirection(orientation, block) }))
+      .sort((a, b) => a.y - b.y),
+    deltas: deltas.map(block => ({ ...toPixel(block), type: 'delta' as const, direction: null }))
+  };
+}
+
+/**
+ * Henry class from the singular points. Loops are told apart by the side of the delta
+ * (or, with the delta outside the image, the direction the core opens to); a delta almost
+ * straight below the core, or a core opening straight down, makes a tented arch.
+ */
+export function classifyPattern(points: SingularPoints): PatternClass {
+  const { cores, deltas } = points;
+  if (cores.length === 0 && deltas.length === 0) {
+    return 'arch';
+  }
+  if (cores.length === 2 && deltas.length <= 2) {
+    return 'whorl';
+  }
+  if (cores.length !== 1 || deltas.length > 1) {
+    return 'unclassified';
+  }
+
+  const [core] = cores;
+  if (deltas.length === 1) {
+    const dx = deltas[0].x - core.x;
+    const dy = deltas[0].y - core.y;
+    if (dy > 0 && Math.abs(dx) <= TENTED_ARCH_SLOPE * dy) {
+      return 'tented-arch';
+    }
+    // Ridges of a left loop enter and leave on the left, so its delta sits on the right
+    return dx > 0 ? 'left-loop' : 'right-loop';
+  }
+
+  if (core.direction === null) {
+    return 'unclassified';
+  }
+  const radians = (core.direction * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const down = -Math.sin(radians); // Direction is counter-clockwise with y up
+  if (down > 0 && Math.abs(dx) <= TENTED_ARCH_SLOPE * down) {
+    return 'tented-arch';
+  }
+  return dx < 0 ? 'left-loop' : 'right-loop';
+}
+
+/**
+ * Total orientation change along the blocks of a rectangle's edge, walked E → S → W → N
+ * (increasing angle with y down), in half-turns. Null when the edge leaves the print or the
+ * sum is not close to a whole number of half-turns.
+ */
+function poincareIndex(
+  orientation: OrientationField,
+  rect: BlockRect,
+  inside: (column: number, row: number) => boolean
+): number | null {
+  const { left, top, right, bottom } = rect;
+  const path: Array<[number, number]> = [];
+  for (let row = top; row <= bottom; row++) path.push([right, row]);
+  for (let column = right - 1; column >= left; column--) path.push([column, bottom]);
+  for (let row = bottom - 1; row >= top; row--) path.push([left, row]);
+  for (let column = left + 1; column < right; column++) path.push([column, top]);
+  if (!path.every(([column, row]) => inside(column, row))) {
+    return null;
+  }
+
+  const { columns, angles } = orientation;
+  let sum = 0;
+  for (let k = 0; k < path.length; k++) {
+    const [column, row] = path[k];
+    const [nextColumn, nextRow] = path[(k + 1) % path.length];
+    sum += orientationStep(angles[row * columns + column], angles[nextRow * columns + nextColumn]);
+  }
+  const halfTurns = sum / Math.PI;
+  const rounded = Math.round(halfTurns);
+  return Math.abs(halfTurns - rounded) < INDEX_TOLERANCE ? rounded : null;
+}
+
+/**
+ * Orientation change between neighbouring blocks, wrapped into (−π/2, π/2]
+ */
+function orientationStep(from: number, to: number): number {
+  let step = to - from;
+  if (step > Math.PI / 2) {
+    step -= Math.PI;
+  } else if (step <= -Math.PI / 2) {
+    step += Math.PI;
+  }
+  return step;
+}
+
+/**
+ * One singular point sits between block centres and shows up in up to four neighbouring
+ * blocks: 8-connected detections of the same sign form one group
+ */
+function groupDetections(
+  signs: Int8Array,
+  columns: number,
+  rows: number
+): Array<{ sign: number; centre: [number, number]; bounds: BlockRect }> {
+  const seen = new Uint8Array(signs.length);
+  const groups: Array<{ sign: number; centre: [number, number]; bounds: BlockRect }> = [];
+
+  for (let start = 0; start < signs.length; start++) {
+    if (!signs[start] || seen[start]) {
+      continue;
+    }
+    const sign = signs[start];
+    const bounds = { left: columns, top: rows, right: 0, bottom: 0 };
+    let sumColumn = 0;
+    let sumRow = 0;
+    let size = 0;
+    const queue = [start];
+    seen[start] = 1;
+    while (queue.length > 0) {
+      const block = queue.pop()!;
+      const row = Math.floor(block / columns);
+      const column = block % columns;
+      sumColumn += column;
+      sumRow += row;
+      size++;
+      bounds.left = Math.min(bounds.left, column);
+      bounds.top = Math.min(bounds.top, row);
+      bounds.right = Math.max(bounds.right, column);
+      bounds.bottom = Math.max(bounds.bottom, row);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const r = row + dy;
+          const c = column + dx;
+          const next = r * columns + c;
+          if (r >= 0 && r < rows && c >= 0 && c < columns && signs[next] === sign && !seen[next]) {
+            seen[next] = 1;
+            queue.push(next);
+          }
+        }
+      }
+    }
+    groups.push({ sign, centre: [Math.round(sumColumn / size), Math.round(sumRow / size)], bounds });
+  }
+  return groups;
+}
+
+/**
+ * Around a core, ridges run radially in exactly one direction: along the axis of the loop,
+ * out through its opening. Around a whorl centre none do, and there is no direction.
+ */
+function coreDirection(orientation: OrientationField, [column, row]: [number, number]): number | null {
+  const { blockSize, columns, rows, angles } = orientation;
+  const centerX = (column + 0.5) * blockSize;
+  const centerY = (row + 0.5) * blockSize;
+  const radius = DIRECTION_RADIUS * blockSize;
+  let best: number | null = null;
+  let bestAlignment = Infinity;
+
+  for (let sample = 0; sample < DIRECTION_SAMPLES; sample++) {
+    const phi = (2 * Math.PI * sample) / DIRECTION_SAMPLES; // Image coordinates, y down
+    const sampleColumn = Math.floor((centerX + radius * Math.cos(phi)) / blockSize);
+    const sampleRow = Math.floor((centerY + radius * Math.sin(phi)) / blockSize);
+    if (sampleColumn < 0 || sampleRow < 0 || sampleColumn >= columns || sampleRow >= rows) {
+      continue;
+    }
+    const alignment = Math.abs(Math.sin(angles[sampleRow * columns + sampleColumn] - phi));
+    if (alignment < bestAlignment) {
+      bestAlignment = alignment;
+      best = phi;
+    }
+  }
+  if (best === null || bestAlignment > MAX_RADIAL_DEVIATION) {
+    return null;
+  }
+
+  const degrees = (-best * 180) / Math.PI;
+  return ((degrees % 360) + 360) % 360;
+}
@@ -0,0 +1,136 @@
+// Ridge thinning (Zhang–Suen, 1984) and crossing-number minutiae detection on the skeleton
+
+export type SkeletonMinutiaType = 'ending' | 'bifurcation';
+
+export interface SkeletonMinutia {
+  x: number;
+  y: number;
+  type: SkeletonMinutiaType;
+}
+
+/**
+ * Neighbour offsets P2..P9, clockwise from north, as [dx, dy]
+ */
+export const NEIGHBOR_OFFSETS: ReadonlyArray<readonly [number, number]> = [
+  [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1]
+];
+
+/**
+ * Thin a binary ridge map (1 = ridge) to one-pixel-wide, 8-connected lines. Each pass runs both
+ * subiterations; pixels are only removed after the whole image has been checked. An aborted
+ * signal stops the thinning before the next pass.
+ */
+export function thinRidges(binary: Uint8Array, width: number, height: number, signal?: AbortSignal): Uint8Array {
+  const skeleton = binary.slice();
+  const neighbors = new Uint8Array(8);
+  const removable: number[] = [];
+
+  // The image border never holds a skeleton pixel: its neighbourhood is incomplete
+  for (let x = 0; x < width; x++) {
+    skeleton[x] = 0;
+    skeleton[(height - 1) * width + x] = 0;
+  }
+  for (let y = 0; y < height; y++) {
+    skeleton[y * width] = 0;
+    skeleton[y * width + width - 1] = 0;
+  }
+
+  let changed = true;
+  while (changed) {
+    signal?.throwIfAborted();
+    changed = false;
+    for (const subiteration of [0, 1]) {
+      for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+          const index = y * width + x;
+          if (!skeleton[index]) {
+            continue;
+          }
+          readNeighbors(skeleton, width, x, y, neighbors);
+          const [p2, , p4, , p6, , p8] = neighbors;
+          const count = neighbors.reduce((total, value) => total + value, 0);
+          if (count < 2 || count > 6 || zeroToOneTransitions(neighbors) !== 1) {
+            continue;
+          }
+          const removes =
+            subiteration === 0
+              ? p2 * p4 * p6 === 0 && p4 * p6 * p8 === 0 // South-east boundary and north-west corner
+              : p2 * p4 * p8 === 0 && p2 * p6 * p8 === 0; // North-west boundary and south-east corner
+          if (removes) {
+            removable.push(index);
+          }
+        }
+      }
+      if (removable.length > 0) {
+        changed = true;
+        for (const index of removable) {
+          skeleton[index] = 0;
+        }
+        removable.length = 0;
+      }
+    }
+  }
+
+  return skeleton;
+}
+
+/**
+ * CN = ½ Σ |P(i) − P(i+1)| over the cyclic neighbourhood: 1 = ridge ending, 2 = ridge, 3 = bifurcation
+ */
+export function crossingNumber(skeleton: Uint8Array, width: number, x: number, y: number): number {
+  let sum = 0;
+  for (let i = 0; i < 8; i++) {
+    const [dx, dy] = NEIGHBOR_OFFSETS[i];
+    const [nextDx, nextDy] = NEIGHBOR_OFFSETS[(i + 1) % 8];
+    sum += Math.abs(skeleton[(y + dy) * width + x + dx] - skeleton[(y + nextDy) * width + x + nextDx]);
+  }
+  return sum / 2;
+}
+
+/**
+ * Every skeleton pixel with crossing number 1 or 3, in raster order. With a region, pixels
+ * outside it are skipped.
+ */
+export function findSkeletonMinutiae(
+  skeleton: Uint8Array,
+  width: number,
+  height: number,
+  region: Uint8Array | null = null
+): SkeletonMinutia[] {
+  const minutiae: SkeletonMinutia[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const index = y * width + x;
+      if (!skeleton[index] || (region && !region[index])) {
+        continue;
+      }
+      const cn = crossingNumber(skeleton, width, x, y);
+      if (cn === 1) {
+        minutiae.push({ x, y, type: 'ending' });
+      } else if (cn === 3) {
+        minutiae.push({ x, y, type: 'bifurcation' });
+      }
+    }
+  }
+  return minutiae;
+}
+
+function readNeighbors(image: Uint8Array, width: number, x: number, y: number, target: Uint8Array): void {
+  for (let i = 0; i < 8; i++) {
+    const [dx, dy] = NEIGHBOR_OFFSETS[i];
+    target[i] = image[(y + dy) * width + x + dx];
+  }
+}
+
+/**
+ * A(P1): number of 0 → 1 patterns in the sequence P2, P3, ..., P9, P2
+ */
+function zeroToOneTransitions(neighbors: Uint8Array): number {
+  let transitions = 0;
+  for (let i = 0; i < 8; i++) {
+    if (neighbors[i] === 0 && neighbors[(i + 1) % 8] === 1) {
+      transitions++;
+    }
+  }
+  return transitions;
+}
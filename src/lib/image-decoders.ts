@@ -0,0 +1,567 @@
+// Decoders for the scanner formats browsers cannot display (WSQ, BMP, TIFF, PGM), producing
+// the 8-bit grayscale buffers the pipeline works on
+
+import { GrayscaleImage } from "./fingerprint-enhancement";
+import { CANONICAL_PPI, readImageResolution, RgbaImage } from "./image-resolution";
+import { decodeWsq, isWsq, WsqDecodeError } from "./wsq-decoder";
+
+export type ImageFormat = 'png' | 'jpeg' | 'wsq' | 'bmp' | 'tiff' | 'pgm';
+
+/**
+ * Decoder for the formats left to the platform (PNG, JPEG). The core has none; browsers pass
+ * decodeRasterInBrowser from browser-adapters, other hosts their own.
+ */
+export type RasterDecoder = (bytes: Uint8Array) => Promise<RgbaImage>;
+
+/**
+ * Raised when an image is malformed or uses a variant of its format no decoder here reads
+ */
+export class ImageDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageDecodeError';
+  }
+}
+
+/**
+ * Largest width or height, in pixels at CANONICAL_PPI, of an image the pipeline takes (4 inches,
+ * well beyond a rolled print). Decoders scale it to the scan's resolution and refuse larger
+ * headers before allocating, so a few forged header bytes cannot demand gigabytes of pixels.
+ */
+export const MAX_CANONICAL_DIMENSION = 2000;
+
+const FORMAT_NAMES: Record<ImageFormat, string> = {
+  png: 'PNG',
+  jpeg: 'JPEG',
+  wsq: 'WSQ',
+  bmp: 'BMP',
+  tiff: 'TIFF',
+  pgm: 'PGM'
+};
+
+/**
+ * Format from the leading bytes, or null when none of the supported signatures matches
+ */
+export function detectImageFormat(bytes: Uint8Array): ImageFormat | null {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return 'png';
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    return 'jpeg';
+  }
+  if (isWsq(bytes)) {
+    return 'wsq';
+  }
+  if (bytes[0] === 0x42 && bytes[1] === 0x4d) {
+    return 'bmp'; // "BM"
+  }
+  if (
+    (bytes[0] === 0x49 && bytes[1] === 0x49 && bytes[2] === 42 && bytes[3] === 0) ||
+    (bytes[0] === 0x4d && bytes[1] === 0x4d && bytes[2] === 0 && bytes[3] === 42)
+  ) {
+    return 'tiff'; // "II*\0" / "MM\0*"
+  }
+  if (bytes[0] === 0x50 && (bytes[1] === 0x35 || bytes[1] === 0x32) && isWhitespace(bytes[2])) {
+    return 'pgm'; // "P5" binary, "P2" plain
+  }
+  return null;
+}
+
+/**
+ * Largest width or height accepted for a scan at `ppi`
+ */
+export function maxImageDimension(ppi: number): number {
+  return Math.ceil((MAX_CANONICAL_DIMENSION * ppi) / CANONICAL_PPI);
+}
+
+/**
+ * Grayscale pixels of a WSQ, BMP, TIFF or PGM file; null for PNG, JPEG and unrecognized
+ * data, which are left to the platform's raster decoder. `ppi` sets the size limit and
+ * defaults to the file's metadata resolution.
+ */
+export function decodeFingerprintImage(
+  bytes: Uint8Array,
+  ppi = readImageResolution(bytes)?.ppi ?? CANONICAL_PPI
+): GrayscaleImage | null {
+  const format = detectImageFormat(bytes);
+  const maxDimension = maxImageDimension(ppi);
+  try {
+    switch (format) {
+      case 'wsq':
+        return decodeWsq(bytes, maxDimension);
+      case 'bmp':
+        return decodeBmp(bytes, maxDimension);
+      case 'tiff':
+        return decodeTiff(bytes, maxDimension);
+      case 'pgm':
+        return decodePgm(bytes, maxDimension);
+      default:
+        return null;
+    }
+  } catch (error) {
+    if (error instanceof WsqDecodeError || error instanceof ImageDecodeError) {
+      throw new ImageDecodeError(`${FORMAT_NAMES[format!]}: ${error.message}`);
+    }
+    if (error instanceof RangeError) {
+      throw new ImageDecodeError(`${FORMAT_NAMES[format!]}: data is truncated`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Grayscale pixels of any supported image: decoded here, or by the raster decoder for PNG and JPEG.
+ * The size limit applies to both; see decodeFingerprintImage for `ppi`.
+ */
+export async function decodeImage(
+  bytes: Uint8Array,
+  rasterDecoder?: RasterDecoder,
+  ppi = readImageResolution(bytes)?.ppi ?? CANONICAL_PPI
+): Promise<GrayscaleImage> {
+  const decoded = decodeFingerprintImage(bytes, ppi);
+  if (decoded) {
+    return decoded;
+  }
+  const format = detectImageFormat(bytes);
+  if (!format) {
+    throw new ImageDecodeError('Unrecognized image format');
+  }
+  if (!rasterDecoder) {
+    throw new ImageDecodeError(`${FORMAT_NAMES[format]}: no raster decoder is configured for this format`);
+  }
+  const image = await rasterDecoder(bytes);
+  try {
+    checkDimensions(image.width, image.height, maxImageDimension(ppi));
+  } catch (error) {
+    throw new ImageDecodeError(`${FORMAT_NAMES[format]}: ${(error as ImageDecodeError).message}`);
+  }
+  return rgbaToGrayscale(image);
+}
+
+/**
+ * Luminance of RGBA pixels, with the weights preprocessing has always used
+ */
+export function rgbaToGrayscale({ width, height, data }: RgbaImage): GrayscaleImage {
+  const gray = new Uint8ClampedArray(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]);
+  }
+  return { width, height, data: gray };
+}
+
+/**
+ * Opaque RGBA copy of a grayscale image, for canvases and the RGBA entry points of the pipeline
+ */
+export function grayscaleToRgba({ width, height, data }: GrayscaleImage): RgbaImage {
+  const rgba = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = data[i];
+    rgba[i * 4 + 3] = 255;
+  }
+  return { width, height, data: rgba };
+}
+
+function luminance(red: number, green: number, blue: number): number {
+  return Math.round(0.299 * red + 0.587 * green + 0.114 * blue);
+}
+
+function isWhitespace(byte: number): boolean {
+  return byte === 0x20 || byte === 0x09 || byte === 0x0a || byte === 0x0d;
+}
+
+function checkDimensions(width: number, height: number, maxDimension: number): void {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new ImageDecodeError(`invalid dimensions ${width}x${height}`);
+  }
+  if (width > maxDimension || height > maxDimension) {
+    throw new ImageDecodeError(`${width}x${height} pixels exceeds the ${maxDimension} px limit`);
+  }
+}
+
+/**
+ * Windows bitmap: core (12-byte) and info (40-124 byte) headers; 1/4/8-bit palette, 16/24/32-bit
+ * direct colour, uncompressed or with bit-field masks; bottom-up or top-down rows
+ */
+function decodeBmp(bytes: Uint8Array, maxDimension: number): GrayscaleImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const pixelOffset = view.getUint32(10, true);
+  const headerSize = view.getUint32(14, true);
+  const core = headerSize === 12;
+  const width = core ? view.getUint16(18, true) : view.getInt32(18, true);
+  const signedHeight = core ? view.getUint16(20, true) : view.getInt32(22, true);
+  const bitCount = view.getUint16(core ? 24 : 28, true);
+  const compression = core ? 0 : view.getUint32(30, true);
+  const height = Math.abs(signedHeight);
+  const topDown = signedHeight < 0;
+  checkDimensions(width, height, maxDimension);
+
+  // 0 = BI_RGB, 3 = BI_BITFIELDS, 6 = BI_ALPHABITFIELDS; RLE, JPEG and PNG payloads are not read
+  if (compression !== 0 && compression !== 3 && compression !== 6) {
+    throw new ImageDecodeError(`compression ${compression} is not supported`);
+  }
+
+  let palette: number[] = [];
+  if (bitCount <= 8) {
+    const entrySize = core ? 3 : 4;
+    const used = core ? 0 : view.getUint32(46, true);
+    const count = used || 1 << bitCount;
+    const start = 14 + headerSize;
+    palette = Array.from({ length: count }, (_, i) => {
+      const entry = start + i * entrySize;
+      return luminance(bytes[entry + 2], bytes[entry + 1], bytes[entry]); // Stored BGR
+    });
+  } else if (![16, 24, 32].includes(bitCount)) {
+    throw new ImageDecodeError(`${bitCount}-bit pixels are not supported`);
+  }
+
+  // Channel masks: in or right after the info header for bit fields, otherwise 5-5-5 or 8-8-8
+  const masks =
+    compression !== 0 && bitCount !== 24
+      ? [view.getUint32(54, true), view.getUint32(58, true), view.getUint32(62, true)]
+      : bitCount === 16
+        ? [0x7c00, 0x03e0, 0x001f]
+        : [0xff0000, 0x00ff00, 0x0000ff];
+  const channels = masks.map(maskChannel);
+
+  const rowSize = Math.ceil((width * bitCount) / 32) * 4;
+  if (pixelOffset + rowSize * height > bytes.length) {
+    throw new RangeError('Pixel data is truncated');
+  }
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (topDown ? y : height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      let value: number;
+      if (bitCount <= 8) {
+        const bit = x * bitCount;
+        const index = (bytes[row + (bit >> 3)] >> (8 - bitCount - (bit & 7))) & ((1 << bitCount) - 1);
+        value = palette[index] ?? 0;
+      } else if (bitCount === 24 && compression === 0) {
+        const p = row + x * 3;
+        value = luminance(bytes[p + 2], bytes[p + 1], bytes[p]);
+      } else {
+        const pixel = bitCount === 16 ? view.getUint16(row + x * 2, true) : view.getUint32(row + x * 4, true);
+        const [red, green, blue] = channels.map((channel) => channel(pixel));
+        value = luminance(red, green, blue);
+      }
+      data[y * width + x] = value;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Extractor of one masked channel, scaled to 0-255
+ */
+function maskChannel(mask: number): (pixel: number) => number {
+  if (mask === 0) {
+    return () => 0;
+  }
+  let shift = 0;
+  while (((mask >>> shift) & 1) === 0) {
+    shift++;
+  }
+  const max = mask >>> shift;
+  return (pixel) => Math.round((((pixel & mask) >>> shift) * 255) / max);
+}
+
+const TIFF_TAGS = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  photometric: 262,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  planarConfiguration: 284,
+  predictor: 317,
+  colorMap: 320,
+  tileWidth: 322
+};
+
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 3: 2, 4: 4 }; // BYTE, SHORT, LONG
+
+/**
+ * Baseline TIFF, first page: bilevel, 8/16-bit grayscale, palette and 8-bit RGB strips,
+ * uncompressed, LZW (with horizontal predictor) or PackBits
+ */
+function decodeTiff(bytes: Uint8Array, maxDimension: number): GrayscaleImage {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const little = bytes[0] === 0x49;
+  const ifd = view.getUint32(4, little);
+  const tags = new Map<number, number[]>();
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    const tag = view.getUint16(entry, little);
+    const size = TIFF_TYPE_SIZES[view.getUint16(entry + 2, little)];
+    if (size === undefined) {
+      continue; // Rationals, ASCII and the like: nothing the pixels depend on
+    }
+    const count = view.getUint32(entry + 4, little);
+    const start = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    tags.set(
+      tag,
+      Array.from({ length: count }, (_, k) => {
+        const at = start + k * size;
+        return size === 1 ? view.getUint8(at) : size === 2 ? view.getUint16(at, little) : view.getUint32(at, little);
+      })
+    );
+  }
+  const tag = (id: number, fallback?: number) => {
+    const value = tags.get(id)?.[0] ?? fallback;
+    if (value === undefined) {
+      throw new ImageDecodeError(`required tag ${id} is missing`);
+    }
+    return value;
+  };
+
+  const width = tag(TIFF_TAGS.width);
+  const height = tag(TIFF_TAGS.height);
+  checkDimensions(width, height, maxDimension);
+  if (tags.has(TIFF_TAGS.tileWidth)) {
+    throw new ImageDecodeError('tiled images are not supported');
+  }
+  const samples = tag(TIFF_TAGS.samplesPerPixel, 1);
+  if (samples > 1 && tag(TIFF_TAGS.planarConfiguration, 1) !== 1) {
+    throw new ImageDecodeError('separate colour planes are not supported');
+  }
+  const bits = tag(TIFF_TAGS.bitsPerSample, 1);
+  const photometric = tag(TIFF_TAGS.photometric);
+  const compression = tag(TIFF_TAGS.compression, 1);
+  const predictor = tag(TIFF_TAGS.predictor, 1);
+  const supported =
+    (photometric <= 1 && (bits === 1 || bits === 8 || bits === 16)) ||
+    (photometric === 2 && bits === 8 && samples >= 3) ||
+    (photometric === 3 && (bits === 4 || bits === 8));
+  if (!supported) {
+    throw new ImageDecodeError(`photometric interpretation ${photometric} with ${bits}-bit samples is not supported`);
+  }
+
+  // Strips decompressed into one buffer of whole rows
+  const rowBytes = Math.ceil((width * samples * bits) / 8);
+  const rowsPerStrip = Math.min(height, tag(TIFF_TAGS.rowsPerStrip, height));
+  const offsets = tags.get(TIFF_TAGS.stripOffsets) ?? [];
+  const counts = tags.get(TIFF_TAGS.stripByteCounts) ?? [];
+  const raster = new Uint8Array(rowBytes * height);
+  offsets.forEach((offset, strip) => {
+    const start = strip * rowsPerStrip * rowBytes;
+    const expected = Math.min(rowsPerStrip * rowBytes, raster.length - start);
+    if (expected <= 0) {
+      return;
+    }
+    const end = offset + (counts[strip] ?? expected);
+    if (end > bytes.length) {
+      throw new RangeError('Strip is truncated');
+    }
+    const compressed = bytes.subarray(offset, end);
+    raster.set(decompressTiffStrip(compressed, compression, expected), start);
+  });
+  if (predictor === 2) {
+    undoHorizontalPredictor(raster, rowBytes, samples, bits, little);
+  } else if (predictor !== 1) {
+    throw new ImageDecodeError(`predictor ${predictor} is not supported`);
+  }
+
+  const colorMap = tags.get(TIFF_TAGS.colorMap);
+  if (photometric === 3 && (!colorMap || colorMap.length < 3 << bits)) {
+    throw new ImageDecodeError('palette image without a colour map');
+  }
+  const data = new Uint8ClampedArray(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    for (let x = 0; x < width; x++) {
+      let value: number;
+      if (bits === 1) {
+        value = (raster[row + (x >> 3)] >> (7 - (x & 7))) & 1 ? 255 : 0;
+      } else if (bits === 4) {
+        value = (raster[row + (x >> 1)] >> (x & 1 ? 0 : 4)) & 0xf;
+      } else if (bits === 16) {
+        const p = row + x * samples * 2;
+        value = (little ? raster[p] | (raster[p + 1] << 8) : (raster[p] << 8) | raster[p + 1]) / 257;
+      } else {
+        value = raster[row + x * samples];
+      }
+
+      if (photometric === 2) {
+        const p = row + x * samples;
+        value = luminance(raster[p], raster[p + 1], raster[p + 2]);
+      } else if (photometric === 3) {
+        // Colour map: all reds, then greens, then blues, 16 bits each
+        const entries = 1 << bits;
+        value = luminance(colorMap![value] / 257, colorMap![entries + value] / 257, colorMap![2 * entries + value] / 257);
+      } else if (photometric === 0) {
+        value = 255 - value; // WhiteIsZero
+      }
+      data[y * width + x] = value;
+    }
+  }
+  return { width, height, data };
+}
+
+function decompressTiffStrip(compressed: Uint8Array, compression: number, expected: number): Uint8Array {
+  switch (compression) {
+    case 1:
+      return compressed.subarray(0, expected);
+    case 5:
+      return decodeLzw(compressed, expected);
+    case 32773:
+      return decodePackBits(compressed, expected);
+    default:
+      throw new ImageDecodeError(`compression ${compression} is not supported`);
+  }
+}
+
+/**
+ * TIFF LZW: MSB-first codes of 9-12 bits, widened one code early, with clear (256) and end (257) codes
+ */
+function decodeLzw(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  const table: Uint8Array[] = Array.from({ length: 258 }, (_, i) => Uint8Array.of(i));
+  let written = 0;
+  let codeWidth = 9;
+  let bitPosition = 0;
+  let previous: Uint8Array | null = null;
+
+  while (written < expected && bitPosition + codeWidth <= input.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeWidth; i++, bitPosition++) {
+      code = (code << 1) | ((input[bitPosition >> 3] >> (7 - (bitPosition & 7))) & 1);
+    }
+    if (code === 257) {
+      break;
+    }
+    if (code === 256) {
+      table.length = 258;
+      codeWidth = 9;
+      previous = null;
+      continue;
+    }
+
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+    } else if (code === table.length && previous) {
+      entry = appendByte(previous, previous[0]);
+    } else {
+      throw new ImageDecodeError('corrupt LZW data');
+    }
+    output.set(entry.subarray(0, expected - written), written);
+    written += Math.min(entry.length, expected - written);
+    if (previous) {
+      table.push(appendByte(previous, entry[0]));
+    }
+    previous = entry;
+    if (table.length + 1 >= 1 << codeWidth && codeWidth < 12) {
+      codeWidth++;
+    }
+  }
+  return output;
+}
+
+function appendByte(prefix: Uint8Array, byte: number): Uint8Array {
+  const entry = new Uint8Array(prefix.length + 1);
+  entry.set(prefix);
+  entry[prefix.length] = byte;
+  return entry;
+}
+
+/**
+ * PackBits: a signed header byte n copies n + 1 literal bytes (n >= 0) or repeats the next byte 1 - n times
+ */
+function decodePackBits(input: Uint8Array, expected: number): Uint8Array {
+  const output = new Uint8Array(expected);
+  let written = 0;
+  let offset = 0;
+  while (written < expected && offset < input.length) {
+    const header = (input[offset++] << 24) >> 24;
+    if (header >= 0) {
+      const literal = input.subarray(offset, offset + header + 1).subarray(0, expected - written);
+      output.set(literal, written);
+      written += literal.length;
+      offset += header + 1;
+    } else if (header !== -128) {
+      const run = Math.min(1 - header, expected - written);
+      output.fill(input[offset++], written, written + run);
+      written += run;
+    }
+  }
+  return output;
+}
+
+/**
+ * Predictor 2 stores each sample as the difference to the same sample of the previous pixel
+ */
+function undoHorizontalPredictor(raster: Uint8Array, rowBytes: number, samples: number, bits: number, little: boolean): void {
+  if (bits !== 8 && bits !== 16) {
+    throw new ImageDecodeError(`horizontal predictor on ${bits}-bit samples is not supported`);
+  }
+  const view = new DataView(raster.buffer, raster.byteOffset, raster.byteLength);
+  const step = (samples * bits) / 8;
+  for (let row = 0; row < raster.length; row += rowBytes) {
+    for (let p = row + step; p < row + rowBytes; p += bits / 8) {
+      if (bits === 8) {
+        raster[p] += raster[p - step];
+      } else {
+        view.setUint16(p, view.getUint16(p, little) + view.getUint16(p - step, little), little);
+      }
+    }
+  }
+}
+
+/**
+ * Netpbm graymap: binary (P5) or plain (P2), maxval up to 65535 scaled to 0-255
+ */
+function decodePgm(bytes: Uint8Array, maxDimension: number): GrayscaleImage {
+  const binary = bytes[1] === 0x35;
+  let offset = 2;
+  const readNumber = () => {
+    // Whitespace and comments running to the end of the line separate header fields
+    while (offset < bytes.length && (isWhitespace(bytes[offset]) || bytes[offset] === 0x23)) {
+      if (bytes[offset] === 0x23) {
+        while (offset < bytes.length && bytes[offset] !== 0x0a && bytes[offset] !== 0x0d) {
+          offset++;
+        }
+      } else {
+        offset++;
+      }
+    }
+    const start = offset;
+    while (offset < bytes.length && bytes[offset] >= 0x30 && bytes[offset] <= 0x39) {
+      offset++;
+    }
+    if (offset === start) {
+      throw new ImageDecodeError('malformed header');
+    }
+    return Number(String.fromCharCode(...bytes.subarray(start, offset)));
+  };
+
+  const width = readNumber();
+  const height = readNumber();
+  const maxValue = readNumber();
+  checkDimensions(width, height, maxDimension);
+  if (maxValue < 1 || maxValue > 65535) {
+    throw new ImageDecodeError(`invalid maximum value ${maxValue}`);
+  }
+  offset++; // The single whitespace byte ending the header
+
+  const data = new Uint8ClampedArray(width * height);
+  const sampleBytes = maxValue < 256 ? 1 : 2;
+  if (binary && offset + width * height * sampleBytes > bytes.length) {
+    throw new RangeError('Raster is truncated');
+  }
+  for (let i = 0; i < data.length; i++) {
+    let value: number;
+    if (!binary) {
+      value = readNumber();
+    } else if (sampleBytes === 1) {
+      value = bytes[offset + i];
+    } else {
+      value = (bytes[offset + i * 2] << 8) | bytes[offset + i * 2 + 1];
+    }
+    data[i] = Math.round((Math.min(value, maxValue) * 255) / maxValue);
+  }
+  return { width, height, data };
+}
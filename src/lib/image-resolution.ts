@@ -0,0 +1,295 @@
+// Scan resolution of fingerprint images: ppi read from PNG pHYs, JPEG JFIF/EXIF, TIFF, BMP and
+// WSQ header metadata, and resampling to the canonical 500 ppi every pixel threshold of the pipeline assumes
+
+export const CANONICAL_PPI = 500;
+
+export type ResolutionSource = 'png-phys' | 'jfif' | 'exif' | 'tiff' | 'bmp' | 'wsq' | 'override' | 'assumed';
+
+export interface ImageResolution {
+  ppi: number;
+  source: ResolutionSource; // 'assumed' when the file carried no usable resolution
+}
+
+/**
+ * RGBA pixels, as in ImageData; grayscale images share the shape with one byte per pixel
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// 72 and 96 ppi are image-editor defaults, not sensor resolutions: no scanner captures prints that coarsely
+const MIN_PLAUSIBLE_PPI = 150;
+const MAX_PLAUSIBLE_PPI = 5000;
+const INCHES_PER_METRE = 39.3701;
+const CENTIMETRES_PER_INCH = 2.54;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Resolution stored in a PNG, JPEG, TIFF, BMP or WSQ file, or null when there is none (or only an editor default)
+ */
+export function readImageResolution(bytes: Uint8Array): ImageResolution | null {
+  if (PNG_SIGNATURE.every((value, i) => bytes[i] === value)) {
+    return plausible(readPngResolution(bytes), 'png-phys');
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const { jfif, exif } = readJpegResolution(bytes);
+    return plausible(jfif, 'jfif') ?? plausible(exif, 'exif');
+  }
+  if (asciiAt(bytes, 0, 'II*\0') || asciiAt(bytes, 0, 'MM\0*')) {
+    return plausible(readExifResolution(new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)), 'tiff');
+  }
+  if (asciiAt(bytes, 0, 'BM')) {
+    return plausible(readBmpResolution(bytes), 'bmp');
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xa0) {
+    return plausible(readWsqResolution(bytes), 'wsq');
+  }
+  return null;
+}
+
+/**
+ * Metadata resolution, unless an override is given; the canonical resolution when neither is known
+ */
+export function resolveResolution(bytes: Uint8Array, override: number | null = null): ImageResolution {
+  if (override !== null) {
+    return { ppi: checkResolutionOverride(override), source: 'override' };
+  }
+  return readImageResolution(bytes) ?? { ppi: CANONICAL_PPI, source: 'assumed' };
+}
+
+/**
+ * A user-supplied scan resolution, unchanged when it lies in the range metadata is trusted in.
+ * Anything else would resample the image by a meaningless or enormous factor, so it throws.
+ */
+export function checkResolutionOverride(ppi: number): number {
+  if (!Number.isFinite(ppi) || ppi < MIN_PLAUSIBLE_PPI || ppi > MAX_PLAUSIBLE_PPI) {
+    throw new RangeError(`Scan resolution must be between ${MIN_PLAUSIBLE_PPI} and ${MAX_PLAUSIBLE_PPI} ppi, got ${ppi}`);
+  }
+  return ppi;
+}
+
+/**
+ * Scale an image by the given factor: bilinear when enlarging, box averaging when shrinking
+ * so ridges finer than the new pixel grid do not alias. Works on RGBA and grayscale alike.
+ */
+export function resampleImage<T extends RgbaImage>(image: T, scale: number): T {
+  const channels = image.data.length / (image.width * image.height);
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8ClampedArray(width * height * channels);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * channels;
+      if (scaleX > 1 || scaleY > 1) {
+        boxAverage(image, channels, x * scaleX, y * scaleY, (x + 1) * scaleX, (y + 1) * scaleY, data, target);
+      } else {
+        bilinear(image, channels, (x + 0.5) * scaleX - 0.5, (y + 0.5) * scaleY - 0.5, data, target);
+      }
+    }
+  }
+  return { ...image, width, height, data };
+}
+
+function plausible(ppi: number | null, source: ResolutionSource): ImageResolution | null {
+  return ppi !== null && ppi >= MIN_PLAUSIBLE_PPI && ppi <= MAX_PLAUSIBLE_PPI ? { ppi, source } : null;
+}
+
+/**
+ * pHYs chunk: pixels per unit x (4) | y (4) | unit (1, 1 = metre). Only chunks before IDAT may hold it.
+ */
+function readPngResolution(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = offset + 8;
+    if (type === 'IDAT' || type === 'IEND' || data + length > bytes.length) {
+      return null;
+    }
+    if (type === 'pHYs' && length >= 9) {
+      if (bytes[data + 8] !== 1) {
+        return null; // Unit 0 is only an aspect ratio
+      }
+      return averagePpi(view.getUint32(data) / INCHES_PER_METRE, view.getUint32(data + 4) / INCHES_PER_METRE);
+    }
+    offset = data + length + 4; // + CRC
+  }
+  return null;
+}
+
+/**
+ * Walk the JPEG marker segments up to the start of scan, reading the APP0 (JFIF) and
+ * APP1 (EXIF) densities
+ */
+function readJpegResolution(bytes: Uint8Array): { jfif: number | null; exif: number | null } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let jfif: number | null = null;
+  let exif: number | null = null;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) {
+      break; // Start of scan / end of image: metadata segments come before
+    }
+    const length = view.getUint16(offset + 2);
+    const data = offset + 4;
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      break;
+    }
+    if (marker === 0xe0 && asciiAt(bytes, data, 'JFIF\0') && data + 12 <= end) {
+      // version (2) | units (1) | x density (2) | y density (2); units 1 = per inch, 2 = per cm
+      const units = bytes[data + 7];
+      const factor = units === 1 ? 1 : units === 2 ? CENTIMETRES_PER_INCH : 0;
+      if (factor) {
+        jfif = averagePpi(view.getUint16(data + 8) * factor, view.getUint16(data + 10) * factor);
+      }
+    } else if (marker === 0xe1 && asciiAt(bytes, data, 'Exif\0\0') && end - data >= 14) {
+      // Exif header (6) then at least a TIFF header: byte order (2) | 42 (2) | first IFD offset (4)
+      exif = readExifResolution(new DataView(bytes.buffer, bytes.byteOffset + data + 6, end - data - 6));
+    }
+    offset = end;
+  }
+  return { jfif, exif };
+}
+
+/**
+ * BITMAPINFOHEADER and later: horizontal (offset 38) and vertical (42) pixels per metre.
+ * The 12-byte core header has no resolution.
+ */
+function readBmpResolution(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 46 || view.getUint32(14, true) < 40) {
+    return null;
+  }
+  return averagePpi(view.getInt32(38, true) / INCHES_PER_METRE, view.getInt32(42, true) / INCHES_PER_METRE);
+}
+
+/**
+ * "PPI" field of the NISTCOM comment (COM, 0xFFA8) WSQ encoders write ahead of the first block;
+ * -1 there means unknown
+ */
+function readWsqResolution(bytes: Uint8Array): number | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff && bytes[offset + 1] !== 0xa3) {
+    const length = view.getUint16(offset + 2);
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) {
+      break;
+    }
+    if (bytes[offset + 1] === 0xa8 && asciiAt(bytes, offset + 4, 'NIST_COM')) {
+      const comment = String.fromCharCode(...bytes.subarray(offset + 4, end));
+      const match = /^PPI\s+(-?\d+)/m.exec(comment);
+      if (match) {
+        return Number(match[1]);
+      }
+    }
+    offset = end;
+  }
+  return null;
+}
+
+/**
+ * XResolution (0x011A), YResolution (0x011B) and ResolutionUnit (0x0128; 2 = inch, the
+ * default, 3 = cm) from IFD0 of a TIFF file or TIFF-structured EXIF block
+ */
+function readExifResolution(tiff: DataView): number | null {
+  try {
+    const little = tiff.getUint16(0) === 0x4949; // "II"
+    const ifd = tiff.getUint32(4, little);
+    const entries = tiff.getUint16(ifd, little);
+    let x: number | null = null;
+    let y: number | null = null;
+    let unit = 2;
+    for (let i = 0; i < entries; i++) {
+      const entry = ifd + 2 + i * 12;
+      const tag = tiff.getUint16(entry, little);
+      if (tag === 0x011a || tag === 0x011b) {
+        const valueOffset = tiff.getUint32(entry + 8, little);
+        const denominator = tiff.getUint32(valueOffset + 4, little);
+        const value = denominator ? tiff.getUint32(valueOffset, little) / denominator : null;
+        if (tag === 0x011a) {
+          x = value;
+        } else {
+          y = value;
+        }
+      } else if (tag === 0x0128) {
+        unit = tiff.getUint16(entry + 8, little);
+      }
+    }
+    const factor = unit === 2 ? 1 : unit === 3 ? CENTIMETRES_PER_INCH : 0;
+    return x !== null && factor ? averagePpi(x * factor, (y ?? x) * factor) : null;
+  } catch (error) {
+    if (error instanceof RangeError) {
+      return null; // Offsets pointing outside the segment
+    }
+    throw error;
+  }
+}
+
+/**
+ * Non-square pixels are rare on fingerprint scanners; their mean is close enough
+ */
+function averagePpi(x: number, y: number): number | null {
+  return x > 0 && y > 0 ? (x + y) / 2 : null;
+}
+
+function asciiAt(bytes: Uint8Array, offset: number, text: string): boolean {
+  return Array.from(text).every((char, i) => bytes[offset + i] === char.charCodeAt(0));
+}
+
+function boxAverage(
+  image: RgbaImage,
+  channels: number,
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+  target: Uint8ClampedArray,
+  offset: number
+): void {
+  const x0 = Math.floor(left);
+  const y0 = Math.floor(top);
+  const x1 = Math.min(image.width, Math.max(x0 + 1, Math.ceil(right)));
+  const y1 = Math.min(image.height, Math.max(y0 + 1, Math.ceil(bottom)));
+  const sums = new Array<number>(channels).fill(0);
+  let weight = 0;
+  for (let y = y0; y < y1; y++) {
+    const coverY = Math.min(bottom, y + 1) - Math.max(top, y);
+    for (let x = x0; x < x1; x++) {
+      const cover = coverY * (Math.min(right, x + 1) - Math.max(left, x));
+      const source = (y * image.width + x) * channels;
+      for (let channel = 0; channel < channels; channel++) {
+        sums[channel] += image.data[source + channel] * cover;
+      }
+      weight += cover;
+    }
+  }
+  for (let channel = 0; channel < channels; channel++) {
+    target[offset + channel] = sums[channel] / weight;
+  }
+}
+
+function bilinear(image: RgbaImage, channels: number, x: number, y: number, target: Uint8ClampedArray, offset: number): void {
+  const cx = Math.min(image.width - 1, Math.max(0, x));
+  const cy = Math.min(image.height - 1, Math.max(0, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(image.width - 1, x0 + 1);
+  const y1 = Math.min(image.height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  for (let channel = 0; channel < channels; channel++) {
+    const at = (px: number, py: number) => image.data[(py * image.width + px) * channels + channel];
+    const topValue = at(x0, y0) * (1 - fx) + at(x1, y0) * fx;
+    const bottomValue = at(x0, y1) * (1 - fx) + at(x1, y1) * fx;
+    target[offset + channel] = topValue * (1 - fy) + bottomValue * fy;
+  }
+}
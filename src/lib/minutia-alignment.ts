@@ -0,0 +1,275 @@
+// Reference frames for alignment-invariant minutia encoding: an origin and a direction that
+// move with the finger, so coordinates relative to them survive translation and rotation.
+// Without a core the frame is recovered from minutia pairs, whose length and relative
+// directions do not depend on placement; any one surviving pair puts it back.
+
+import { SingularPoint } from "./fingerprint-singularities";
+
+export type FrameSource = 'core' | 'centroid' | 'pair';
+
+/**
+ * Origin in pixel coordinates; direction in degrees [0, 360), counter-clockwise with y up
+ */
+export interface MinutiaFrame {
+  x: number;
+  y: number;
+  direction: number;
+  source: FrameSource;
+}
+
+/**
+ * Anything with a position and a direction in the minutia angle convention
+ */
+export interface OrientedPoint {
+  x: number;
+  y: number;
+  angle: number;
+}
+
+export interface TypedPoint extends OrientedPoint {
+  type: 'ending' | 'bifurcation';
+}
+
+/**
+ * Alignment helper data: an ordered minutia pair described by what placement does not change
+ * (its length, both directions relative to it, both types), and the vault frame as seen from
+ * the pair's own frame. Values are rounded to whole pixels and degrees, as stored.
+ */
+export interface ReferencePair {
+  length: number; // Pixels
+  angleA: number; // Degrees [0, 360) of the first minutia from the pair direction
+  angleB: number;
+  typeA: TypedPoint['type'];
+  typeB: TypedPoint['type'];
+  frame: PolarMinutia; // Origin (radius, theta) and direction (angle) of the vault frame
+}
+
+/**
+ * How far a query pair may differ from a reference pair and still be taken for it
+ */
+export interface PairTolerance {
+  length: number; // Pixels
+  angle: number; // Degrees, for each of the two directions
+}
+
+/**
+ * A minutia seen from a frame: distance and bearing from the origin, and its direction
+ * relative to the frame direction
+ */
+export interface PolarMinutia {
+  radius: number; // Pixels
+  theta: number; // Degrees [0, 360) from the frame direction
+  angle: number; // Degrees [0, 360) from the frame direction
+}
+
+/**
+ * Frame on a core, pointing out of the loop opening. Null when the core has no usable direction.
+ */
+export function coreFrame(core: SingularPoint): MinutiaFrame | null {
+  if (core.direction === null) {
+    return null;
+  }
+  return { x: core.x, y: core.y, direction: core.direction, source: 'core' };
+}
+
+/**
+ * Frame on the minutiae centroid along the principal axis of their spread. The axis sense is
+ * taken towards the longer tail (positive third moment); it is only stable for clearly skewed
+ * spreads, so matching also tries the opposite sense. Only vaults written before reference
+ * pairs rely on it: missing or spurious minutiae move it.
+ */
+export function centroidFrame(points: OrientedPoint[]): MinutiaFrame {
+  if (points.length === 0) {
+    return { x: 0, y: 0, direction: 0, source: 'centroid' };
+  }
+  const x = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const y = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+
+  let sxx = 0;
+  let syy = 0;
+  let sxy = 0;
+  for (const point of points) {
+    const dx = point.x - x;
+    const dy = y - point.y; // y up
+    sxx += dx * dx;
+    syy += dy * dy;
+    sxy += dx * dy;
+  }
+  const axis = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const skew = points.reduce((sum, point) => {
+    const projection = (point.x - x) * Math.cos(axis) + (y - point.y) * Math.sin(axis);
+    return sum + projection ** 3;
+  }, 0);
+
+  return { x, y, direction: normalizeDegrees((axis * 180) / Math.PI + (skew < 0 ? 180 : 0)), source: 'centroid' };
+}
+
+/**
+ * Frame on the midpoint of two minutiae, pointing from the first to the second
+ */
+export function pairFrame(a: OrientedPoint, b: OrientedPoint): MinutiaFrame {
+  return {
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    direction: normalizeDegrees((Math.atan2(a.y - b.y, b.x - a.x) * 180) / Math.PI), // y up
+    source: 'pair'
+  };
+}
+
+/**
+ * Reference pairs over at most `count` minutiae, each with a length in [minLength, maxLength]:
+ * first disjoint pairs, midpoints nearest `centre` first (long pairs fix the direction
+ * precisely, central ones keep the error it causes small over the print), then as many pairs
+ * again between the same minutiae, so any two of them that survive a re-capture can be enough
+ */
+export function selectReferencePairs<T extends OrientedPoint>(
+  points: T[],
+  count: number,
+  minLength: number,
+  maxLength: number,
+  centre: { x: number; y: number }
+): [T, T][] {
+  const candidates: { a: T; b: T; offset: number }[] = [];
+  points.forEach((a, i) => {
+    for (const b of points.slice(i + 1)) {
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      if (length >= minLength && length <= maxLength) {
+        candidates.push({ a, b, offset: Math.hypot((a.x + b.x) / 2 - centre.x, (a.y + b.y) / 2 - centre.y) });
+      }
+    }
+  });
+  candidates.sort((p, q) => p.offset - q.offset);
+
+  const used = new Set<T>();
+  const pairs: [T, T][] = [];
+  for (const { a, b } of candidates) {
+    if (used.size + 2 > count) {
+      break;
+    }
+    if (!used.has(a) && !used.has(b)) {
+      used.add(a);
+      used.add(b);
+      pairs.push([a, b]);
+    }
+  }
+  const disjoint = pairs.length;
+  for (const { a, b } of candidates) {
+    if (pairs.length === disjoint * 2) {
+      break;
+    }
+    if (used.has(a) && used.has(b) && !pairs.some(([p, q]) => p === a && q === b)) {
+      pairs.push([a, b]);
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Helper data for one pair, locating `frame` relative to it
+ */
+export function describePair(a: TypedPoint, b: TypedPoint, frame: MinutiaFrame): ReferencePair {
+  const own = pairFrame(a, b);
+  const origin = toPolar({ x: frame.x, y: frame.y, angle: frame.direction }, own);
+  return {
+    length: Math.round(Math.hypot(b.x - a.x, b.y - a.y)),
+    angleA: roundDegrees(a.angle - own.direction),
+    angleB: roundDegrees(b.angle - own.direction),
+    typeA: a.type,
+    typeB: b.type,
+    frame: { radius: Math.round(origin.radius), theta: roundDegrees(origin.theta), angle: roundDegrees(origin.angle) }
+  };
+}
+
+/**
+ * Vault frames put back by query pairs that fit a reference pair, closest fits first.
+ * Every ordered pair is tried, since nothing says which minutia came first at enrolment;
+ * frames within 4 px and 3° of an earlier one are dropped.
+ */
+export function referencePairFrames(points: TypedPoint[], pairs: ReferencePair[], tolerance: PairTolerance): MinutiaFrame[] {
+  const fits: { frame: MinutiaFrame; error: number }[] = [];
+  for (const a of points) {
+    for (const b of points) {
+      if (a === b) {
+        continue;
+      }
+      const length = Math.hypot(b.x - a.x, b.y - a.y);
+      const own = pairFrame(a, b);
+      for (const pair of pairs) {
+        const lengthError = Math.abs(length - pair.length);
+        if (a.type !== pair.typeA || b.type !== pair.typeB || lengthError > tolerance.length) {
+          continue;
+        }
+        const errorA = angleDifference(a.angle - own.direction, pair.angleA);
+        const errorB = angleDifference(b.angle - own.direction, pair.angleB);
+        if (errorA > tolerance.angle || errorB > tolerance.angle) {
+          continue;
+        }
+        fits.push({
+          frame: fromPolar(pair.frame, own),
+          error: lengthError / tolerance.length + (errorA + errorB) / tolerance.angle
+        });
+      }
+    }
+  }
+  fits.sort((p, q) => p.error - q.error);
+
+  const frames: MinutiaFrame[] = [];
+  for (const { frame } of fits) {
+    const duplicate = frames.some(
+      other => Math.hypot(other.x - frame.x, other.y - frame.y) < 4 && angleDifference(other.direction, frame.direction) < 3
+    );
+    if (!duplicate) {
+      frames.push(frame);
+    }
+  }
+  return frames;
+}
+
+/**
+ * Every frame a query capture could share with a vault written without reference pairs, most
+ * specific first: each core with a direction, then the centroid frame in both senses
+ */
+export function candidateFrames(points: OrientedPoint[], cores: SingularPoint[]): MinutiaFrame[] {
+  const centroid = centroidFrame(points);
+  return [
+    ...cores.flatMap(core => coreFrame(core) ?? []),
+    centroid,
+    { ...centroid, direction: normalizeDegrees(centroid.direction + 180) }
+  ];
+}
+
+export function toPolar(point: OrientedPoint, frame: MinutiaFrame): PolarMinutia {
+  const dx = point.x - frame.x;
+  const dy = frame.y - point.y; // y up
+  return {
+    radius: Math.hypot(dx, dy),
+    theta: normalizeDegrees((Math.atan2(dy, dx) * 180) / Math.PI - frame.direction),
+    angle: normalizeDegrees(point.angle - frame.direction)
+  };
+}
+
+/**
+ * The frame whose origin and direction `polar` gives relative to `frame`
+ */
+function fromPolar(polar: PolarMinutia, frame: MinutiaFrame): MinutiaFrame {
+  const bearing = ((polar.theta + frame.direction) * Math.PI) / 180;
+  return {
+    x: frame.x + polar.radius * Math.cos(bearing),
+    y: frame.y - polar.radius * Math.sin(bearing), // y up
+    direction: normalizeDegrees(polar.angle + frame.direction),
+    source: 'pair'
+  };
+}
+
+function angleDifference(a: number, b: number): number {
+  const difference = normalizeDegrees(a - b);
+  return Math.min(difference, 360 - difference);
+}
+
+function roundDegrees(angle: number): number {
+  return Math.round(normalizeDegrees(angle)) % 360;
+}
+
+function normalizeDegrees(angle: number): number {
+  return ((angle % 360) + 360) % 360;
+}
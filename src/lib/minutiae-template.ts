@@ -0,0 +1,340 @@
+// Binary minutiae records of ISO/IEC 19794-2:2005 and ANSI/INCITS 378-2004 ("FMR" finger
+// minutiae records), so templates from other extractors can stand in for an image
+
+import type { MinutiaePoint } from "./biometric";
+import { ByteReader } from "./byte-reader";
+import { SingularPoint } from "./fingerprint-singularities";
+
+export type TemplateFormat = 'iso-19794-2' | 'ansi-378';
+
+export const TEMPLATE_FORMAT_LABELS: Record<TemplateFormat, string> = {
+  'iso-19794-2': 'ISO/IEC 19794-2',
+  'ansi-378': 'ANSI/INCITS 378'
+};
+
+/**
+ * One capture of one finger. Coordinates are template pixels at the record's resolution;
+ * angles follow the pipeline convention (degrees [0, 360), counter-clockwise with y up), which
+ * is also the one both standards use.
+ */
+export interface TemplateFingerView {
+  fingerPosition: number; // 0 unknown, 1-10 right thumb to left little finger
+  viewNumber: number;
+  impressionType: number; // 0 live-scan plain, 1 live-scan rolled, 2 non-live plain, 3 non-live rolled, 8 swipe
+  quality: number; // Finger quality 0-100
+  minutiae: MinutiaePoint[]; // reliability = minutia quality / 100; absent where the quality was not reported (0)
+  cores: SingularPoint[];
+  deltas: SingularPoint[];
+}
+
+export interface MinutiaeTemplate {
+  format: TemplateFormat;
+  width: number; // Image size in pixels
+  height: number;
+  resolution: number; // ppi; stored as pixels per centimetre
+  views: TemplateFingerView[];
+}
+
+/**
+ * Raised when bytes are not a finger minutiae record this codec can read, or a template cannot be written
+ */
+export class MinutiaeTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MinutiaeTemplateError';
+  }
+}
+
+const FORMAT_IDENTIFIER = [0x46, 0x4d, 0x52, 0x00]; // "FMR\0"
+const VERSION_2005 = [0x20, 0x32, 0x30, 0x00]; // " 20\0"
+const ISO_HEADER_LENGTH = 24;
+const ANSI_HEADER_LENGTH = 26; // 30 with the long record length
+const VIEW_HEADER_LENGTH = 4;
+const MINUTIA_LENGTH = 6;
+const MAX_COORDINATE = 0x3fff; // 14 bits
+const MAX_MINUTIAE_PER_VIEW = 255;
+const CORE_DELTA_BLOCK = 0x0002; // Extended data type of the core and delta block
+const ANGULAR_INFORMATION = 0x01; // Core/delta information type: angles present
+const CENTIMETRES_PER_INCH = 2.54;
+
+// Minutia type bits: 00 other, 01 ridge ending, 10 ridge bifurcation
+const TYPE_ENDING = 0x1;
+const TYPE_BIFURCATION = 0x2;
+
+/**
+ * Whether the bytes start like a finger minutiae record (either standard)
+ */
+export function isMinutiaeTemplate(bytes: Uint8Array): boolean {
+  return FORMAT_IDENTIFIER.every((value, i) => bytes[i] === value);
+}
+
+/**
+ * Read a record. Without a format, the one whose record length field matches the byte count is used.
+ */
+export function decodeMinutiaeTemplate(bytes: Uint8Array, format?: TemplateFormat): MinutiaeTemplate {
+  if (!isMinutiaeTemplate(bytes)) {
+    throw new MinutiaeTemplateError('Not a finger minutiae record (missing "FMR" identifier)');
+  }
+  if (!VERSION_2005.every((value, i) => bytes[4 + i] === value)) {
+    throw new MinutiaeTemplateError('Unsupported record version: only the 2004/2005 " 20" format is read');
+  }
+  const reader = new ByteReader(bytes);
+  const detected = format ?? detectFormat(reader);
+  try {
+    return readRecord(reader, detected);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new MinutiaeTemplateError('Record is truncated');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a record in the template's format. Coordinates are rounded to whole pixels.
+ */
+export function encodeMinutiaeTemplate(template: MinutiaeTemplate): Uint8Array {
+  const ansi = template.format === 'ansi-378';
+  const views = template.views.map(view => encodeView(view, ansi));
+  const viewLength = views.reduce((sum, view) => sum + view.length, 0);
+  const shortLength = ANSI_HEADER_LENGTH + viewLength;
+  const longLength = ansi && shortLength > 0xffff;
+  const length = ansi ? shortLength + (longLength ? 4 : 0) : ISO_HEADER_LENGTH + viewLength;
+  if (template.views.length > 255) {
+    throw new MinutiaeTemplateError('A record holds at most 255 finger views');
+  }
+
+  const writer = new RecordWriter(length);
+  writer.bytes(FORMAT_IDENTIFIER);
+  writer.bytes(VERSION_2005);
+  if (!ansi) {
+    writer.u32(length);
+  } else if (longLength) {
+    writer.u16(0);
+    writer.u32(length);
+  } else {
+    writer.u16(length);
+  }
+  if (ansi) {
+    writer.u32(0); // CBEFF product identifier: none registered
+  }
+  writer.u16(0); // Capture equipment: no certification, device unreported
+  writer.u16(template.width);
+  writer.u16(template.height);
+  const pixelsPerCentimetre = Math.round(template.resolution / CENTIMETRES_PER_INCH);
+  writer.u16(pixelsPerCentimetre);
+  writer.u16(pixelsPerCentimetre);
+  writer.u8(template.views.length);
+  writer.u8(0); // Reserved
+  views.forEach(view => writer.bytes(view));
+  return writer.output;
+}
+
+function detectFormat(reader: ByteReader): TemplateFormat {
+  const length = reader.bytes.length;
+  if (reader.u32At(8) === length) {
+    return 'iso-19794-2';
+  }
+  const shortLength = reader.u16At(8);
+  if (shortLength === length || (shortLength === 0 && reader.u32At(10) === length)) {
+    return 'ansi-378';
+  }
+  throw new MinutiaeTemplateError('Record length matches neither the ISO nor the ANSI header');
+}
+
+function readRecord(reader: ByteReader, format: TemplateFormat): MinutiaeTemplate {
+  const ansi = format === 'ansi-378';
+  reader.offset = 8;
+  if (ansi) {
+    if (reader.u16() === 0) {
+      reader.u32(); // Long record length
+    }
+    reader.u32(); // CBEFF product identifier
+  } else {
+    reader.u32(); // Record length
+  }
+  reader.u16(); // Capture equipment
+  const width = reader.u16();
+  const height = reader.u16();
+  const xResolution = reader.u16();
+  const yResolution = reader.u16();
+  const viewCount = reader.u8();
+  reader.u8(); // Reserved
+
+  // Mean of both axes, like image metadata; a zero field leaves the pipeline's canonical 500 ppi
+  const pixelsPerCentimetre = (xResolution + yResolution) / 2;
+  const resolution = pixelsPerCentimetre > 0 ? pixelsPerCentimetre * CENTIMETRES_PER_INCH : 500;
+
+  const views: TemplateFingerView[] = [];
+  for (let i = 0; i < viewCount; i++) {
+    views.push(readView(reader, ansi));
+  }
+  return { format, width, height, resolution, views };
+}
+
+function readView(reader: ByteReader, ansi: boolean): TemplateFingerView {
+  const fingerPosition = reader.u8();
+  const viewByte = reader.u8();
+  const quality = reader.u8();
+  const count = reader.u8();
+
+  const minutiae: MinutiaePoint[] = [];
+  for (let i = 0; i < count; i++) {
+    const xField = reader.u16();
+    const y = reader.u16() & MAX_COORDINATE;
+    const angle = decodeAngle(reader.u8(), ansi);
+    const minutiaQuality = reader.u8();
+    // The pipeline knows no third type; 'other' points are kept as endings so they still count
+    const type = xField >> 14 === TYPE_BIFURCATION ? 'bifurcation' : 'ending';
+    const minutia: MinutiaePoint = { x: xField & MAX_COORDINATE, y, angle, type };
+    if (minutiaQuality > 0) {
+      minutia.reliability = Math.min(100, minutiaQuality) / 100;
+    }
+    minutiae.push(minutia);
+  }
+
+  let cores: SingularPoint[] = [];
+  let deltas: SingularPoint[] = [];
+  const extendedEnd = reader.u16() + reader.offset;
+  while (reader.offset + 4 <= extendedEnd) {
+    const blockStart = reader.offset;
+    const type = reader.u16();
+    const length = reader.u16(); // Including the type and length fields
+    if (length < 4) {
+      throw new MinutiaeTemplateError('Extended data block with an invalid length');
+    }
+    if (type === CORE_DELTA_BLOCK) {
+      ({ cores, deltas } = readCoresAndDeltas(reader, ansi));
+    }
+    reader.offset = blockStart + length;
+  }
+  reader.offset = extendedEnd;
+
+  return { fingerPosition, viewNumber: viewByte >> 4, impressionType: viewByte & 0x0f, quality, minutiae, cores, deltas };
+}
+
+/**
+ * Core and delta block: per kind a byte of information type (2 bits) and count (low 4 bits),
+ * then x and y (14 bits each) per point, with one angle per core and three per delta when the
+ * type is angular
+ */
+function readCoresAndDeltas(reader: ByteReader, ansi: boolean): { cores: SingularPoint[]; deltas: SingularPoint[] } {
+  const readPoints = (type: SingularPoint['type'], angles: number): SingularPoint[] => {
+    const header = reader.u8();
+    const angular = header >> 6 === ANGULAR_INFORMATION;
+    const points: SingularPoint[] = [];
+    for (let i = 0, count = header & 0x0f; i < count; i++) {
+      const x = reader.u16() & MAX_COORDINATE;
+      const y = reader.u16() & MAX_COORDINATE;
+      const directions = angular ? Array.from({ length: angles }, () => reader.u8()) : [];
+      // Delta angles (its three ridge directions) have no counterpart in SingularPoint
+      const direction = type === 'core' && angular ? decodeAngle(directions[0], ansi) : null;
+      points.push({ x, y, type, direction });
+    }
+    return points;
+  };
+  const cores = readPoints('core', 1);
+  const deltas = readPoints('delta', 3);
+  return { cores, deltas };
+}
+
+function encodeView(view: TemplateFingerView, ansi: boolean): Uint8Array {
+  if (view.minutiae.length > MAX_MINUTIAE_PER_VIEW) {
+    throw new MinutiaeTemplateError(`A finger view holds at most ${MAX_MINUTIAE_PER_VIEW} minutiae`);
+  }
+  if (view.cores.length > 15 || view.deltas.length > 15) {
+    throw new MinutiaeTemplateError('A finger view holds at most 15 cores and 15 deltas');
+  }
+  const singularPoints = view.cores.length + view.deltas.length;
+  const coresAngular = view.cores.length > 0 && view.cores.every(core => core.direction !== null);
+  const coreDeltaLength = singularPoints
+    ? 4 + 2 + view.cores.length * (coresAngular ? 5 : 4) + view.deltas.length * 4
+    : 0;
+
+  const writer = new RecordWriter(VIEW_HEADER_LENGTH + view.minutiae.length * MINUTIA_LENGTH + 2 + coreDeltaLength);
+  writer.u8(view.fingerPosition);
+  writer.u8(((view.viewNumber & 0x0f) << 4) | (view.impressionType & 0x0f));
+  writer.u8(clampQuality(view.quality));
+  writer.u8(view.minutiae.length);
+  for (const minutia of view.minutiae) {
+    const type = minutia.type === 'bifurcation' ? TYPE_BIFURCATION : TYPE_ENDING;
+    writer.u16((type << 14) | coordinate(minutia.x));
+    writer.u16(coordinate(minutia.y));
+    writer.u8(encodeAngle(minutia.angle, ansi));
+    writer.u8(minutia.reliability === undefined ? 0 : Math.max(1, clampQuality(minutia.reliability * 100)));
+  }
+
+  writer.u16(coreDeltaLength);
+  if (singularPoints) {
+    writer.u16(CORE_DELTA_BLOCK);
+    writer.u16(coreDeltaLength);
+    writer.u8(((coresAngular ? ANGULAR_INFORMATION : 0) << 6) | view.cores.length);
+    for (const core of view.cores) {
+      writer.u16(coordinate(core.x));
+      writer.u16(coordinate(core.y));
+      if (coresAngular) {
+        writer.u8(encodeAngle(core.direction!, ansi));
+      }
+    }
+    writer.u8(view.deltas.length); // Delta directions are not tracked: no angular information
+    for (const delta of view.deltas) {
+      writer.u16(coordinate(delta.x));
+      writer.u16(coordinate(delta.y));
+    }
+  }
+  return writer.output;
+}
+
+/**
+ * ISO 19794-2 angles are in units of 360/256 degrees, ANSI 378 ones in units of 2 degrees
+ */
+function decodeAngle(value: number, ansi: boolean): number {
+  return ansi ? (value * 2) % 360 : (value * 360) / 256;
+}
+
+function encodeAngle(degrees: number, ansi: boolean): number {
+  const normalized = ((degrees % 360) + 360) % 360;
+  return ansi ? Math.round(normalized / 2) % 180 : Math.round((normalized * 256) / 360) % 256;
+}
+
+function coordinate(value: number): number {
+  const rounded = Math.round(value);
+  if (rounded < 0 || rounded > MAX_COORDINATE) {
+    throw new MinutiaeTemplateError(`Coordinate ${rounded} does not fit the 14-bit template field`);
+  }
+  return rounded;
+}
+
+function clampQuality(value: number): number {
+  return Math.min(100, Math.max(0, Math.round(value)));
+}
+
+class RecordWriter {
+  readonly output: Uint8Array;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(length: number) {
+    this.output = new Uint8Array(length);
+    this.view = new DataView(this.output.buffer);
+  }
+
+  u8(value: number): void {
+    this.view.setUint8(this.offset++, value);
+  }
+
+  u16(value: number): void {
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  u32(value: number): void {
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  bytes(values: ArrayLike<number>): void {
+    this.output.set(values, this.offset);
+    this.offset += values.length;
+  }
+}
@@ -0,0 +1,165 @@
+// Paragraph-level Merkle hashing so verification can point at the edited paragraphs
+
+export const PARAGRAPH_LEAF_SIZE = 4; // Bytes of every paragraph digest kept in the payload
+export const MERKLE_ROOT_SIZE = 32;
+
+const LEAF_PREFIX = 0x00;
+const NODE_PREFIX = 0x01;
+
+/**
+ * Merkle commitment over the paragraphs of a document
+ */
+export interface ParagraphTree {
+  root: string; // Hex SHA-256 root over the full paragraph digests
+  leaves: string[]; // Hex prefixes (PARAGRAPH_LEAF_SIZE bytes) of each paragraph digest, in order
+}
+
+export type ParagraphChangeKind = 'modified' | 'added' | 'removed';
+
+export interface ParagraphChange {
+  kind: ParagraphChangeKind;
+  originalIndex: number | null; // Paragraph position when the document was encrypted, null when added
+  currentIndex: number | null; // Paragraph position in the verified text, null when removed
+  anchorIndex: number; // Current paragraph a removal is shown before (paragraph count at the end)
+}
+
+export interface ParagraphIntegrity {
+  rootMatches: boolean;
+  originalCount: number;
+  paragraphs: string[]; // Current paragraphs, normalized, in order
+  changes: ParagraphChange[];
+}
+
+/**
+ * Split text into paragraphs: every non-blank line, trimmed with inner whitespace collapsed
+ */
+export function splitParagraphs(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim().replace(/\s+/g, ' '))
+    .filter(line => line.length > 0);
+}
+
+/**
+ * Hash every paragraph and build the Merkle root over the digests
+ */
+export async function buildParagraphTree(paragraphs: string[]): Promise<ParagraphTree> {
+  const digests = await Promise.all(paragraphs.map(hashParagraph));
+  return {
+    root: toHex(await merkleRoot(digests)),
+    leaves: digests.map(digest => toHex(digest.subarray(0, PARAGRAPH_LEAF_SIZE)))
+  };
+}
+
+/**
+ * Compare the current text with the embedded tree and list the paragraphs that were
+ * modified, added or removed since encryption
+ */
+export async function compareParagraphs(tree: ParagraphTree, text: string): Promise<ParagraphIntegrity> {
+  const paragraphs = splitParagraphs(text);
+  const current = await buildParagraphTree(paragraphs);
+  const rootMatches = current.root === tree.root;
+
+  return {
+    rootMatches,
+    originalCount: tree.leaves.length,
+    paragraphs,
+    changes: rootMatches ? [] : diffLeaves(tree.leaves, current.leaves)
+  };
+}
+
+async function hashParagraph(paragraph: string): Promise<Uint8Array> {
+  const text = new TextEncoder().encode(paragraph);
+  const input = new Uint8Array(text.length + 1);
+  input[0] = LEAF_PREFIX;
+  input.set(text, 1);
+  return sha256(input);
+}
+
+/**
+ * Pairwise hash upwards; an odd node out is promoted to the next level unchanged
+ */
+async function merkleRoot(digests: Uint8Array[]): Promise<Uint8Array> {
+  if (digests.length === 0) {
+    return sha256(new Uint8Array([LEAF_PREFIX]));
+  }
+
+  let level = digests;
+  while (level.length > 1) {
+    const next: Uint8Array[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        next.push(level[i]);
+        continue;
+      }
+      const input = new Uint8Array(1 + level[i].length + level[i + 1].length);
+      input[0] = NODE_PREFIX;
+      input.set(level[i], 1);
+      input.set(level[i + 1], 1 + level[i].length);
+      next.push(await sha256(input));
+    }
+    level = next;
+  }
+  return level[0];
+}
+
+/**
+ * Align the two leaf lists by longest common subsequence. Between two matching leaves,
+ * removed and added paragraphs are paired up as modifications; the surplus stays added or removed.
+ */
+function diffLeaves(original: string[], current: string[]): ParagraphChange[] {
+  const rows = original.length + 1;
+  const columns = current.length + 1;
+  const lcs = new Uint32Array(rows * columns);
+  for (let i = original.length - 1; i >= 0; i--) {
+    for (let j = current.length - 1; j >= 0; j--) {
+      lcs[i * columns + j] =
+        original[i] === current[j]
+          ? lcs[(i + 1) * columns + j + 1] + 1
+          : Math.max(lcs[(i + 1) * columns + j], lcs[i * columns + j + 1]);
+    }
+  }
+
+  const changes: ParagraphChange[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+  const flush = (anchorIndex: number) => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      changes.push({ kind: 'modified', originalIndex: removed[k], currentIndex: added[k], anchorIndex: added[k] });
+    }
+    for (const index of removed.slice(paired)) {
+      changes.push({ kind: 'removed', originalIndex: index, currentIndex: null, anchorIndex });
+    }
+    for (const index of added.slice(paired)) {
+      changes.push({ kind: 'added', originalIndex: null, currentIndex: index, anchorIndex: index });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < original.length || j < current.length) {
+    if (i < original.length && j < current.length && original[i] === current[j]) {
+      flush(j);
+      i++;
+      j++;
+    } else if (j >= current.length || (i < original.length && lcs[(i + 1) * columns + j] >= lcs[i * columns + j + 1])) {
+      removed.push(i++);
+    } else {
+      added.push(j++);
+    }
+  }
+  flush(current.length);
+
+  return changes;
+}
+
+async function sha256(data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,119 @@
+// AES-GCM sealing under keys derived (HKDF-SHA-256) from the fuzzy-vault secret
+
+/**
+ * How much of an encrypted document is sealed in addition to the watermark:
+ * 'watermark' leaves everything in the clear, 'sealed-payload' encrypts the sensitive
+ * payload fields, 'sealed-document' also encrypts the document body
+ */
+export type EncryptionMode = 'watermark' | 'sealed-payload' | 'sealed-document';
+
+export type SealPurpose = 'payload' | 'document';
+
+export const SEAL_IV_SIZE = 12;
+
+const ARMOR_BEGIN = '-----BEGIN BIOMARK SEALED DOCUMENT-----';
+const ARMOR_END = '-----END BIOMARK SEALED DOCUMENT-----';
+const ARMOR_LINE_LENGTH = 64;
+
+export interface SealedBox {
+  iv: Uint8Array;
+  ciphertext: Uint8Array; // Includes the 16-byte GCM tag
+}
+
+/**
+ * Raised when a sealed box cannot be opened: wrong key or tampered ciphertext
+ */
+export class SealingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SealingError';
+  }
+}
+
+/**
+ * Derive the AES-256-GCM key for one purpose from the unlocked vault secret.
+ * The secret check salt doubles as HKDF salt, so every document gets its own keys.
+ */
+export async function deriveSealingKey(secret: string, salt: string, purpose: SealPurpose): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', hexToBytes(secret), 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: hexToBytes(salt),
+      info: new TextEncoder().encode(`biomark-${purpose}-v1`)
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function seal(key: CryptoKey, plaintext: Uint8Array): Promise<SealedBox> {
+  const iv = crypto.getRandomValues(new Uint8Array(SEAL_IV_SIZE));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+export async function open(key: CryptoKey, box: SealedBox): Promise<Uint8Array> {
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: box.iv }, key, box.ciphertext);
+    return new Uint8Array(plaintext);
+  } catch (error) {
+    throw new SealingError('Sealed data could not be authenticated');
+  }
+}
+
+/**
+ * Render a sealed document body as a base64 text block that survives TXT and DOCX round trips
+ */
+export function armorSealedDocument(box: SealedBox): string {
+  const combined = new Uint8Array(box.iv.length + box.ciphertext.length);
+  combined.set(box.iv);
+  combined.set(box.ciphertext, box.iv.length);
+
+  let binary = '';
+  for (const byte of combined) {
+    binary += String.fromCharCode(byte);
+  }
+  const encoded = btoa(binary);
+  const lines: string[] = [];
+  for (let i = 0; i < encoded.length; i += ARMOR_LINE_LENGTH) {
+    lines.push(encoded.slice(i, i + ARMOR_LINE_LENGTH));
+  }
+  return [ARMOR_BEGIN, ...lines, ARMOR_END].join('\n');
+}
+
+/**
+ * Find the armored block in visible text; null when there is none or it is malformed
+ */
+export function unarmorSealedDocument(text: string): SealedBox | null {
+  const start = text.indexOf(ARMOR_BEGIN);
+  const end = text.indexOf(ARMOR_END, start + 1);
+  if (start === -1 || end === -1) {
+    return null;
+  }
+
+  const encoded = text.slice(start + ARMOR_BEGIN.length, end).replace(/\s+/g, '');
+  let binary: string;
+  try {
+    binary = atob(encoded);
+  } catch (error) {
+    return null;
+  }
+  if (binary.length <= SEAL_IV_SIZE) {
+    return null;
+  }
+
+  const combined = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return { iv: combined.subarray(0, SEAL_IV_SIZE), ciphertext: combined.subarray(SEAL_IV_SIZE) };
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(Math.floor(hex.length / 2));
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  }
+  return bytes;
+}
@@ -0,0 +1,119 @@
+// Runs encryption and verification in a dedicated worker (pipeline.worker.ts), so large
+// fingerprint images do not freeze the page; progress events are relayed as they arrive.
+// Each request has its own worker, so aborting terminates it at once: a cancelled run stops using
+// the CPU even mid-stage. The signal checks inside the pipeline serve callers running it in-process.
+
+import { EncryptDocumentOptions, EncryptionResult, VerificationReport, VerifyDocumentOptions } from "./biometric";
+import { DocumentInput } from "./docx-handler";
+import { PipelineProgress, ProgressListener } from "./pipeline-progress";
+
+export type PipelineRequest =
+  | {
+      kind: 'encrypt';
+      fingerprint: Uint8Array;
+      document: DocumentInput;
+      options: Omit<EncryptDocumentOptions, 'onProgress' | 'signal'>;
+    }
+  | { kind: 'verify'; fingerprint: Uint8Array; document: DocumentInput };
+
+export type PipelineResponse =
+  | { type: 'progress'; progress: PipelineProgress }
+  | { type: 'encrypted'; result: EncryptionResult }
+  | { type: 'verified'; report: VerificationReport }
+  | { type: 'error'; name: string; message: string };
+
+/**
+ * An error thrown inside the worker. Its name is kept, so callers can still tell a
+ * FingerprintQualityError or ImageDecodeError from other failures.
+ */
+export class PipelineWorkerError extends Error {
+  constructor(name: string, message: string) {
+    super(message);
+    this.name = name;
+  }
+}
+
+/**
+ * Whether a call was rejected because its signal was aborted without a custom reason
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof Error || error instanceof DOMException) && error.name === 'AbortError';
+}
+
+/**
+ * BiometricEncryptionService.encryptDocument in a worker
+ */
+export async function encryptInWorker(
+  fingerprint: Uint8Array,
+  document: DocumentInput,
+  options: EncryptDocumentOptions = {}
+): Promise<EncryptionResult> {
+  const { onProgress, signal, ...workerOptions } = options;
+  const response = await runInWorker({ kind: 'encrypt', fingerprint, document, options: workerOptions }, onProgress, signal);
+  if (response.type !== 'encrypted') {
+    throw new PipelineWorkerError('PipelineWorkerError', `Unexpected worker response: ${response.type}`);
+  }
+  return response.result;
+}
+
+/**
+ * BiometricEncryptionService.verifyDocument in a worker
+ */
+export async function verifyInWorker(
+  fingerprint: Uint8Array,
+  document: DocumentInput,
+  options: VerifyDocumentOptions = {}
+): Promise<VerificationReport> {
+  const response = await runInWorker({ kind: 'verify', fingerprint, document }, options.onProgress, options.signal);
+  if (response.type !== 'verified') {
+    throw new PipelineWorkerError('PipelineWorkerError', `Unexpected worker response: ${response.type}`);
+  }
+  return response.report;
+}
+
+/**
+ * One worker per request: it is terminated once the result or an error comes back, or when the
+ * signal aborts, which rejects with the signal's reason and drops anything the worker still sends
+ */
+function runInWorker(
+  request: PipelineRequest,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal
+): Promise<PipelineResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', abort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+      const response = event.data;
+      if (response.type === 'progress') {
+        onProgress?.(response.progress);
+        return;
+      }
+      finish();
+      if (response.type === 'error') {
+        reject(new PipelineWorkerError(response.name, response.message));
+      } else {
+        resolve(response);
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new PipelineWorkerError('PipelineWorkerError', event.message || 'The pipeline worker failed to start'));
+    };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,32 @@
+// Dedicated worker running the encrypt and verify pipelines; see pipeline-client.ts for the caller side
+
+import { createBrowserEncryptionService } from "./browser-adapters";
+import type { PipelineRequest, PipelineResponse } from "./pipeline-client";
+import { PipelineProgress } from "./pipeline-progress";
+
+const service = createBrowserEncryptionService();
+
+function post(response: PipelineResponse): void {
+  self.postMessage(response);
+}
+
+self.onmessage = async (event: MessageEvent<PipelineRequest>) => {
+  const request = event.data;
+  const onProgress = (progress: PipelineProgress) => post({ type: 'progress', progress });
+
+  try {
+    if (request.kind === 'encrypt') {
+      const result = await service.encryptDocument(request.fingerprint, request.document, { ...request.options, onProgress });
+      post({ type: 'encrypted', result });
+    } else {
+      const report = await service.verifyDocument(request.fingerprint, request.document, { onProgress });
+      post({ type: 'verified', report });
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      name: error instanceof Error ? error.name : 'Error',
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
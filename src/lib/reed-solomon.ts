@@ -0,0 +1,287 @@
+// Reed–Solomon error correction over GF(2^8) for watermark payloads
+
+const PRIMITIVE_POLYNOMIAL = 0x11d;
+const FIELD_ORDER = 255; // Max codeword length in symbols
+
+const GF_EXP = new Uint8Array(FIELD_ORDER * 2);
+const GF_LOG = new Uint8Array(FIELD_ORDER + 1);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < FIELD_ORDER; i++) {
+    GF_EXP[i] = x;
+    GF_LOG[x] = i;
+    x <<= 1;
+    if (x & 0x100) {
+      x ^= PRIMITIVE_POLYNOMIAL;
+    }
+  }
+  for (let i = FIELD_ORDER; i < FIELD_ORDER * 2; i++) {
+    GF_EXP[i] = GF_EXP[i - FIELD_ORDER];
+  }
+})();
+
+export const MAX_CODEWORD_LENGTH = FIELD_ORDER;
+
+/**
+ * Raised when a codeword holds more errors/erasures than its parity can repair
+ */
+export class ReedSolomonError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReedSolomonError';
+  }
+}
+
+export interface ReedSolomonDecodeResult {
+  data: Uint8Array;
+  correctedSymbols: number; // Erasures filled plus errors located and fixed
+}
+
+/**
+ * Append `paritySymbols` parity bytes to `data` (systematic encoding)
+ */
+export function rsEncode(data: ArrayLike<number>, paritySymbols: number): Uint8Array {
+  if (data.length + paritySymbols > MAX_CODEWORD_LENGTH) {
+    throw new RangeError(`Codeword too long: ${data.length + paritySymbols} > ${MAX_CODEWORD_LENGTH}`);
+  }
+
+  const generator = generatorPolynomial(paritySymbols);
+  const output = new Uint8Array(data.length + paritySymbols);
+  output.set(Array.from(data));
+
+  for (let i = 0; i < data.length; i++) {
+    const coefficient = output[i];
+    if (coefficient !== 0) {
+      for (let j = 1; j < generator.length; j++) {
+        output[i + j] ^= gfMul(generator[j], coefficient);
+      }
+    }
+  }
+
+  output.set(Array.from(data));
+  return output;
+}
+
+/**
+ * Repair a codeword and return its data symbols.
+ * `erasures` lists symbol positions known to be missing; each costs one parity symbol,
+ * while every unknown error costs two.
+ */
+export function rsDecode(
+  codeword: ArrayLike<number>,
+  paritySymbols: number,
+  erasures: number[] = []
+): ReedSolomonDecodeResult {
+  if (codeword.length > MAX_CODEWORD_LENGTH) {
+    throw new RangeError(`Codeword too long: ${codeword.length} > ${MAX_CODEWORD_LENGTH}`);
+  }
+  if (erasures.length > paritySymbols) {
+    throw new ReedSolomonError(`Too many erasures to correct (${erasures.length} > ${paritySymbols})`);
+  }
+
+  let message = Array.from(codeword);
+  for (const position of erasures) {
+    message[position] = 0;
+  }
+
+  let syndromes = calculateSyndromes(message, paritySymbols);
+  if (syndromes.every(value => value === 0)) {
+    return {
+      data: Uint8Array.from(message.slice(0, message.length - paritySymbols)),
+      correctedSymbols: erasures.length,
+    };
+  }
+
+  const forneySyndromes = calculateForneySyndromes(syndromes, erasures, message.length);
+  const errorLocator = findErrorLocator(forneySyndromes, paritySymbols, erasures.length);
+  const errorPositions = findErrors([...errorLocator].reverse(), message.length);
+
+  message = correctErrata(message, syndromes, [...erasures, ...errorPositions]);
+  syndromes = calculateSyndromes(message, paritySymbols);
+  if (syndromes.some(value => value !== 0)) {
+    throw new ReedSolomonError('Could not correct codeword');
+  }
+
+  return {
+    data: Uint8Array.from(message.slice(0, message.length - paritySymbols)),
+    correctedSymbols: erasures.length + errorPositions.length,
+  };
+}
+
+function gfMul(x: number, y: number): number {
+  if (x === 0 || y === 0) {
+    return 0;
+  }
+  return GF_EXP[GF_LOG[x] + GF_LOG[y]];
+}
+
+function gfDiv(x: number, y: number): number {
+  if (y === 0) {
+    throw new ReedSolomonError('Division by zero in GF(256)');
+  }
+  if (x === 0) {
+    return 0;
+  }
+  return GF_EXP[(GF_LOG[x] + FIELD_ORDER - GF_LOG[y]) % FIELD_ORDER];
+}
+
+function gfPow(x: number, power: number): number {
+  const exponent = (((GF_LOG[x] * power) % FIELD_ORDER) + FIELD_ORDER) % FIELD_ORDER;
+  return GF_EXP[exponent];
+}
+
+function gfInverse(x: number): number {
+  return GF_EXP[FIELD_ORDER - GF_LOG[x]];
+}
+
+// Polynomials are stored highest degree first
+function polyScale(p: number[], x: number): number[] {
+  return p.map(coefficient => gfMul(coefficient, x));
+}
+
+function polyAdd(p: number[], q: number[]): number[] {
+  const result = new Array(Math.max(p.length, q.length)).fill(0);
+  for (let i = 0; i < p.length; i++) {
+    result[i + result.length - p.length] = p[i];
+  }
+  for (let i = 0; i < q.length; i++) {
+    result[i + result.length - q.length] ^= q[i];
+  }
+  return result;
+}
+
+function polyMul(p: number[], q: number[]): number[] {
+  const result = new Array(p.length + q.length - 1).fill(0);
+  for (let j = 0; j < q.length; j++) {
+    for (let i = 0; i < p.length; i++) {
+      result[i + j] ^= gfMul(p[i], q[j]);
+    }
+  }
+  return result;
+}
+
+function polyEval(p: number[], x: number): number {
+  let y = p[0];
+  for (let i = 1; i < p.length; i++) {
+    y = gfMul(y, x) ^ p[i];
+  }
+  return y;
+}
+
+function generatorPolynomial(paritySymbols: number): number[] {
+  let generator = [1];
+  for (let i = 0; i < paritySymbols; i++) {
+    generator = polyMul(generator, [1, gfPow(2, i)]);
+  }
+  return generator;
+}
+
+function calculateSyndromes(message: number[], paritySymbols: number): number[] {
+  // Leading zero keeps the indices aligned with the textbook formulation
+  const syndromes = [0];
+  for (let i = 0; i < paritySymbols; i++) {
+    syndromes.push(polyEval(message, gfPow(2, i)));
+  }
+  return syndromes;
+}
+
+function calculateForneySyndromes(syndromes: number[], erasures: number[], length: number): number[] {
+  const forney = syndromes.slice(1);
+  for (const position of erasures) {
+    const x = gfPow(2, length - 1 - position);
+    for (let j = 0; j < forney.length - 1; j++) {
+      forney[j] = gfMul(forney[j], x) ^ forney[j + 1];
+    }
+  }
+  return forney;
+}
+
+/**
+ * Berlekamp–Massey search for the error locator polynomial
+ */
+function findErrorLocator(syndromes: number[], paritySymbols: number, erasureCount: number): number[] {
+  let errorLocator = [1];
+  let oldLocator = [1];
+  const shift = syndromes.length > paritySymbols ? syndromes.length - paritySymbols : 0;
+
+  for (let i = 0; i < paritySymbols - erasureCount; i++) {
+    const k = i + shift;
+    let delta = syndromes[k];
+    for (let j = 1; j < errorLocator.length; j++) {
+      delta ^= gfMul(errorLocator[errorLocator.length - 1 - j], syndromes[k - j]);
+    }
+    oldLocator = [...oldLocator, 0];
+    if (delta !== 0) {
+      if (oldLocator.length > errorLocator.length) {
+        const newLocator = polyScale(oldLocator, delta);
+        oldLocator = polyScale(errorLocator, gfInverse(delta));
+        errorLocator = newLocator;
+      }
+      errorLocator = polyAdd(errorLocator, polyScale(oldLocator, delta));
+    }
+  }
+
+  while (errorLocator.length && errorLocator[0] === 0) {
+    errorLocator.shift();
+  }
+  const errors = errorLocator.length - 1;
+  if (errors * 2 + erasureCount > paritySymbols) {
+    throw new ReedSolomonError('Too many errors to correct');
+  }
+  return errorLocator;
+}
+
+/**
+ * Chien search for the roots of the error locator
+ */
+function findErrors(errorLocator: number[], length: number): number[] {
+  const expected = errorLocator.length - 1;
+  const positions: number[] = [];
+  for (let i = 0; i < length; i++) {
+    if (polyEval(errorLocator, gfPow(2, i)) === 0) {
+      positions.push(length - 1 - i);
+    }
+  }
+  if (positions.length !== expected) {
+    throw new ReedSolomonError('Could not locate all errors');
+  }
+  return positions;
+}
+
+/**
+ * Forney algorithm: compute error magnitudes at the errata positions and apply them
+ */
+function correctErrata(message: number[], syndromes: number[], positions: number[]): number[] {
+  const coefficientPositions = positions.map(position => message.length - 1 - position);
+
+  let errataLocator = [1];
+  for (const position of coefficientPositions) {
+    errataLocator = polyMul(errataLocator, polyAdd([1], [gfPow(2, position), 0]));
+  }
+
+  const reversedSyndromes = [...syndromes].reverse();
+  const product = polyMul(reversedSyndromes, errataLocator);
+  // Remainder of division by x^(deg + 1) is the tail of the product
+  const evaluator = product.slice(product.length - errataLocator.length).reverse();
+
+  const locations = coefficientPositions.map(position => gfPow(2, position - FIELD_ORDER));
+  const magnitudes = new Array(message.length).fill(0);
+
+  locations.forEach((location, i) => {
+    const locationInverse = gfInverse(location);
+    let locatorDerivative = 1;
+    locations.forEach((other, j) => {
+      if (j !== i) {
+        locatorDerivative = gfMul(locatorDerivative, 1 ^ gfMul(locationInverse, other));
+      }
+    });
+    if (locatorDerivative === 0) {
+      throw new ReedSolomonError('Could not find error magnitude');
+    }
+    const y = gfMul(location, polyEval([...evaluator].reverse(), locationInverse));
+    magnitudes[positions[i]] = gfDiv(y, locatorDerivative);
+  });
+
+  return polyAdd(message, magnitudes);
+}
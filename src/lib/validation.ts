@@ -1,5 +1,11 @@
 // Validation utilities for file uploads and biometric processing
+import { decodeRasterInBrowser, documentFromFile } from "./browser-adapters";
 import { readDocumentAsPlainText } from "./docx-handler";
+import { estimateOrientationField, GrayscaleImage } from "./fingerprint-enhancement";
+import { segmentFingerprint } from "./fingerprint-segmentation";
+import { decodeImage, ImageDecodeError, MAX_CANONICAL_DIMENSION, RasterDecoder } from "./image-decoders";
+import { CANONICAL_PPI, resampleImage, resolveResolution } from "./image-resolution";
+import { decodeMinutiaeTemplate, isMinutiaeTemplate, MinutiaeTemplateError } from "./minutiae-template";
 
 export interface ValidationResult {
   isValid: boolean;
@@ -12,6 +18,7 @@ export interface FingerprintQualityMetrics {
   ridgeCoverage: number;
   ridgeFrequency: number;
   signalToNoise: number;
+  foregroundArea: number; // Share of the image covered by the print (segmentation mask)
   qualityScore: number;
   width: number;
   height: number;
@@ -29,6 +36,7 @@ const QUALITY_THRESHOLDS = {
   ridgeFrequencyMin: 2,
   ridgeFrequencyMax: 60,
   signalToNoise: 0.75,
+  foregroundArea: 0.2,
 };
 
 const MAX_ALLOWED_FAILING_CHECKS = 1;
@@ -37,12 +45,23 @@ const MAX_ALLOWED_FAILING_CHECKS = 1;
  * Validate fingerprint image file
  */
 export function validateFingerprintFile(file: File): ValidationResult {
-  // Check file type
-  const allowedTypes = ['image/png', 'image/jpeg', 'image/jpg'];
-  if (!allowedTypes.includes(file.type)) {
+  // Check file type; scanner formats often come without a MIME type, so the extension also counts
+  const allowedTypes = [
+    'image/png',
+    'image/jpeg',
+    'image/jpg',
+    'image/bmp',
+    'image/tiff',
+    'image/x-portable-graymap',
+    'image/wsq',
+    'image/x-wsq'
+  ];
+  const allowedExtensions = ['.png', '.jpg', '.jpeg', '.bmp', '.tif', '.tiff', '.pgm', '.wsq'];
+  const fileExtension = file.name.toLowerCase().substring(file.name.lastIndexOf('.'));
+  if (!allowedTypes.includes(file.type) && !allowedExtensions.includes(fileExtension)) {
     return {
       isValid: false,
-      error: 'Fingerprint must be a PNG or JPG image'
+      error: 'Fingerprint must be a PNG, JPG, BMP, TIFF, PGM or WSQ image'
     };
   }
 
@@ -55,18 +74,44 @@ export function validateFingerprintFile(file: File): ValidationResult {
     };
   }
 
-  // Check minimum size (at least 100KB)
-  const minSize = 100 * 1024; // 100KB
+  // Check minimum size (at least 100KB; WSQ compresses about 15:1, so 10KB there)
+  const isWsqFile = fileExtension === '.wsq' || file.type.endsWith('wsq');
+  const minSize = (isWsqFile ? 10 : 100) * 1024;
   if (file.size < minSize) {
     return {
       isValid: false,
-      error: 'Fingerprint image is too small (min 100KB)'
+      error: `Fingerprint image is too small (min ${isWsqFile ? 10 : 100}KB)`
     };
   }
 
   return { isValid: true };
 }
 
+/**
+ * Validate an ISO 19794-2 / ANSI 378 minutiae template: it must decode and hold a finger view
+ */
+export async function validateFingerprintTemplate(file: File): Promise<ValidationResult> {
+  try {
+    const template = decodeMinutiaeTemplate(new Uint8Array(await file.arrayBuffer()));
+    if (template.views.length === 0) {
+      return {
+        isValid: false,
+        error: 'Minutiae template holds no finger view'
+      };
+    }
+  } catch (error) {
+    if (error instanceof MinutiaeTemplateError) {
+      return {
+        isValid: false,
+        error: `Invalid minutiae template: ${error.message}`
+      };
+    }
+    throw error;
+  }
+
+  return { isValid: true };
+}
+
 /**
  * Validate document file
  */
@@ -110,66 +155,70 @@ export function validateDocumentFile(file: File): ValidationResult {
 }
 
 /**
- * Validate image dimensions for fingerprint processing
+ * Validate image dimensions for fingerprint processing. Limits apply after resampling to
+ * 500 ppi (file metadata or the override), so they describe the same physical area for every sensor.
+ * PNG and JPEG are decoded by the raster decoder, the browser's by default.
  */
-export async function validateImageDimensions(file: File): Promise<ValidationResult> {
-  return new Promise((resolve) => {
-    const img = new Image();
-    img.onload = () => {
-      const minWidth = 200;
-      const minHeight = 200;
-      const maxWidth = 2000;
-      const maxHeight = 2000;
-
-      if (img.width < minWidth || img.height < minHeight) {
-        resolve({
-          isValid: false,
-          error: `Image dimensions too small (min ${minWidth}x${minHeight}px)`
-        });
-        return;
-      }
+export async function validateImageDimensions(
+  file: File,
+  resolutionOverride: number | null = null,
+  rasterDecoder: RasterDecoder = decodeRasterInBrowser
+): Promise<ValidationResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const { ppi } = resolveResolution(bytes, resolutionOverride);
+  const scale = CANONICAL_PPI / ppi;
+  const atResolution = ppi === CANONICAL_PPI ? '' : ` at ${CANONICAL_PPI} ppi, this image is ${Math.round(ppi)} ppi`;
+
+  let size: { width: number; height: number };
+  try {
+    size = await decodeImage(bytes, rasterDecoder, ppi);
+  } catch (error) {
+    return {
+      isValid: false,
+      error: error instanceof ImageDecodeError ? `Invalid image file (${error.message})` : 'Invalid image file'
+    };
+  }
 
-      if (img.width > maxWidth || img.height > maxHeight) {
-        resolve({
-          isValid: false,
-          error: `Image dimensions too large (max ${maxWidth}x${maxHeight}px)`
-        });
-        return;
-      }
+  const minWidth = 200;
+  const minHeight = 200;
+  const maxWidth = MAX_CANONICAL_DIMENSION;
+  const maxHeight = MAX_CANONICAL_DIMENSION;
+  const width = Math.round(size.width * scale);
+  const height = Math.round(size.height * scale);
 
-      resolve({ isValid: true });
+  if (width < minWidth || height < minHeight) {
+    return {
+      isValid: false,
+      error: `Image dimensions too small (min ${minWidth}x${minHeight}px${atResolution})`
     };
-    img.onerror = () => {
-      resolve({
-        isValid: false,
-        error: 'Invalid image file'
-      });
+  }
+
+  if (width > maxWidth || height > maxHeight) {
+    return {
+      isValid: false,
+      error: `Image dimensions too large (max ${maxWidth}x${maxHeight}px${atResolution})`
     };
-    img.src = URL.createObjectURL(file);
-  });
+  }
+
+  return { isValid: true };
 }
 
 /**
- * Validate fingerprint quality metrics to make sure the sample is usable.
+ * Validate fingerprint quality metrics to make sure the sample is usable. The image is
+ * resampled to 500 ppi first, as the processor does.
  */
-export async function validateFingerprintQuality(file: File): Promise<FingerprintQualityResult> {
+export async function validateFingerprintQuality(
+  file: File,
+  resolutionOverride: number | null = null,
+  rasterDecoder: RasterDecoder = decodeRasterInBrowser
+): Promise<FingerprintQualityResult> {
   try {
-    const img = await loadImageFromFile(file);
-    const canvas = document.createElement("canvas");
-    const ctx = canvas.getContext("2d", { willReadFrequently: true });
-    if (!ctx) {
-      return {
-        isValid: false,
-        error: "Browser does not support fingerprint analysis canvas context",
-      };
-    }
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    const { ppi } = resolveResolution(bytes, resolutionOverride);
+    const image = await decodeImage(bytes, rasterDecoder, ppi);
+    const canonical = ppi === CANONICAL_PPI ? image : resampleImage(image, CANONICAL_PPI / ppi);
 
-    canvas.width = img.width;
-    canvas.height = img.height;
-    ctx.drawImage(img, 0, 0, img.width, img.height);
-    const imageData = ctx.getImageData(0, 0, img.width, img.height);
-
-    const metrics = analyzeFingerprintQuality(imageData);
+    const metrics = analyzeFingerprintQuality(canonical);
     const failingChecks: string[] = [];
 
     if (metrics.contrast < QUALITY_THRESHOLDS.contrast) {
@@ -193,6 +242,9 @@ export async function validateFingerprintQuality(file: File): Promise<Fingerprin
     if (metrics.signalToNoise < QUALITY_THRESHOLDS.signalToNoise) {
       failingChecks.push("noisy background");
     }
+    if (metrics.foregroundArea < QUALITY_THRESHOLDS.foregroundArea) {
+      failingChecks.push("too little fingerprint area");
+    }
 
     if (failingChecks.length > MAX_ALLOWED_FAILING_CHECKS) {
       return {
@@ -217,7 +269,7 @@ export async function validateFingerprintQuality(file: File): Promise<Fingerprin
  */
 export async function validateDocumentContent(file: File, isWatermarked: boolean = false): Promise<ValidationResult> {
   try {
-    const { text } = await readDocumentAsPlainText(file);
+    const { text } = await readDocumentAsPlainText(await documentFromFile(file));
 
     if (!text.trim()) {
       return {
@@ -255,9 +307,20 @@ export async function validateDocumentContent(file: File, isWatermarked: boolean
 /**
  * Comprehensive file validation
  */
-export async function validateFiles(fingerprintFile: File, documentFile: File, isWatermarked: boolean = false): Promise<ValidationResult> {
+export async function validateFiles(
+  fingerprintFile: File,
+  documentFile: File,
+  isWatermarked: boolean = false,
+  fingerprintResolution: number | null = null, // ppi override for scans without resolution metadata
+  rasterDecoder: RasterDecoder = decodeRasterInBrowser
+): Promise<ValidationResult> {
+  // Minutiae templates have no pixels: they skip the image size, dimension and quality checks
+  const isTemplate = isMinutiaeTemplate(new Uint8Array(await fingerprintFile.slice(0, 4).arrayBuffer()));
+
   // Validate fingerprint file
-  const fingerprintValidation = validateFingerprintFile(fingerprintFile);
+  const fingerprintValidation = isTemplate
+    ? await validateFingerprintTemplate(fingerprintFile)
+    : validateFingerprintFile(fingerprintFile);
   if (!fingerprintValidation.isValid) {
     return fingerprintValidation;
   }
@@ -268,16 +331,18 @@ export async function validateFiles(fingerprintFile: File, documentFile: File, i
     return documentValidation;
   }
 
-  // Validate fingerprint image dimensions
-  const dimensionValidation = await validateImageDimensions(fingerprintFile);
-  if (!dimensionValidation.isValid) {
-    return dimensionValidation;
-  }
+  if (!isTemplate) {
+    // Validate fingerprint image dimensions
+    const dimensionValidation = await validateImageDimensions(fingerprintFile, fingerprintResolution, rasterDecoder);
+    if (!dimensionValidation.isValid) {
+      return dimensionValidation;
+    }
 
-  // Validate fingerprint sample quality
-  const qualityValidation = await validateFingerprintQuality(fingerprintFile);
-  if (!qualityValidation.isValid) {
-    return qualityValidation;
+    // Validate fingerprint sample quality
+    const qualityValidation = await validateFingerprintQuality(fingerprintFile, fingerprintResolution, rasterDecoder);
+    if (!qualityValidation.isValid) {
+      return qualityValidation;
+    }
   }
 
   // Validate document content (with watermark consideration)
@@ -289,44 +354,36 @@ export async function validateFiles(fingerprintFile: File, documentFile: File, i
   return { isValid: true };
 }
 
-async function loadImageFromFile(file: File): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    const objectUrl = URL.createObjectURL(file);
-    img.onload = () => {
-      URL.revokeObjectURL(objectUrl);
-      resolve(img);
-    };
-    img.onerror = () => {
-      URL.revokeObjectURL(objectUrl);
-      reject(new Error("Failed to load fingerprint image"));
-    };
-    img.src = objectUrl;
-  });
-}
-
-function analyzeFingerprintQuality(imageData: ImageData): FingerprintQualityMetrics {
-  const { data, width, height } = imageData;
+function analyzeFingerprintQuality(image: GrayscaleImage): FingerprintQualityMetrics {
+  const { data: grayscale, width, height } = image;
   const pixelCount = width * height;
-  const grayscale = new Float32Array(pixelCount);
-  let sum = 0;
 
-  for (let i = 0, p = 0; i < data.length; i += 4, p++) {
-    const gray = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-    grayscale[p] = gray;
-    sum += gray;
+  // Contrast and ridge metrics only look at the print itself, not the background around it
+  const mask = segmentFingerprint(image, estimateOrientationField(image));
+  const foregroundArea = mask.foregroundRatio;
+  const region = foregroundArea > 0 ? mask.foreground : new Uint8Array(pixelCount).fill(1);
+
+  let sum = 0;
+  let regionPixels = 0;
+  for (let i = 0; i < grayscale.length; i++) {
+    if (region[i]) {
+      sum += grayscale[i];
+      regionPixels++;
+    }
   }
 
-  const mean = sum / pixelCount;
+  const mean = sum / regionPixels;
   let varianceAccumulator = 0;
   for (let i = 0; i < grayscale.length; i++) {
-    const diff = grayscale[i] - mean;
-    varianceAccumulator += diff * diff;
+    if (region[i]) {
+      const diff = grayscale[i] - mean;
+      varianceAccumulator += diff * diff;
+    }
   }
-  const contrast = Math.sqrt(varianceAccumulator / pixelCount);
+  const contrast = Math.sqrt(varianceAccumulator / regionPixels);
 
   const clarity = computeLaplacianVariance(grayscale, width, height);
-  const { ridgeCoverage, ridgeFrequency } = analyzeRidgePattern(grayscale, width, height);
+  const { ridgeCoverage, ridgeFrequency } = analyzeRidgePattern(grayscale, region, width, height);
   const signalToNoise = analyzeSignalToNoise(grayscale, width, height);
 
   const normalizedContrast = Math.min(contrast / QUALITY_THRESHOLDS.contrast, 1.4);
@@ -349,13 +406,14 @@ function analyzeFingerprintQuality(imageData: ImageData): FingerprintQualityMetr
     ridgeCoverage,
     ridgeFrequency,
     signalToNoise,
+    foregroundArea,
     qualityScore,
     width,
     height,
   };
 }
 
-function computeLaplacianVariance(grayscale: Float32Array, width: number, height: number): number {
+function computeLaplacianVariance(grayscale: Uint8ClampedArray, width: number, height: number): number {
   let sum = 0;
   let sumSq = 0;
   let count = 0;
@@ -381,7 +439,7 @@ function computeLaplacianVariance(grayscale: Float32Array, width: number, height
   return Math.max(variance, 0);
 }
 
-function analyzeSignalToNoise(grayscale: Float32Array, width: number, height: number): number {
+function analyzeSignalToNoise(grayscale: Uint8ClampedArray, width: number, height: number): number {
   let sumMagnitude = 0;
   let sumSquaredMagnitude = 0;
   let count = 0;
@@ -414,16 +472,23 @@ function analyzeSignalToNoise(grayscale: Float32Array, width: number, height: nu
   return mean / stdDev;
 }
 
-function analyzeRidgePattern(grayscale: Float32Array, width: number, height: number): {
+/**
+ * Dark-pixel coverage and transitions per row, counted inside the foreground region only
+ */
+function analyzeRidgePattern(grayscale: Uint8ClampedArray, region: Uint8Array, width: number, height: number): {
   ridgeCoverage: number;
   ridgeFrequency: number;
 } {
   let darkPixelCount = 0;
-  const totalPixels = grayscale.length;
+  let totalPixels = 0;
   const threshold = 140;
 
-  const binary = new Uint8Array(totalPixels);
+  const binary = new Uint8Array(grayscale.length);
   for (let i = 0; i < grayscale.length; i++) {
+    if (!region[i]) {
+      continue;
+    }
+    totalPixels++;
     if (grayscale[i] < threshold) {
       darkPixelCount++;
       binary[i] = 1;
@@ -444,10 +509,10 @@ function analyzeRidgePattern(grayscale: Float32Array, width: number, height: num
       if (current) {
         rowHasInk = true;
       }
-      if (current !== prev) {
+      if (current !== prev && region[y * width + x] && region[y * width + x - 1]) {
         transitions++;
-        prev = current;
       }
+      prev = current;
     }
 
     if (rowHasInk) {
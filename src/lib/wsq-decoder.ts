@@ -0,0 +1,526 @@
+// WSQ decoder (FBI Wavelet Scalar Quantization, IAFIS-IC-0110): Huffman-coded, scalar-quantized
+// 64-subband decomposition of an 8-bit grayscale fingerprint with the 9/7 biorthogonal filters
+
+import { ByteReader } from "./byte-reader";
+import { GrayscaleImage } from "./fingerprint-enhancement";
+
+/**
+ * Raised when WSQ data is malformed or uses a feature this decoder does not read
+ */
+export class WsqDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WsqDecodeError';
+  }
+}
+
+const SOI = 0xffa0;
+const EOI = 0xffa1;
+const SOF = 0xffa2;
+const SOB = 0xffa3;
+const DTT = 0xffa4;
+const DQT = 0xffa5;
+const DHT = 0xffa6;
+const DRT = 0xffa7;
+const COM = 0xffa8;
+
+const SUBBANDS = 64;
+const CODED_SUBBANDS = 60; // Subbands 60-63 (the highest frequencies) are never transmitted
+const MAX_HUFFMAN_BITS = 16;
+
+// Analysis filters every WSQ encoder writes to its transform table (the table itself is only skipped)
+const LOWPASS = [
+  0.037828455506995, -0.02384946501938, -0.11062440441842, 0.37740285561265, 0.8526986790094,
+  0.37740285561265, -0.11062440441842, -0.02384946501938, 0.037828455506995
+];
+const HIGHPASS = [
+  0.064538882628938, -0.040689417609558, -0.41809227322221, 0.78848561640566, -0.41809227322221,
+  -0.040689417609558, 0.064538882628938
+];
+// Synthesis filters: each is the other analysis filter modulated by (-1)^n about its centre tap
+const SYNTHESIS_LOWPASS = HIGHPASS.map((tap, i) => (i % 2 === 1 ? tap : -tap)); // Taps -3..3
+const SYNTHESIS_HIGHPASS = LOWPASS.map((tap, i) => (i % 2 === 0 ? tap : -tap)); // Taps -4..4
+
+export function isWsq(bytes: Uint8Array): boolean {
+  return bytes[0] === 0xff && bytes[1] === (SOI & 0xff);
+}
+
+/**
+ * Decode a WSQ file into 8-bit grayscale pixels. A frame wider or taller than `maxDimension`
+ * is rejected before any coefficient buffer is allocated.
+ */
+export function decodeWsq(bytes: Uint8Array, maxDimension = Infinity): GrayscaleImage {
+  if (!isWsq(bytes)) {
+    throw new WsqDecodeError('Missing start-of-image marker');
+  }
+  try {
+    return decode(new WsqReader(bytes), maxDimension);
+  } catch (error) {
+    if (error instanceof RangeError) {
+      throw new WsqDecodeError('Data is truncated');
+    }
+    throw error;
+  }
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  shift: number; // Mean the encoder subtracted
+  scale: number; // Factor the encoder divided by
+}
+
+interface Quantization {
+  binCenter: number;
+  binWidths: number[]; // Q per subband; 0 = subband not transmitted
+  zeroBins: number[]; // Z per subband
+}
+
+interface HuffmanTable {
+  maxCode: number[]; // Per code length 1-16; -1 when no code has that length
+  minCode: number[];
+  valuePointer: number[];
+  values: number[];
+}
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface TransformNode extends Region {
+  // Spectrally inverted split: the highpass half comes first (and is the smaller one on odd lengths)
+  invertX: boolean;
+  invertY: boolean;
+}
+
+function decode(reader: WsqReader, maxDimension: number): GrayscaleImage {
+  reader.offset = 2;
+  let frame: Frame | null = null;
+  let quantization: Quantization | null = null;
+  const tables = new Map<number, HuffmanTable>();
+  let coefficients: Int32Array | null = null;
+  let decoded = 0;
+  let regions: Region[] = [];
+
+  for (;;) {
+    const marker = reader.u16();
+    if (marker === EOI) {
+      break;
+    }
+    if (marker === SOB) {
+      if (!frame || !quantization) {
+        throw new WsqDecodeError('Block before the frame header or quantization table');
+      }
+      if (!coefficients) {
+        regions = subbandRegions(frame.width, frame.height);
+        coefficients = new Int32Array(codedCoefficientCount(regions, quantization));
+      }
+      reader.u16(); // Header length
+      const table = tables.get(reader.u8());
+      if (!table) {
+        throw new WsqDecodeError('Block refers to an undefined Huffman table');
+      }
+      decoded = decodeBlock(reader, table, coefficients, decoded);
+      continue;
+    }
+
+    const end = reader.offset + reader.u16(); // Segment length includes its own two bytes
+    switch (marker) {
+      case SOF:
+        frame = readFrame(reader, maxDimension);
+        break;
+      case DQT:
+        quantization = readQuantization(reader);
+        break;
+      case DHT:
+        while (reader.offset < end) {
+          const id = reader.u8();
+          tables.set(id, readHuffmanTable(reader));
+        }
+        break;
+      case DRT:
+        if (reader.u16() !== 0) {
+          throw new WsqDecodeError('Restart intervals are not supported');
+        }
+        break;
+      case DTT:
+      case COM:
+        break;
+      default:
+        throw new WsqDecodeError(`Unexpected marker 0x${marker.toString(16)}`);
+    }
+    reader.offset = end;
+  }
+
+  if (!frame || !quantization || !coefficients) {
+    throw new WsqDecodeError('No image data before the end-of-image marker');
+  }
+  if (decoded !== coefficients.length) {
+    throw new WsqDecodeError(`Expected ${coefficients.length} coefficients, decoded ${decoded}`);
+  }
+
+  const wavelet = dequantize(coefficients, regions, quantization, frame.width, frame.height);
+  const nodes = transformTree(frame.width, frame.height);
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    inverseTransform(wavelet, frame.width, nodes[i]);
+  }
+
+  const data = new Uint8ClampedArray(frame.width * frame.height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.round(wavelet[i] * frame.scale + frame.shift);
+  }
+  return { width: frame.width, height: frame.height, data };
+}
+
+/**
+ * Frame header: black (1) | white (1) | height (2) | width (2) | shift and scale as
+ * exponent (1) + mantissa (2) | encoder (1) | software (2)
+ */
+function readFrame(reader: WsqReader, maxDimension: number): Frame {
+  reader.u8(); // Black
+  reader.u8(); // White
+  const height = reader.u16();
+  const width = reader.u16();
+  const shift = reader.scaled16();
+  const scale = reader.scaled16();
+  if (width === 0 || height === 0) {
+    throw new WsqDecodeError('Frame has no pixels');
+  }
+  if (width > maxDimension || height > maxDimension) {
+    throw new WsqDecodeError(`Frame of ${width}x${height} pixels exceeds the ${maxDimension} px limit`);
+  }
+  return { width, height, shift, scale };
+}
+
+function readQuantization(reader: WsqReader): Quantization {
+  const binCenter = reader.scaled16();
+  const binWidths: number[] = [];
+  const zeroBins: number[] = [];
+  for (let band = 0; band < SUBBANDS; band++) {
+    binWidths.push(reader.scaled16());
+    zeroBins.push(reader.scaled16());
+  }
+  return { binCenter, binWidths, zeroBins };
+}
+
+/**
+ * Code counts per length 1-16, then the symbol values; canonical codes as in JPEG
+ */
+function readHuffmanTable(reader: WsqReader): HuffmanTable {
+  const counts = Array.from({ length: MAX_HUFFMAN_BITS }, () => reader.u8());
+  const values = Array.from({ length: counts.reduce((sum, count) => sum + count, 0) }, () => reader.u8());
+
+  const maxCode: number[] = [];
+  const minCode: number[] = [];
+  const valuePointer: number[] = [];
+  let code = 0;
+  let pointer = 0;
+  for (let length = 0; length < MAX_HUFFMAN_BITS; length++) {
+    if (counts[length] === 0) {
+      maxCode.push(-1);
+      minCode.push(0);
+      valuePointer.push(0);
+    } else {
+      valuePointer.push(pointer);
+      minCode.push(code);
+      code += counts[length];
+      pointer += counts[length];
+      maxCode.push(code - 1);
+    }
+    code <<= 1;
+  }
+  return { maxCode, minCode, valuePointer, values };
+}
+
+/**
+ * Entropy-coded data of one block, up to the next marker. Symbols 1-100 are zero runs,
+ * 101/102 an 8-bit positive/negative coefficient, 103/104 a 16-bit one, 105/106 an 8/16-bit
+ * zero run length; 107 and above code coefficients -73..75 as symbol − 180.
+ */
+function decodeBlock(reader: WsqReader, table: HuffmanTable, coefficients: Int32Array, start: number): number {
+  const bits = new BitReader(reader);
+  let index = start;
+  const push = (value: number, count = 1) => {
+    if (index + count > coefficients.length) {
+      throw new WsqDecodeError('More coefficients than the subbands hold');
+    }
+    coefficients.fill(value, index, index + count);
+    index += count;
+  };
+
+  for (;;) {
+    const symbol = bits.symbol(table);
+    if (symbol === null) {
+      break;
+    }
+    if (symbol >= 1 && symbol <= 100) {
+      push(0, symbol);
+    } else if (symbol === 101 || symbol === 102) {
+      push((symbol === 101 ? 1 : -1) * bits.required(8));
+    } else if (symbol === 103 || symbol === 104) {
+      push((symbol === 103 ? 1 : -1) * bits.required(16));
+    } else if (symbol === 105 || symbol === 106) {
+      push(0, bits.required(symbol === 105 ? 8 : 16));
+    } else if (symbol > 106) {
+      push(symbol - 180);
+    } else {
+      throw new WsqDecodeError(`Invalid Huffman symbol ${symbol}`);
+    }
+  }
+  reader.offset = bits.markerOffset;
+  return index;
+}
+
+function codedCoefficientCount(regions: Region[], quantization: Quantization): number {
+  let count = 0;
+  for (let band = 0; band < CODED_SUBBANDS; band++) {
+    if (quantization.binWidths[band] !== 0) {
+      count += regions[band].width * regions[band].height;
+    }
+  }
+  return count;
+}
+
+/**
+ * Coefficients back to wavelet values, each subband in its place in an image-sized plane.
+ * Values sit at bin centre C within their bin, away from the zero bin of width Z.
+ */
+function dequantize(
+  coefficients: Int32Array,
+  regions: Region[],
+  { binCenter, binWidths, zeroBins }: Quantization,
+  width: number,
+  height: number
+): Float32Array {
+  const wavelet = new Float32Array(width * height);
+  let index = 0;
+  for (let band = 0; band < CODED_SUBBANDS; band++) {
+    const q = binWidths[band];
+    if (q === 0) {
+      continue;
+    }
+    const halfZero = zeroBins[band] / 2;
+    const { x, y, width: bandWidth, height: bandHeight } = regions[band];
+    for (let row = 0; row < bandHeight; row++) {
+      for (let col = 0; col < bandWidth; col++) {
+        const value = coefficients[index++];
+        wavelet[(y + row) * width + x + col] =
+          value > 0 ? q * (value - binCenter) + halfZero : value < 0 ? q * (value + binCenter) - halfZero : 0;
+      }
+    }
+  }
+  return wavelet;
+}
+
+/**
+ * One level of 2D splitting: top-left, top-right, bottom-left, bottom-right. The first half
+ * along an axis is the larger one on odd lengths unless the node is inverted along it.
+ */
+function quadrants({ x, y, width, height, invertX, invertY }: TransformNode): Region[] {
+  const left = invertX ? Math.floor(width / 2) : Math.ceil(width / 2);
+  const top = invertY ? Math.floor(height / 2) : Math.ceil(height / 2);
+  return [
+    { x, y, width: left, height: top },
+    { x: x + left, y, width: width - left, height: top },
+    { x, y: y + top, width: left, height: height - top },
+    { x: x + left, y: y + top, width: width - left, height: height - top }
+  ];
+}
+
+// Nodes whose split is spectrally inverted, by node index (FBI WSQ specification, table A.2)
+const INVERTED_X = new Set([2, 4, 7, 9, 11, 13, 16, 18]);
+const INVERTED_Y = new Set([3, 5, 8, 9, 12, 13, 17, 18]);
+
+/**
+ * The 20 regions split by the decomposition, in analysis order: the image (0); its low (1) and
+ * two mixed quadrants (2, 3); within 1, the low quadrant (14) and the mixed ones (4, 5), split
+ * twice more (6-13, 15-18); and the lowest quadrant of 15 (19).
+ */
+function transformTree(width: number, height: number): TransformNode[] {
+  const nodes: TransformNode[] = [];
+  const place = (index: number, region: Region) => {
+    nodes[index] = { ...region, invertX: INVERTED_X.has(index), invertY: INVERTED_Y.has(index) };
+  };
+  const split = (index: number) => quadrants(nodes[index]);
+
+  place(0, { x: 0, y: 0, width, height });
+  split(0).slice(0, 3).forEach((region, i) => place(1 + i, region));
+  const [low, right, bottom] = split(1);
+  place(14, low);
+  place(4, right);
+  place(5, bottom);
+  split(4).forEach((region, i) => place(6 + i, region));
+  split(5).forEach((region, i) => place(10 + i, region));
+  split(14).forEach((region, i) => place(15 + i, region));
+  place(19, split(15)[0]);
+  return nodes;
+}
+
+/**
+ * The 64 subbands in coding order, each a quadrant of a transform node: 0-18 within node 14,
+ * 19-50 within nodes 4 and 5, 51 the high quadrant of node 1, 52-59 nodes 2 and 3, 60-63 the
+ * image's high quadrant
+ */
+function subbandRegions(width: number, height: number): Region[] {
+  const nodes = transformTree(width, height);
+  const split = (index: number) => quadrants(nodes[index]);
+  const [, , , highQuadrant] = quadrants(nodes[0]);
+  return [
+    ...split(19),
+    ...split(15).slice(1),
+    ...[16, 17, 18, 6, 7, 8, 9, 10, 11, 12, 13].flatMap(split),
+    split(1)[3],
+    ...split(2),
+    ...split(3),
+    ...quadrants({ ...highQuadrant, invertX: true, invertY: true })
+  ];
+}
+
+/**
+ * Invert one node: columns, then rows
+ */
+function inverseTransform(plane: Float32Array, stride: number, node: TransformNode): void {
+  const line = new Float32Array(Math.max(node.width, node.height));
+  const output = new Float32Array(line.length);
+  for (let col = 0; col < node.width; col++) {
+    const start = node.y * stride + node.x + col;
+    for (let i = 0; i < node.height; i++) {
+      line[i] = plane[start + i * stride];
+    }
+    synthesize(line, node.height, node.invertY, output);
+    for (let i = 0; i < node.height; i++) {
+      plane[start + i * stride] = output[i];
+    }
+  }
+  for (let row = 0; row < node.height; row++) {
+    const start = (node.y + row) * stride + node.x;
+    line.set(plane.subarray(start, start + node.width));
+    synthesize(line, node.width, node.invertX, output);
+    plane.set(output.subarray(0, node.width), start);
+  }
+}
+
+/**
+ * One-dimensional synthesis. Analysis put lowpass outputs on even and highpass outputs on odd
+ * samples of a whole-sample symmetric extension; folding indices back into the signal
+ * reproduces that extension for the subbands.
+ */
+function synthesize(input: Float32Array, length: number, inverted: boolean, output: Float32Array): void {
+  if (length === 1) {
+    output[0] = input[0] / Math.SQRT2; // The lowpass filter sums to √2
+    return;
+  }
+  const lowLength = Math.ceil(length / 2);
+  const highLength = length - lowLength;
+  const lowStart = inverted ? highLength : 0;
+  const highStart = inverted ? 0 : lowLength;
+  const period = 2 * (length - 1);
+  const fold = (index: number) => {
+    const wrapped = ((index % period) + period) % period;
+    return wrapped < length ? wrapped : period - wrapped;
+  };
+
+  for (let n = 0; n < length; n++) {
+    let sum = 0;
+    for (let offset = -4; offset <= 4; offset++) {
+      const m = fold(n - offset);
+      if (m % 2 === 0) {
+        if (Math.abs(offset) <= 3) {
+          sum += SYNTHESIS_LOWPASS[offset + 3] * input[lowStart + m / 2];
+        }
+      } else {
+        sum += SYNTHESIS_HIGHPASS[offset + 4] * input[highStart + (m - 1) / 2];
+      }
+    }
+    output[n] = sum;
+  }
+}
+
+/**
+ * Byte reader with WSQ's scaled 16-bit numbers
+ */
+class WsqReader extends ByteReader {
+  /**
+   * Decimal exponent (1) and mantissa (2): mantissa / 10^exponent
+   */
+  scaled16(): number {
+    const exponent = this.u8();
+    return this.u16() / 10 ** exponent;
+  }
+}
+
+/**
+ * MSB-first bits of entropy-coded data. 0xFF 0x00 is a stuffed 0xFF; any other 0xFF pair is a
+ * marker, which ends the block.
+ */
+class BitReader {
+  markerOffset = -1;
+  private current = 0;
+  private remaining = 0;
+
+  constructor(private readonly reader: WsqReader) {}
+
+  /**
+   * Next Huffman symbol, or null when the block ends (trailing padding bits are discarded)
+   */
+  symbol(table: HuffmanTable): number | null {
+    let code = this.bit();
+    for (let length = 0; code !== null; length++) {
+      if (length >= MAX_HUFFMAN_BITS) {
+        throw new WsqDecodeError('Invalid Huffman code');
+      }
+      if (table.maxCode[length] >= code) {
+        return table.values[table.valuePointer[length] + code - table.minCode[length]];
+      }
+      const next = this.bit();
+      code = next === null ? null : (code << 1) | next;
+    }
+    return null;
+  }
+
+  /**
+   * Fixed-width field following an escape symbol; the block must not end inside it
+   */
+  required(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) {
+      const bit = this.bit();
+      if (bit === null) {
+        throw new WsqDecodeError('Block ends inside a coefficient');
+      }
+      value = (value << 1) | bit;
+    }
+    return value;
+  }
+
+  private bit(): number | null {
+    if (this.remaining === 0 && !this.fill()) {
+      return null;
+    }
+    this.remaining--;
+    return (this.current >> this.remaining) & 1;
+  }
+
+  private fill(): boolean {
+    if (this.markerOffset >= 0) {
+      return false;
+    }
+    const { bytes } = this.reader;
+    const offset = this.reader.offset;
+    if (offset >= bytes.length) {
+      throw new RangeError('Entropy-coded data runs past the end');
+    }
+    const byte = bytes[offset];
+    if (byte === 0xff && bytes[offset + 1] !== 0x00) {
+      this.markerOffset = offset;
+      return false;
+    }
+    this.reader.offset += byte === 0xff ? 2 : 1; // Skip the stuffed zero
+    this.current = byte;
+    this.remaining = 8;
+    return true;
+  }
+}